@@ -0,0 +1,12 @@
+import { createApiServer } from '../utils/api';
+
+/**
+ * Node entry point for the local JSON API: `npm run api`. Listens on 127.0.0.1:8787 unless
+ * HOST or PORT say otherwise.
+ */
+const host = process.env.HOST ?? '127.0.0.1';
+const port = Number(process.env.PORT ?? 8787);
+
+createApiServer().listen(port, host, () => {
+    console.log(`Nakshatra API listening on http://${host}:${port}/api/current`);
+});
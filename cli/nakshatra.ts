@@ -0,0 +1,11 @@
+import { runCli } from '../utils/cli';
+
+/**
+ * Node entry point for the `nakshatra` command line tool: `npm run cli -- next`.
+ */
+const exitCode = await runCli(process.argv.slice(2), {
+    now: new Date(),
+    write: text => process.stdout.write(text),
+    writeError: text => process.stderr.write(text),
+});
+process.exitCode = exitCode;
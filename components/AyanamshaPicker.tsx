@@ -0,0 +1,35 @@
+import React from 'react';
+import type { AyanamshaSystem } from '../types';
+import { AYANAMSHA_SYSTEMS, getAyanamshaDefinition, isAyanamshaSystem } from '../utils/ayanamsha';
+
+interface AyanamshaPickerProps {
+  value: AyanamshaSystem;
+  onChange: (system: AyanamshaSystem) => void;
+}
+
+const AyanamshaPicker: React.FC<AyanamshaPickerProps> = ({ value, onChange }) => {
+  return (
+    <div className="flex flex-col items-center">
+      <label htmlFor="ayanamsha-select" className="text-xs text-white/50 uppercase tracking-widest mb-1">
+        Ayanamsha
+      </label>
+      <select
+        id="ayanamsha-select"
+        value={value}
+        onChange={(e) => {
+          if (isAyanamshaSystem(e.target.value)) onChange(e.target.value);
+        }}
+        title={getAyanamshaDefinition(value).description}
+        className="bg-white/10 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-purple-400"
+      >
+        {AYANAMSHA_SYSTEMS.map(system => (
+          <option key={system.id} value={system.id} className="bg-[#10002b]">
+            {system.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default AyanamshaPicker;
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import type { NakshatraPeriod } from '../types';
+import { downloadTextFile } from '../utils/download';
+import { buildIcsCalendar } from '../utils/ics';
+
+interface CalendarExportProps {
+  nakshatraName: string;
+  ayanamshaName: string;
+  periods: NakshatraPeriod[];
+}
+
+const REMINDER_OPTIONS = [
+  { label: 'No reminder', minutes: null },
+  { label: '10 minutes before', minutes: 10 },
+  { label: '1 hour before', minutes: 60 },
+  { label: '1 day before', minutes: 24 * 60 },
+] as const;
+
+const CalendarIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+    <rect x="3" y="4" width="18" height="18" rx="2" ry="2" />
+    <line x1="16" y1="2" x2="16" y2="6" />
+    <line x1="8" y1="2" x2="8" y2="6" />
+    <line x1="3" y1="10" x2="21" y2="10" />
+  </svg>
+);
+
+const CalendarExport: React.FC<CalendarExportProps> = ({ nakshatraName, ayanamshaName, periods }) => {
+  const [reminderIndex, setReminderIndex] = useState(0);
+
+  const handleDownload = () => {
+    const reminder = REMINDER_OPTIONS[reminderIndex].minutes;
+    const ics = buildIcsCalendar(periods, {
+      ayanamshaName,
+      alarmMinutesBefore: reminder === null ? [] : [reminder],
+    });
+    downloadTextFile(`${nakshatraName.toLowerCase().replace(/\s+/g, '-')}-nakshatra.ics`, 'text/calendar;charset=utf-8', ics);
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row items-center justify-center gap-2 mt-3">
+      <label htmlFor="ics-reminder" className="sr-only">Calendar reminder</label>
+      <select
+        id="ics-reminder"
+        value={reminderIndex}
+        onChange={(e) => setReminderIndex(Number(e.target.value))}
+        className="bg-white/10 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-purple-400"
+      >
+        {REMINDER_OPTIONS.map((option, index) => (
+          <option key={option.label} value={index} className="bg-[#10002b]">
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={handleDownload}
+        disabled={periods.length === 0}
+        className="flex items-center justify-center space-x-2 px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-sm text-white transition disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <CalendarIcon className="w-4 h-4" />
+        <span>Download .ics</span>
+      </button>
+    </div>
+  );
+};
+
+export default CalendarExport;
@@ -0,0 +1,125 @@
+import React, { useMemo, useState } from 'react';
+import type { AyanamshaSystem, BirthDetails } from '../types';
+import { formatDegrees, getBirthInstant, getJanmaDetails } from '../utils/janma';
+import { formatDateTime, getSupportedTimeZones } from '../utils/time-zone';
+
+interface JanmaNakshatraCardProps {
+  value: BirthDetails | null;
+  onChange: (details: BirthDetails | null) => void;
+  ayanamsha: AyanamshaSystem;
+  defaultTimeZone: string;
+}
+
+const inputClassName =
+  'w-full bg-white/10 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-purple-400 [color-scheme:dark]';
+
+const JanmaNakshatraCard: React.FC<JanmaNakshatraCardProps> = ({ value, onChange, ayanamsha, defaultTimeZone }) => {
+  const [draft, setDraft] = useState<BirthDetails>(() => value ?? { date: '', time: '06:00', timeZone: defaultTimeZone });
+  const timeZones = useMemo(() => {
+    const zones = getSupportedTimeZones();
+    return zones.includes(draft.timeZone) ? zones : [draft.timeZone, ...zones];
+  }, [draft.timeZone]);
+
+  const birthInstant = useMemo(() => (value ? getBirthInstant(value) : null), [value]);
+  const janma = useMemo(() => (birthInstant ? getJanmaDetails(birthInstant, ayanamsha) : null), [birthInstant, ayanamsha]);
+  const isDraftValid = getBirthInstant(draft) !== null;
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (isDraftValid) onChange(draft);
+  };
+
+  return (
+    <section
+      aria-labelledby="janma-heading"
+      className="bg-black/20 backdrop-blur-xl border border-white/10 rounded-3xl shadow-2xl shadow-purple-500/10 p-8 text-left"
+    >
+      <h2 id="janma-heading" className="text-xl font-bold text-white mb-4">Janma Nakshatra</h2>
+      <form onSubmit={handleSubmit} className="grid grid-cols-2 gap-2">
+        <div>
+          <label htmlFor="birth-date" className="text-xs text-white/50 uppercase tracking-widest">Date</label>
+          <input
+            id="birth-date"
+            type="date"
+            required
+            value={draft.date}
+            onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="birth-time" className="text-xs text-white/50 uppercase tracking-widest">Time</label>
+          <input
+            id="birth-time"
+            type="time"
+            required
+            value={draft.time}
+            onChange={(e) => setDraft({ ...draft, time: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <div className="col-span-2">
+          <label htmlFor="birth-zone" className="text-xs text-white/50 uppercase tracking-widest">Birth time zone</label>
+          <select
+            id="birth-zone"
+            value={draft.timeZone}
+            onChange={(e) => setDraft({ ...draft, timeZone: e.target.value })}
+            className={inputClassName}
+          >
+            {timeZones.map(zone => (
+              <option key={zone} value={zone} className="bg-[#10002b]">
+                {zone.replace(/_/g, ' ')}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="submit"
+          disabled={!isDraftValid}
+          className="col-span-2 mt-2 px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-sm text-white transition disabled:opacity-50"
+        >
+          Calculate
+        </button>
+      </form>
+
+      {value && janma && birthInstant && (
+        <div className="mt-6">
+          <dl className="grid grid-cols-2 gap-y-3 text-sm">
+            <div className="col-span-2">
+              <dt className="text-xs text-white/50 uppercase tracking-widest">Nakshatra</dt>
+              <dd className="text-lg text-white">
+                {janma.nakshatra.name} <span className="text-white/60">· pada {janma.pada}</span>
+              </dd>
+            </div>
+            <div>
+              <dt className="text-xs text-white/50 uppercase tracking-widest">Rashi</dt>
+              <dd className="text-white">{janma.rashi.name}</dd>
+            </div>
+            <div>
+              <dt className="text-xs text-white/50 uppercase tracking-widest">Into nakshatra</dt>
+              <dd className="text-white">{formatDegrees(janma.degreesInNakshatra)}</dd>
+            </div>
+            <div className="col-span-2">
+              <dt className="text-xs text-white/50 uppercase tracking-widest">Moon</dt>
+              <dd className="text-white/70">
+                {formatDegrees(janma.moonLongitude)} sidereal · lord {janma.nakshatra.lord}
+              </dd>
+            </div>
+          </dl>
+          <p className="mt-3 text-xs text-white/40">
+            Born {formatDateTime(birthInstant, value.timeZone)} ({value.timeZone.replace(/_/g, ' ')})
+          </p>
+          <button
+            type="button"
+            onClick={() => onChange(null)}
+            className="mt-1 text-xs text-white/40 hover:text-white/70"
+          >
+            Forget birth details
+          </button>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default JanmaNakshatraCard;
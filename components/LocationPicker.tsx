@@ -0,0 +1,141 @@
+import React, { useMemo, useState } from 'react';
+import type { LocationSetting } from '../types';
+import { LOCATION_PRESETS, getDefaultLocation, getSupportedTimeZones } from '../utils/time-zone';
+
+interface LocationPickerProps {
+  value: LocationSetting;
+  onChange: (location: LocationSetting) => void;
+}
+
+const BROWSER_OPTION = '__browser__';
+const CUSTOM_OPTION = '__custom__';
+
+const selectClassName =
+  'bg-white/10 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-purple-400 max-w-[11rem]';
+
+const parseCoordinate = (raw: string, limit: number): number | undefined => {
+  const parsed = Number.parseFloat(raw);
+  return Number.isFinite(parsed) && Math.abs(parsed) <= limit ? parsed : undefined;
+};
+
+const LocationPicker: React.FC<LocationPickerProps> = ({ value, onChange }) => {
+  const [isLocating, setIsLocating] = useState(false);
+  const timeZones = useMemo(() => {
+    const zones = getSupportedTimeZones();
+    return zones.includes(value.timeZone) ? zones : [value.timeZone, ...zones];
+  }, [value.timeZone]);
+
+  const selectedPreset = LOCATION_PRESETS.some(preset => preset.label === value.label)
+    ? value.label
+    : value.label === getDefaultLocation().label
+      ? BROWSER_OPTION
+      : CUSTOM_OPTION;
+
+  const handlePresetChange = (option: string) => {
+    if (option === BROWSER_OPTION) {
+      onChange(getDefaultLocation());
+      return;
+    }
+    const preset = LOCATION_PRESETS.find(candidate => candidate.label === option);
+    if (preset) onChange(preset);
+  };
+
+  const handleCoordinateChange = (field: 'latitude' | 'longitude', raw: string) => {
+    onChange({ ...value, label: 'Custom', [field]: parseCoordinate(raw, field === 'latitude' ? 90 : 180) });
+  };
+
+  const handleLocateMe = () => {
+    if (!('geolocation' in navigator)) return;
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      position => {
+        setIsLocating(false);
+        onChange({
+          ...value,
+          label: 'Current location',
+          latitude: Number(position.coords.latitude.toFixed(4)),
+          longitude: Number(position.coords.longitude.toFixed(4)),
+        });
+      },
+      error => {
+        setIsLocating(false);
+        console.error("Failed to read current position:", error);
+      },
+    );
+  };
+
+  return (
+    <div className="flex flex-col items-center">
+      <label htmlFor="location-select" className="text-xs text-white/50 uppercase tracking-widest mb-1">
+        Location
+      </label>
+      <select
+        id="location-select"
+        value={selectedPreset}
+        onChange={(e) => handlePresetChange(e.target.value)}
+        className={selectClassName}
+      >
+        <option value={BROWSER_OPTION} className="bg-[#10002b]">Browser time zone</option>
+        {LOCATION_PRESETS.map(preset => (
+          <option key={preset.label} value={preset.label} className="bg-[#10002b]">
+            {preset.label}
+          </option>
+        ))}
+        {selectedPreset === CUSTOM_OPTION && (
+          <option value={CUSTOM_OPTION} className="bg-[#10002b]">{value.label}</option>
+        )}
+      </select>
+      <label htmlFor="timezone-select" className="sr-only">Time zone</label>
+      <select
+        id="timezone-select"
+        value={value.timeZone}
+        onChange={(e) => onChange({ ...value, label: 'Custom', timeZone: e.target.value })}
+        className={`${selectClassName} mt-2 text-xs`}
+      >
+        {timeZones.map(zone => (
+          <option key={zone} value={zone} className="bg-[#10002b]">
+            {zone.replace(/_/g, ' ')}
+          </option>
+        ))}
+      </select>
+      <div className="flex items-center gap-1 mt-2">
+        <label htmlFor="latitude-input" className="sr-only">Latitude</label>
+        <input
+          id="latitude-input"
+          type="number"
+          step="0.0001"
+          min={-90}
+          max={90}
+          placeholder="Lat"
+          value={value.latitude ?? ''}
+          onChange={(e) => handleCoordinateChange('latitude', e.target.value)}
+          className="w-[4.5rem] bg-white/10 border border-white/10 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:ring-2 focus:ring-purple-400"
+        />
+        <label htmlFor="longitude-input" className="sr-only">Longitude</label>
+        <input
+          id="longitude-input"
+          type="number"
+          step="0.0001"
+          min={-180}
+          max={180}
+          placeholder="Lon"
+          value={value.longitude ?? ''}
+          onChange={(e) => handleCoordinateChange('longitude', e.target.value)}
+          className="w-[4.5rem] bg-white/10 border border-white/10 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:ring-2 focus:ring-purple-400"
+        />
+        <button
+          type="button"
+          onClick={handleLocateMe}
+          disabled={isLocating}
+          title="Use my current location"
+          aria-label="Use my current location"
+          className="px-2 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-xs text-white transition disabled:opacity-50"
+        >
+          {isLocating ? '…' : '⌖'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LocationPicker;
@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import type { AyanamshaSystem, CalendarDate, NakshatraBand } from '../types';
+import { useMonthCalendar } from '../hooks/useMonthCalendar';
+import type { Clock } from '../hooks/useVirtualClock';
+import { getNakshatra } from '../utils/nakshatras';
+import { formatDateTime, getCalendarDate } from '../utils/time-zone';
+
+interface MonthCalendarProps {
+  /** The nakshatra whose hours are drawn as a band across each day. */
+  nakshatraNumber: number;
+  timeZone: string;
+  ayanamsha: AyanamshaSystem;
+  clock: Clock;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const TIME: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit', hourCycle: 'h23' };
+
+const isSameDate = (a: CalendarDate, b: CalendarDate) => a.year === b.year && a.month === b.month && a.day === b.day;
+
+const describeBand = (band: NakshatraBand, timeZone: string) =>
+  `${getNakshatra(band.nakshatra).name} ${formatDateTime(band.start, timeZone, TIME)}–${formatDateTime(band.end, timeZone, TIME)}`;
+
+const MonthCalendar: React.FC<MonthCalendarProps> = ({ nakshatraNumber, timeZone, ayanamsha, clock }) => {
+  const today = getCalendarDate(clock(), timeZone);
+  const [shown, setShown] = useState({ year: today.year, month: today.month });
+  // Travelling to another month shows that month.
+  useEffect(() => {
+    setShown({ year: today.year, month: today.month });
+  }, [today.year, today.month]);
+  const { weeks, isLoading, error } = useMonthCalendar(shown.year, shown.month, timeZone, ayanamsha);
+  const target = getNakshatra(nakshatraNumber);
+
+  const moveMonth = (delta: number) => {
+    const index = shown.year * 12 + (shown.month - 1) + delta;
+    setShown({ year: Math.floor(index / 12), month: (index % 12) + 1 });
+  };
+
+  const monthLabel = new Date(Date.UTC(shown.year, shown.month - 1, 1)).toLocaleString(undefined, {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+
+  return (
+    <section
+      aria-labelledby="calendar-heading"
+      className="bg-black/20 backdrop-blur-xl border border-white/10 rounded-3xl shadow-2xl shadow-purple-500/10 p-6 sm:p-8 text-left"
+    >
+      <header className="flex items-center justify-between gap-2 mb-4">
+        <div>
+          <h2 id="calendar-heading" className="text-xl font-bold text-white">{monthLabel}</h2>
+          <p className="text-xs text-white/40">{target.name} hours are shown as a band across each day.</p>
+        </div>
+        <nav className="flex gap-1" aria-label="Month navigation">
+          <button type="button" onClick={() => moveMonth(-1)} aria-label="Previous month" className="px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-sm text-white transition">
+            ‹
+          </button>
+          <button type="button" onClick={() => setShown({ year: today.year, month: today.month })} className="px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-xs text-white transition">
+            Today
+          </button>
+          <button type="button" onClick={() => moveMonth(1)} aria-label="Next month" className="px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-sm text-white transition">
+            ›
+          </button>
+        </nav>
+      </header>
+
+      {error ? (
+        <p className="text-sm text-red-400">{error}</p>
+      ) : (
+        <div role="grid" aria-busy={isLoading} aria-labelledby="calendar-heading" className={isLoading ? 'opacity-50' : ''}>
+          <div role="row" className="grid grid-cols-7 gap-1 mb-1">
+            {WEEKDAYS.map(weekday => (
+              <div key={weekday} role="columnheader" className="text-center text-xs text-white/40 uppercase tracking-widest">
+                {weekday}
+              </div>
+            ))}
+          </div>
+          {weeks.map(week => (
+            <div key={`${week[0].date.month}-${week[0].date.day}`} role="row" className="grid grid-cols-7 gap-1 mb-1">
+              {week.map(({ date, isInMonth, bands }) => {
+                const targetBands = bands.filter(band => band.nakshatra === nakshatraNumber);
+                const isToday = isSameDate(date, today);
+                return (
+                  <div
+                    key={date.day}
+                    role="gridcell"
+                    aria-label={`${date.day} ${monthLabel}: ${bands.map(band => describeBand(band, timeZone)).join(', ')}`}
+                    className={`relative min-h-[5.5rem] rounded-lg p-1.5 overflow-hidden ${
+                      targetBands.length > 0 ? 'bg-purple-500/10 ring-1 ring-purple-400/40' : 'bg-white/5'
+                    } ${isInMonth ? '' : 'opacity-40'}`}
+                  >
+                    <div className={`text-xs font-medium ${isToday ? 'inline-block rounded-full bg-purple-500 px-1.5 text-white' : 'text-white/70'}`}>
+                      {date.day}
+                    </div>
+                    <ul className="mt-1 space-y-0.5" aria-hidden="true">
+                      {bands.map(band => (
+                        <li
+                          key={band.start.getTime()}
+                          title={describeBand(band, timeZone)}
+                          className={`truncate text-[10px] leading-tight ${band.nakshatra === nakshatraNumber ? 'text-purple-200 font-semibold' : 'text-white/50'}`}
+                        >
+                          {getNakshatra(band.nakshatra).name}
+                          {band.endFraction < 1 && <span className="text-white/40"> –{formatDateTime(band.end, timeZone, TIME)}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                    <div className="absolute inset-x-1.5 bottom-1.5 h-1.5 rounded-full bg-white/10" aria-hidden="true">
+                      {targetBands.map(band => (
+                        <div
+                          key={band.start.getTime()}
+                          className="absolute inset-y-0 rounded-full bg-purple-400"
+                          style={{ left: `${band.startFraction * 100}%`, width: `${(band.endFraction - band.startFraction) * 100}%` }}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default MonthCalendar;
@@ -0,0 +1,311 @@
+import React, { useState } from 'react';
+import type { AyanamshaSystem, LocationSetting, MuhurtaCondition, MuhurtaRule, TimeInterval } from '../types';
+import type { Clock } from '../hooks/useVirtualClock';
+import { useMuhurtaSearch } from '../hooks/useMuhurtaSearch';
+import { NAKSHATRAS } from '../utils/nakshatras';
+import { getTithiName } from '../utils/panchang';
+import { getMasaName } from '../utils/masa';
+import { formatDateTime } from '../utils/time-zone';
+
+interface MuhurtaFinderProps {
+  /** Used for the nakshatra of the starting query. */
+  nakshatraNumber: number;
+  location: LocationSetting;
+  ayanamsha: AyanamshaSystem;
+  clock: Clock;
+}
+
+type ConditionType = MuhurtaCondition['type'];
+
+const CONDITION_LABELS: Record<ConditionType, string> = {
+  nakshatra: 'Nakshatra',
+  tithi: 'Tithi',
+  paksha: 'Paksha',
+  weekday: 'Weekday',
+  masa: 'Lunar month',
+  'rahu-kalam': 'Rahu Kalam',
+  yamagandam: 'Yamagandam',
+};
+
+const DEFAULT_CONDITIONS: Record<ConditionType, MuhurtaCondition> = {
+  nakshatra: { type: 'nakshatra', nakshatras: [] },
+  tithi: { type: 'tithi', tithis: [] },
+  paksha: { type: 'paksha', paksha: 'shukla' },
+  weekday: { type: 'weekday', weekdays: [1, 2, 3, 4, 5] },
+  masa: { type: 'masa', masas: [] },
+  'rahu-kalam': { type: 'rahu-kalam' },
+  yamagandam: { type: 'yamagandam' },
+};
+
+const SEARCH_MONTHS = [1, 3, 6, 12];
+const MIN_DURATIONS = [0, 15, 30, 60, 120];
+const WINDOWS_SHOWN = 50;
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const TITHI_NUMBERS = Array.from({ length: 30 }, (_, i) => i + 1);
+const MASA_NUMBERS = Array.from({ length: 12 }, (_, i) => i + 1);
+
+const WINDOW_FORMAT: Intl.DateTimeFormatOptions = {
+  weekday: 'short',
+  day: 'numeric',
+  month: 'short',
+  hour: '2-digit',
+  minute: '2-digit',
+};
+
+const inputClassName =
+  'bg-white/10 border border-white/10 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:ring-2 focus:ring-purple-400';
+
+const formatDuration = (window: TimeInterval) => {
+  const totalMinutes = Math.round((window.end.getTime() - window.start.getTime()) / (1000 * 60));
+  return `${Math.floor(totalMinutes / 60)}h ${String(totalMinutes % 60).padStart(2, '0')}m`;
+};
+
+const toggle = (values: number[], value: number) =>
+  values.includes(value) ? values.filter(candidate => candidate !== value) : [...values, value].sort((a, b) => a - b);
+
+const selectedValues = (event: React.ChangeEvent<HTMLSelectElement>) =>
+  Array.from(event.target.selectedOptions, (option: HTMLOptionElement) => Number(option.value));
+
+/** A row of small toggle buttons for picking several values. */
+const ChipGroup: React.FC<{ options: number[]; selected: number[]; labelFor: (value: number) => string; onChange: (values: number[]) => void }> = ({
+  options,
+  selected,
+  labelFor,
+  onChange,
+}) => (
+  <div className="flex flex-wrap gap-1">
+    {options.map(value => (
+      <button
+        key={value}
+        type="button"
+        aria-pressed={selected.includes(value)}
+        onClick={() => onChange(toggle(selected, value))}
+        className={`px-2 py-0.5 rounded-full text-xs transition ${
+          selected.includes(value) ? 'bg-purple-500/40 text-white' : 'bg-white/5 text-white/50 hover:bg-white/10'
+        }`}
+      >
+        {labelFor(value)}
+      </button>
+    ))}
+  </div>
+);
+
+const ConditionEditor: React.FC<{ condition: MuhurtaCondition; id: string; onChange: (condition: MuhurtaCondition) => void }> = ({
+  condition,
+  id,
+  onChange,
+}) => {
+  switch (condition.type) {
+    case 'nakshatra':
+      return (
+        <select
+          id={id}
+          multiple
+          size={5}
+          aria-label="Nakshatras"
+          value={condition.nakshatras.map(String)}
+          onChange={(e) => onChange({ ...condition, nakshatras: selectedValues(e) })}
+          className={`${inputClassName} w-full`}
+        >
+          {NAKSHATRAS.map(n => (
+            <option key={n.number} value={n.number} className="bg-[#10002b]">{n.number}. {n.name}</option>
+          ))}
+        </select>
+      );
+    case 'tithi':
+      return (
+        <select
+          id={id}
+          multiple
+          size={5}
+          aria-label="Tithis"
+          value={condition.tithis.map(String)}
+          onChange={(e) => onChange({ ...condition, tithis: selectedValues(e) })}
+          className={`${inputClassName} w-full`}
+        >
+          {TITHI_NUMBERS.map(n => (
+            <option key={n} value={n} className="bg-[#10002b]">{getTithiName(n)}</option>
+          ))}
+        </select>
+      );
+    case 'paksha':
+      return (
+        <select
+          id={id}
+          aria-label="Paksha"
+          value={condition.paksha}
+          onChange={(e) => onChange({ ...condition, paksha: e.target.value === 'krishna' ? 'krishna' : 'shukla' })}
+          className={inputClassName}
+        >
+          <option value="shukla" className="bg-[#10002b]">Shukla (waxing)</option>
+          <option value="krishna" className="bg-[#10002b]">Krishna (waning)</option>
+        </select>
+      );
+    case 'weekday':
+      return (
+        <ChipGroup
+          options={[0, 1, 2, 3, 4, 5, 6]}
+          selected={condition.weekdays}
+          labelFor={weekday => WEEKDAY_LABELS[weekday]}
+          onChange={weekdays => onChange({ ...condition, weekdays })}
+        />
+      );
+    case 'masa':
+      return (
+        <ChipGroup
+          options={MASA_NUMBERS}
+          selected={condition.masas}
+          labelFor={getMasaName}
+          onChange={masas => onChange({ ...condition, masas })}
+        />
+      );
+    case 'rahu-kalam':
+    case 'yamagandam':
+      return <p className="text-xs text-white/40">Calculated from sunrise and sunset at your location.</p>;
+  }
+};
+
+const MuhurtaFinder: React.FC<MuhurtaFinderProps> = ({ nakshatraNumber, location, ayanamsha, clock }) => {
+  // Start from the classic query: the nakshatra in the bright half, on a weekday, avoiding Rahu Kalam.
+  const [rules, setRules] = useState<MuhurtaRule[]>(() => [
+    { condition: { type: 'nakshatra', nakshatras: [nakshatraNumber] }, exclude: false },
+    { condition: DEFAULT_CONDITIONS.paksha, exclude: false },
+    { condition: DEFAULT_CONDITIONS['rahu-kalam'], exclude: true },
+    { condition: DEFAULT_CONDITIONS.weekday, exclude: false },
+  ]);
+  const [months, setMonths] = useState(3);
+  const [minDurationMinutes, setMinDurationMinutes] = useState(30);
+  const { windows, isSearching, error, search } = useMuhurtaSearch();
+
+  const updateRule = (index: number, rule: MuhurtaRule) => {
+    setRules(current => current.map((candidate, i) => (i === index ? rule : candidate)));
+  };
+
+  const handleSearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    const from = clock();
+    const to = new Date(from);
+    to.setUTCMonth(to.getUTCMonth() + months);
+    search({ rules, from, to, minDurationMinutes, ayanamsha, location });
+  };
+
+  return (
+    <div className="text-left">
+      <h2 className="text-lg text-white/70 mb-1">Muhurta finder</h2>
+      <p className="text-xs text-white/40 mb-4">Find the times when every condition below holds at once.</p>
+
+      <form onSubmit={handleSearch} className="space-y-3">
+        <ol className="space-y-3">
+          {rules.map((rule, index) => {
+            const id = `muhurta-rule-${index}`;
+            return (
+              <li key={index} className="rounded-xl bg-white/5 px-3 py-2 space-y-2">
+                <div className="flex items-center gap-2">
+                  {index > 0 && <span className="text-xs text-white/40 uppercase">and</span>}
+                  <label htmlFor={`${id}-exclude`} className="sr-only">Include or exclude</label>
+                  <select
+                    id={`${id}-exclude`}
+                    value={rule.exclude ? 'not' : 'is'}
+                    onChange={(e) => updateRule(index, { ...rule, exclude: e.target.value === 'not' })}
+                    className={inputClassName}
+                  >
+                    <option value="is" className="bg-[#10002b]">During</option>
+                    <option value="not" className="bg-[#10002b]">Not during</option>
+                  </select>
+                  <label htmlFor={`${id}-type`} className="sr-only">Condition</label>
+                  <select
+                    id={`${id}-type`}
+                    value={rule.condition.type}
+                    onChange={(e) => updateRule(index, { ...rule, condition: DEFAULT_CONDITIONS[e.target.value as ConditionType] })}
+                    className={`${inputClassName} flex-1`}
+                  >
+                    {Object.entries(CONDITION_LABELS).map(([type, label]) => (
+                      <option key={type} value={type} className="bg-[#10002b]">{label}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => setRules(current => current.filter((_, i) => i !== index))}
+                    aria-label={`Remove the ${CONDITION_LABELS[rule.condition.type]} condition`}
+                    className="text-xs text-white/40 hover:text-red-300"
+                  >
+                    Remove
+                  </button>
+                </div>
+                <ConditionEditor condition={rule.condition} id={id} onChange={condition => updateRule(index, { ...rule, condition })} />
+              </li>
+            );
+          })}
+        </ol>
+
+        <button
+          type="button"
+          onClick={() => setRules(current => [...current, { condition: DEFAULT_CONDITIONS.tithi, exclude: false }])}
+          className="w-full px-3 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-xs text-white/70 transition"
+        >
+          Add a condition
+        </button>
+
+        <div className="flex items-center gap-2 text-xs text-white/60">
+          <label htmlFor="muhurta-months">Search the next</label>
+          <select id="muhurta-months" value={months} onChange={(e) => setMonths(Number(e.target.value))} className={inputClassName}>
+            {SEARCH_MONTHS.map(count => (
+              <option key={count} value={count} className="bg-[#10002b]">{count === 1 ? '1 month' : `${count} months`}</option>
+            ))}
+          </select>
+          <label htmlFor="muhurta-min-duration">lasting at least</label>
+          <select
+            id="muhurta-min-duration"
+            value={minDurationMinutes}
+            onChange={(e) => setMinDurationMinutes(Number(e.target.value))}
+            className={inputClassName}
+          >
+            {MIN_DURATIONS.map(minutes => (
+              <option key={minutes} value={minutes} className="bg-[#10002b]">{minutes === 0 ? 'any time' : `${minutes} min`}</option>
+            ))}
+          </select>
+        </div>
+
+        <button
+          type="submit"
+          disabled={isSearching}
+          className="w-full px-4 py-2 rounded-lg bg-purple-500/30 hover:bg-purple-500/40 text-sm text-white transition disabled:opacity-50"
+        >
+          {isSearching ? 'Searching...' : 'Search'}
+        </button>
+      </form>
+
+      <div aria-live="polite" className="mt-4">
+        {error ? (
+          <p className="text-xs text-red-400">{error}</p>
+        ) : windows && (
+          windows.length === 0 ? (
+            <p className="text-sm text-white/50">No time satisfies every condition. Try removing one or searching further ahead.</p>
+          ) : (
+            <>
+              <p className="text-xs text-white/40 mb-2">
+                {windows.length === 1 ? '1 window' : `${windows.length} windows`} · times in {location.label}
+              </p>
+              <ol className="space-y-1 max-h-72 overflow-y-auto pr-1">
+                {windows.slice(0, WINDOWS_SHOWN).map(window => (
+                  <li key={window.start.getTime()} className="flex justify-between gap-2 text-xs text-white/80">
+                    <span>
+                      {formatDateTime(window.start, location.timeZone, WINDOW_FORMAT)} → {formatDateTime(window.end, location.timeZone, WINDOW_FORMAT)}
+                    </span>
+                    <span className="text-white/40 shrink-0">{formatDuration(window)}</span>
+                  </li>
+                ))}
+              </ol>
+              {windows.length > WINDOWS_SHOWN && (
+                <p className="text-xs text-white/40 mt-2">Showing the first {WINDOWS_SHOWN}. Add a condition to narrow the search.</p>
+              )}
+            </>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MuhurtaFinder;
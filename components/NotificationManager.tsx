@@ -1,9 +1,15 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
+import type { NakshatraPeriod, ReminderSettings, ScheduledReminder } from '../types';
+import { useReminders } from '../hooks/useReminders';
+import { getReminderBody, getReminderTitle } from '../utils/reminders';
+import { showNotification } from '../utils/service-worker';
+import { formatDateTime } from '../utils/time-zone';
 
 interface NotificationManagerProps {
-  isSwathiActive: boolean;
-  nextSwathiStart: Date | null;
+  periods: NakshatraPeriod[];
+  settings: ReminderSettings;
+  timeZone: string;
 }
 
 const BellIcon: React.FC<{ className?: string }> = ({ className }) => (
@@ -14,9 +20,8 @@ const BellIcon: React.FC<{ className?: string }> = ({ className }) => (
 );
 
 
-const NotificationManager: React.FC<NotificationManagerProps> = ({ isSwathiActive, nextSwathiStart }) => {
+const NotificationManager: React.FC<NotificationManagerProps> = ({ periods, settings, timeZone }) => {
   const [permission, setPermission] = useState<NotificationPermission>('default');
-  const [lastNotifiedTime, setLastNotifiedTime] = useState<number | null>(null);
 
   useEffect(() => {
     if ('Notification' in window) {
@@ -33,23 +38,15 @@ const NotificationManager: React.FC<NotificationManagerProps> = ({ isSwathiActiv
     setPermission(status);
   }, []);
 
-  useEffect(() => {
-    if (
-      isSwathiActive &&
-      permission === 'granted' &&
-      nextSwathiStart &&
-      nextSwathiStart.getTime() !== lastNotifiedTime
-    ) {
-      const starIconSvg = '<svg xmlns="http://www.w3.org/2000/svg" width="192" height="192" viewBox="0 0 24 24" fill="#FFFFFF"><path d="M12 2l2.35 6.53h6.91l-5.59 4.08 2.15 6.58-5.82-4.25-5.82 4.25 2.15-6.58-5.59-4.08h6.91z"/></svg>';
-      const iconUrl = 'data:image/svg+xml;base64,' + window.btoa(starIconSvg);
+  const showReminder = useCallback((reminder: ScheduledReminder, now: Date) => {
+    showNotification(getReminderTitle(reminder, now), {
+      body: getReminderBody(reminder, timeZone),
+      icon: '/icon.svg',
+      tag: reminder.id,
+    }).catch(error => console.error("Failed to show reminder:", error));
+  }, [timeZone]);
 
-      new Notification('Swathi Nakshatra is Active', {
-        body: 'The auspicious period has begun. Embrace the celestial energy.',
-        icon: iconUrl,
-      });
-      setLastNotifiedTime(nextSwathiStart.getTime());
-    }
-  }, [isSwathiActive, permission, nextSwathiStart, lastNotifiedTime]);
+  const { nextReminder } = useReminders(periods, settings, timeZone, permission === 'granted', showReminder);
 
   const getButtonContent = () => {
     switch (permission) {
@@ -69,7 +66,7 @@ const NotificationManager: React.FC<NotificationManagerProps> = ({ isSwathiActiv
   }
 
   return (
-    <div className="flex justify-center">
+    <div className="flex flex-col items-center">
       <button
         onClick={requestPermission}
         disabled={buttonContent.disabled}
@@ -78,6 +75,13 @@ const NotificationManager: React.FC<NotificationManagerProps> = ({ isSwathiActiv
         <BellIcon className="w-5 h-5" />
         <span>{buttonContent.text}</span>
       </button>
+      {permission === 'granted' && (
+        <p className="text-xs text-white/40 mt-2">
+          {nextReminder
+            ? `Next reminder ${formatDateTime(nextReminder.fireAt, timeZone)}`
+            : 'No reminders scheduled'}
+        </p>
+      )}
     </div>
   );
 };
@@ -0,0 +1,34 @@
+import React from 'react';
+import type { CountdownState, PadaPeriod } from '../types';
+import { getRashi } from '../utils/rashis';
+import { formatDateTime } from '../utils/time-zone';
+
+interface PadaStatusProps {
+  pada: PadaPeriod;
+  countdown: CountdownState;
+  timeZone: string;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const PadaStatus: React.FC<PadaStatusProps> = ({ pada, countdown, timeZone }) => {
+  const hours = countdown.days * 24 + countdown.hours;
+  const isLastPada = pada.pada === 4;
+
+  return (
+    <div className="mt-6 pt-4 border-t border-white/10">
+      <p className="text-sm text-white/80">
+        Pada {pada.pada} of 4 <span className="text-white/40">·</span> Navamsa {getRashi(pada.navamsa).name}
+      </p>
+      <p className="text-xs text-white/50 mt-1">
+        {isLastPada ? 'Last pada ends with the period' : 'Next pada in'}{' '}
+        <span className="font-mono text-white/80" role="timer" aria-label={`${hours} hours, ${countdown.minutes} minutes`}>
+          {pad(hours)}:{pad(countdown.minutes)}:{pad(countdown.seconds)}
+        </span>
+        <span className="block text-white/40 mt-0.5">at {formatDateTime(pada.end, timeZone)}</span>
+      </p>
+    </div>
+  );
+};
+
+export default PadaStatus;
@@ -0,0 +1,53 @@
+import React from 'react';
+import type { ReminderEdge, ReminderSettings } from '../types';
+import { REMINDER_LEAD_TIMES } from '../utils/reminders';
+
+interface ReminderSettingsPanelProps {
+  value: ReminderSettings;
+  onChange: (settings: ReminderSettings) => void;
+}
+
+const EDGES: ReadonlyArray<{ edge: ReminderEdge; key: keyof ReminderSettings; label: string }> = [
+  { edge: 'start', key: 'beforeStart', label: 'Before start' },
+  { edge: 'end', key: 'beforeEnd', label: 'Before end' },
+];
+
+const ReminderSettingsPanel: React.FC<ReminderSettingsPanelProps> = ({ value, onChange }) => {
+  const toggle = (key: keyof ReminderSettings, minutes: number) => {
+    const current = value[key];
+    const next = current.includes(minutes)
+      ? current.filter(candidate => candidate !== minutes)
+      : [...current, minutes].sort((a, b) => b - a);
+    onChange({ ...value, [key]: next });
+  };
+
+  return (
+    <details className="mt-4 rounded-xl bg-white/5 px-4 py-3 text-left">
+      <summary className="cursor-pointer text-xs text-white/60 uppercase tracking-widest">Reminder settings</summary>
+      <div className="mt-3 grid grid-cols-2 gap-4">
+        {EDGES.map(({ edge, key, label }) => (
+          <fieldset key={edge}>
+            <legend className="text-xs text-white/50 mb-2">{label}</legend>
+            {REMINDER_LEAD_TIMES.map(({ minutes, label: leadLabel }) => {
+              const id = `reminder-${edge}-${minutes}`;
+              return (
+                <div key={minutes} className="flex items-center gap-2 text-sm text-white/80">
+                  <input
+                    id={id}
+                    type="checkbox"
+                    checked={value[key].includes(minutes)}
+                    onChange={() => toggle(key, minutes)}
+                    className="accent-purple-400"
+                  />
+                  <label htmlFor={id}>{leadLabel}</label>
+                </div>
+              );
+            })}
+          </fieldset>
+        ))}
+      </div>
+    </details>
+  );
+};
+
+export default ReminderSettingsPanel;
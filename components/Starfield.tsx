@@ -1,96 +1,74 @@
-
 import React, { useRef, useEffect } from 'react';
 
-declare global {
-    interface Window {
-        THREE: any;
-    }
+interface Star {
+  x: number;
+  y: number;
+  size: number;
+  speed: number;
+  opacity: number;
 }
 
+const STAR_COUNT = 200;
+
 const Starfield: React.FC = () => {
-  const mountRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
 
   useEffect(() => {
-    if (!mountRef.current || typeof window.THREE === 'undefined') {
-        console.error("Three.js not found or mount point not available");
-        return;
-    }
-    const THREE = window.THREE;
-    const mount = mountRef.current;
-    
-    let animationFrameId: number;
+    const canvas = canvasRef.current;
+    if (!canvas) return;
 
-    const scene = new THREE.Scene();
-    const camera = new THREE.PerspectiveCamera(60, window.innerWidth / window.innerHeight, 1, 1000);
-    camera.position.z = 1;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
 
-    const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true });
-    renderer.setSize(window.innerWidth, window.innerHeight);
-    renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
-    mount.appendChild(renderer.domElement);
+    canvas.width = window.innerWidth;
+    canvas.height = window.innerHeight;
 
-    const starVertices: number[] = [];
-    for (let i = 0; i < 10000; i++) {
-      const x = (Math.random() - 0.5) * 2000;
-      const y = (Math.random() - 0.5) * 2000;
-      const z = (Math.random() - 0.5) * 2000;
-      starVertices.push(x, y, z);
+    const stars: Star[] = [];
+    for (let i = 0; i < STAR_COUNT; i++) {
+      stars.push({
+        x: Math.random() * canvas.width,
+        y: Math.random() * canvas.height,
+        size: Math.random() * 2 + 0.5,
+        speed: Math.random() * 0.3 + 0.1,
+        opacity: Math.random() * 0.5 + 0.5,
+      });
     }
 
-    const starGeometry = new THREE.BufferGeometry();
-    starGeometry.setAttribute('position', new THREE.Float32BufferAttribute(starVertices, 3));
-    
-    const starMaterial = new THREE.PointsMaterial({
-        color: 0xffffff,
-        size: 0.7,
-        transparent: true,
-        opacity: 0.8,
-        blending: THREE.AdditiveBlending
-    });
-    
-    const stars = new THREE.Points(starGeometry, starMaterial);
-    scene.add(stars);
-    
-    const mouse = new THREE.Vector2();
-    const handleMouseMove = (event: MouseEvent) => {
-      mouse.x = (event.clientX / window.innerWidth) * 2 - 1;
-      mouse.y = -(event.clientY / window.innerHeight) * 2 + 1;
-    };
-    window.addEventListener('mousemove', handleMouseMove);
-
+    let animationFrameId: number;
     const animate = () => {
-      animationFrameId = requestAnimationFrame(animate);
-      
-      stars.rotation.y += 0.0001;
-      stars.rotation.x += 0.0001;
-      
-      camera.position.x += (mouse.x * 0.5 - camera.position.x) * 0.02;
-      camera.position.y += (mouse.y * 0.5 - camera.position.y) * 0.02;
-      camera.lookAt(scene.position);
+      ctx.fillStyle = 'rgba(10, 0, 26, 0.1)';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+      stars.forEach(star => {
+        ctx.fillStyle = `rgba(255, 255, 255, ${star.opacity})`;
+        ctx.beginPath();
+        ctx.arc(star.x, star.y, star.size, 0, Math.PI * 2);
+        ctx.fill();
+
+        star.y += star.speed;
+        if (star.y > canvas.height) {
+          star.y = 0;
+          star.x = Math.random() * canvas.width;
+        }
+      });
 
-      renderer.render(scene, camera);
+      animationFrameId = requestAnimationFrame(animate);
     };
     animate();
 
     const handleResize = () => {
-      camera.aspect = window.innerWidth / window.innerHeight;
-      camera.updateProjectionMatrix();
-      renderer.setSize(window.innerWidth, window.innerHeight);
+      canvas.width = window.innerWidth;
+      canvas.height = window.innerHeight;
     };
     window.addEventListener('resize', handleResize);
 
     return () => {
-      window.removeEventListener('resize', handleResize);
-      window.removeEventListener('mousemove', handleMouseMove);
       cancelAnimationFrame(animationFrameId);
-      mount.removeChild(renderer.domElement);
-      starGeometry.dispose();
-      starMaterial.dispose();
-      renderer.dispose();
+      window.removeEventListener('resize', handleResize);
     };
   }, []);
 
-  return <div ref={mountRef} className="fixed top-0 left-0 w-full h-full -z-10" />;
+  return <canvas ref={canvasRef} className="fixed top-0 left-0 w-full h-full -z-10" aria-hidden="true" />;
 };
 
 export default Starfield;
@@ -0,0 +1,74 @@
+import React from 'react';
+import type { AyanamshaSystem, LocationSetting, SunriseStatus } from '../types';
+import { useDayNakshatras } from '../hooks/useDayNakshatras';
+import type { Clock } from '../hooks/useVirtualClock';
+import { getSunriseStatus } from '../utils/day-nakshatra';
+import { getNakshatra } from '../utils/nakshatras';
+import { formatDateTime, zonedTimeToDate } from '../utils/time-zone';
+
+interface SunriseNakshatrasProps {
+  nakshatraNumber: number;
+  location: LocationSetting;
+  ayanamsha: AyanamshaSystem;
+  clock: Clock;
+}
+
+const DAYS_SHOWN = 30;
+
+const STATUS_STYLES: Record<SunriseStatus, { label: string; className: string }> = {
+  sunrise: { label: 'At sunrise', className: 'bg-green-500/20 text-green-300' },
+  partial: { label: 'Part of day', className: 'bg-amber-500/20 text-amber-300' },
+  none: { label: '', className: '' },
+};
+
+const SunriseNakshatras: React.FC<SunriseNakshatrasProps> = ({ nakshatraNumber, location, ayanamsha, clock }) => {
+  const days = useDayNakshatras(location, DAYS_SHOWN, ayanamsha, clock);
+  const target = getNakshatra(nakshatraNumber);
+
+  return (
+    <section aria-labelledby="sunrise-heading" className="px-8 py-6 border-t border-white/10">
+      <h2 id="sunrise-heading" className="text-sm font-semibold text-white/70 uppercase tracking-widest mb-1">
+        Nakshatra of the day
+      </h2>
+      <p className="text-xs text-white/40 mb-4">
+        The nakshatra at local sunrise rules the day. {target.name} days are flagged.
+      </p>
+      {days === null ? (
+        <p className="text-sm text-white/50">Set a latitude and longitude to compute sunrise.</p>
+      ) : days.length === 0 ? (
+        <p className="text-sm text-red-400">Could not calculate sunrise times.</p>
+      ) : (
+        <ol className="space-y-2 max-h-72 overflow-y-auto pr-1">
+          {days.map(day => {
+            const status = STATUS_STYLES[getSunriseStatus(day, nakshatraNumber)];
+            const noon = zonedTimeToDate(day.date, location.timeZone, 12);
+            return (
+              <li
+                key={`${day.date.year}-${day.date.month}-${day.date.day}`}
+                className="flex items-center justify-between rounded-xl bg-white/5 px-4 py-2 text-left"
+              >
+                <div>
+                  <div className="text-sm text-white">
+                    {formatDateTime(noon, location.timeZone, { weekday: 'short', day: 'numeric', month: 'short' })}
+                    <span className="text-white/60"> · {getNakshatra(day.nakshatra).name}</span>
+                  </div>
+                  <div className="text-xs text-white/40">
+                    Sunrise{' '}
+                    {day.riseSet.sunrise
+                      ? formatDateTime(day.riseSet.sunrise, location.timeZone, { hour: '2-digit', minute: '2-digit' })
+                      : '—'}
+                  </div>
+                </div>
+                {status.label && (
+                  <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${status.className}`}>{status.label}</span>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </section>
+  );
+};
+
+export default SunriseNakshatras;
@@ -0,0 +1,19 @@
+import React from 'react';
+import type { Tara, TaraQuality } from '../types';
+
+const QUALITY_CLASSES: Record<TaraQuality, string> = {
+  favourable: 'bg-green-500/20 text-green-300',
+  unfavourable: 'bg-red-500/20 text-red-300',
+  mixed: 'bg-amber-500/20 text-amber-300',
+};
+
+const TaraBadge: React.FC<{ tara: Tara }> = ({ tara }) => (
+  <span
+    title={`${tara.meaning} · ${tara.quality}`}
+    className={`rounded-full px-2 py-0.5 text-xs font-medium whitespace-nowrap ${QUALITY_CLASSES[tara.quality]}`}
+  >
+    {tara.name}
+  </span>
+);
+
+export default TaraBadge;
@@ -0,0 +1,91 @@
+import React from 'react';
+import type { AyanamshaSystem } from '../types';
+import { useTransits } from '../hooks/useTransits';
+import type { Clock } from '../hooks/useVirtualClock';
+import { NAKSHATRAS, getNakshatra } from '../utils/nakshatras';
+import { getTara } from '../utils/tarabala';
+import { formatDateTime } from '../utils/time-zone';
+import TaraBadge from './TaraBadge';
+
+interface TarabalaForecastProps {
+  /** The birth star used for the cycle, or null if none is known. */
+  birthNakshatra: number | null;
+  /** The user's explicit choice; null means "use the janma nakshatra from birth details". */
+  selectedBirthNakshatra: number | null;
+  onBirthNakshatraChange: (nakshatraNumber: number | null) => void;
+  timeZone: string;
+  ayanamsha: AyanamshaSystem;
+  clock: Clock;
+}
+
+const DAYS_SHOWN = 14;
+const FROM_BIRTH_DETAILS = '';
+
+const SHORT_DATE_TIME: Intl.DateTimeFormatOptions = { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' };
+
+const TarabalaForecast: React.FC<TarabalaForecastProps> = ({
+  birthNakshatra,
+  selectedBirthNakshatra,
+  onBirthNakshatraChange,
+  timeZone,
+  ayanamsha,
+  clock,
+}) => {
+  const { transits, isLoading } = useTransits(DAYS_SHOWN, ayanamsha, clock, birthNakshatra !== null);
+  const now = clock();
+
+  return (
+    <section
+      aria-labelledby="tarabala-heading"
+      className="bg-black/20 backdrop-blur-xl border border-white/10 rounded-3xl shadow-2xl shadow-purple-500/10 p-8 text-left"
+    >
+      <header className="flex items-center justify-between gap-2 mb-4">
+        <h2 id="tarabala-heading" className="text-xl font-bold text-white">Tarabala</h2>
+        <label htmlFor="birth-star-select" className="sr-only">Birth nakshatra</label>
+        <select
+          id="birth-star-select"
+          value={selectedBirthNakshatra ?? FROM_BIRTH_DETAILS}
+          onChange={(e) => onBirthNakshatraChange(e.target.value === FROM_BIRTH_DETAILS ? null : Number(e.target.value))}
+          className="bg-white/10 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-purple-400 max-w-[11rem]"
+        >
+          <option value={FROM_BIRTH_DETAILS} className="bg-[#10002b]">
+            {birthNakshatra && selectedBirthNakshatra === null ? `${getNakshatra(birthNakshatra).name} (janma)` : 'Birth star…'}
+          </option>
+          {NAKSHATRAS.map(n => (
+            <option key={n.number} value={n.number} className="bg-[#10002b]">
+              {n.number}. {n.name}
+            </option>
+          ))}
+        </select>
+      </header>
+      {birthNakshatra === null ? (
+        <p className="text-sm text-white/50">Pick your birth nakshatra, or enter birth details, to see how favourable each transit is for you.</p>
+      ) : isLoading ? (
+        <p className="text-sm text-white/50">Calculating transits...</p>
+      ) : (
+        <ol className="space-y-2 max-h-80 overflow-y-auto pr-1">
+          {transits.map(transit => {
+            const tara = getTara(birthNakshatra, transit.nakshatra);
+            const isCurrent = now >= transit.start && now < transit.end;
+            return (
+              <li
+                key={transit.start.getTime()}
+                className={`flex items-center justify-between gap-2 rounded-xl px-4 py-2 ${isCurrent ? 'bg-white/10 ring-1 ring-purple-400/50' : 'bg-white/5'}`}
+              >
+                <div>
+                  <div className="text-sm text-white">{getNakshatra(transit.nakshatra).name}</div>
+                  <div className="text-xs text-white/40">
+                    {formatDateTime(transit.start, timeZone, SHORT_DATE_TIME)} – {formatDateTime(transit.end, timeZone, SHORT_DATE_TIME)}
+                  </div>
+                </div>
+                <TaraBadge tara={tara} />
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </section>
+  );
+};
+
+export default TarabalaForecast;
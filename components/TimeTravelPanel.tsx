@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import type { AyanamshaSystem } from '../types';
+import type { Clock } from '../hooks/useVirtualClock';
+import { getNakshatraAtLongitude } from '../utils/nakshatras';
+import { getMoonSiderealLongitude } from '../utils/sidereal';
+import { formatDateTime, parseDateTimeLocalString, toDateTimeLocalString } from '../utils/time-zone';
+
+interface TimeTravelPanelProps {
+  clock: Clock;
+  isTimeTravelling: boolean;
+  onTravel: (date: Date | null) => void;
+  timeZone: string;
+  ayanamsha: AyanamshaSystem;
+}
+
+const TimeTravelPanel: React.FC<TimeTravelPanelProps> = ({ clock, isTimeTravelling, onTravel, timeZone, ayanamsha }) => {
+  // The input holds what the user typed; the clock itself keeps running from that instant.
+  const [draft, setDraft] = useState(() => toDateTimeLocalString(clock(), timeZone));
+  const now = clock();
+  const moonNakshatra = getNakshatraAtLongitude(getMoonSiderealLongitude(now, ayanamsha));
+
+  const handleChange = (value: string) => {
+    setDraft(value);
+    const date = parseDateTimeLocalString(value, timeZone);
+    if (date) onTravel(date);
+  };
+
+  const handleReset = () => {
+    onTravel(null);
+    setDraft(toDateTimeLocalString(new Date(), timeZone));
+  };
+
+  return (
+    <details open={isTimeTravelling} className="mt-4 rounded-xl bg-white/5 px-4 py-3 text-left">
+      <summary className="cursor-pointer text-xs text-white/60 uppercase tracking-widest">
+        Time travel{isTimeTravelling && <span className="ml-2 normal-case tracking-normal text-amber-300">active</span>}
+      </summary>
+      <div className="mt-3 flex items-center gap-2">
+        <label htmlFor="virtual-now" className="sr-only">Virtual date and time</label>
+        <input
+          id="virtual-now"
+          type="datetime-local"
+          value={draft}
+          onChange={(e) => handleChange(e.target.value)}
+          className="flex-1 bg-white/10 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-purple-400 [color-scheme:dark]"
+        />
+        <button
+          type="button"
+          onClick={handleReset}
+          disabled={!isTimeTravelling}
+          className="px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-sm text-white transition disabled:opacity-50"
+        >
+          Now
+        </button>
+      </div>
+      <p className="text-xs text-white/50 mt-2">
+        At {formatDateTime(now, timeZone)} the Moon is in{' '}
+        <span className="text-white">{moonNakshatra.name}</span>.
+      </p>
+    </details>
+  );
+};
+
+export default TimeTravelPanel;
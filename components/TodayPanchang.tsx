@@ -0,0 +1,111 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { AyanamshaSystem, LocationSetting, PanchangElement } from '../types';
+import { usePanchang } from '../hooks/usePanchang';
+import type { Clock } from '../hooks/useVirtualClock';
+import { getRiseSetTimes, hasCoordinates } from '../utils/rise-set';
+import { formatDateTime, getCalendarDate, parseIsoDateString, toIsoDateString } from '../utils/time-zone';
+
+interface TodayPanchangProps {
+  location: LocationSetting;
+  ayanamsha: AyanamshaSystem;
+  clock: Clock;
+}
+
+const TIME_ONLY: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit' };
+const DAY_AND_TIME: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' };
+
+const LimbRow: React.FC<{ label: string; elements: PanchangElement[]; timeZone: string; dayStart: Date; dayEnd: Date }> = ({
+  label,
+  elements,
+  timeZone,
+  dayStart,
+  dayEnd,
+}) => {
+  // Show the date as well as the time when a boundary falls outside the selected day.
+  const format = (date: Date) =>
+    formatDateTime(date, timeZone, date < dayStart || date >= dayEnd ? DAY_AND_TIME : TIME_ONLY);
+
+  return (
+    <div className="py-3 border-t border-white/10 first:border-t-0">
+      <dt className="text-xs text-white/50 uppercase tracking-widest mb-1">{label}</dt>
+      {elements.map(element => (
+        <dd key={`${element.number}-${element.start.getTime()}`} className="flex items-baseline justify-between text-sm">
+          <span className="text-white">{element.name}</span>
+          <span className="text-xs text-white/50">
+            {format(element.start)} – {format(element.end)}
+          </span>
+        </dd>
+      ))}
+    </div>
+  );
+};
+
+const TodayPanchang: React.FC<TodayPanchangProps> = ({ location, ayanamsha, clock }) => {
+  const { timeZone } = location;
+  const todayKey = toIsoDateString(getCalendarDate(clock(), timeZone));
+  const [selectedDate, setSelectedDate] = useState(() => getCalendarDate(clock(), timeZone));
+  // Travelling in time moves the selection to the new "today".
+  useEffect(() => {
+    setSelectedDate(getCalendarDate(clock(), timeZone));
+  }, [todayKey]);
+  const panchang = usePanchang(selectedDate, timeZone, ayanamsha);
+  const riseSet = useMemo(
+    () => (hasCoordinates(location) ? getRiseSetTimes(selectedDate, timeZone, location) : null),
+    [selectedDate, timeZone, location],
+  );
+  const formatEvent = (date: Date | null) => (date ? formatDateTime(date, timeZone, TIME_ONLY) : '—');
+  const isToday = toIsoDateString(selectedDate) === todayKey;
+
+  return (
+    <section
+      aria-labelledby="panchang-heading"
+      className="bg-black/20 backdrop-blur-xl border border-white/10 rounded-3xl shadow-2xl shadow-purple-500/10 p-8 text-left"
+    >
+      <header className="flex items-center justify-between mb-4">
+        <h2 id="panchang-heading" className="text-xl font-bold text-white">
+          {isToday ? 'Today' : 'Panchangam'}
+        </h2>
+        <label htmlFor="panchang-date" className="sr-only">Day</label>
+        <input
+          id="panchang-date"
+          type="date"
+          value={toIsoDateString(selectedDate)}
+          onChange={(e) => {
+            const parsed = parseIsoDateString(e.target.value);
+            if (parsed) setSelectedDate(parsed);
+          }}
+          className="bg-white/10 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-purple-400 [color-scheme:dark]"
+        />
+      </header>
+      {!panchang ? (
+        <p className="text-sm text-red-400">Could not calculate the panchangam for this day.</p>
+      ) : (
+        <dl>
+          <div className="py-3">
+            <dt className="text-xs text-white/50 uppercase tracking-widest mb-1">Vara</dt>
+            <dd className="text-sm text-white">
+              {panchang.vara.name} <span className="text-white/50">· lord {panchang.vara.lord}</span>
+            </dd>
+          </div>
+          {riseSet && (
+            <div className="py-3 border-t border-white/10">
+              <dt className="text-xs text-white/50 uppercase tracking-widest mb-1">Sun &amp; Moon</dt>
+              <dd className="grid grid-cols-2 gap-x-4 text-sm">
+                <span className="text-white/70">Sunrise <span className="text-white">{formatEvent(riseSet.sunrise)}</span></span>
+                <span className="text-white/70">Sunset <span className="text-white">{formatEvent(riseSet.sunset)}</span></span>
+                <span className="text-white/70">Moonrise <span className="text-white">{formatEvent(riseSet.moonrise)}</span></span>
+                <span className="text-white/70">Moonset <span className="text-white">{formatEvent(riseSet.moonset)}</span></span>
+              </dd>
+            </div>
+          )}
+          <LimbRow label="Tithi" elements={panchang.tithis} timeZone={timeZone} dayStart={panchang.dayStart} dayEnd={panchang.dayEnd} />
+          <LimbRow label="Nakshatra" elements={panchang.nakshatras} timeZone={timeZone} dayStart={panchang.dayStart} dayEnd={panchang.dayEnd} />
+          <LimbRow label="Yoga" elements={panchang.yogas} timeZone={timeZone} dayStart={panchang.dayStart} dayEnd={panchang.dayEnd} />
+          <LimbRow label="Karana" elements={panchang.karanas} timeZone={timeZone} dayStart={panchang.dayStart} dayEnd={panchang.dayEnd} />
+        </dl>
+      )}
+    </section>
+  );
+};
+
+export default TodayPanchang;
@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import type { MonthReckoning, MoonPace, NakshatraPeriod, PeriodMasa, StarSettings, Tara, TaraQuality } from '../types';
+import { getMoonPace } from '../utils/ephemeris';
+import { formatLunarMonthName } from '../utils/masa';
+import {
+  MONTH_RECKONINGS,
+  addAnnualStar,
+  describeAnnualStar,
+  getMonthName,
+  getStarReasons,
+  removeAnnualStar,
+  toggleOccurrenceStar,
+} from '../utils/stars';
+import { formatDateTime, getTimeZoneAbbreviation } from '../utils/time-zone';
+import TaraBadge from './TaraBadge';
+
+interface UpcomingPeriodsProps {
+  nakshatraNumber: number;
+  nakshatraName: string;
+  ayanamshaName: string;
+  timeZone: string;
+  periods: NakshatraPeriod[];
+  isLoading: boolean;
+  /** The nakshatra's tara relative to the user's birth star, if known. */
+  tara?: Tara | null;
+  /** Occurrences the user has marked as special; these are highlighted. */
+  stars: StarSettings;
+  onStarsChange: (stars: StarSettings) => void;
+}
+
+const SHORT_DATE_TIME: Intl.DateTimeFormatOptions = {
+  weekday: 'short',
+  day: 'numeric',
+  month: 'short',
+  year: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit',
+};
+
+const formatDuration = (period: NakshatraPeriod) => {
+  const totalMinutes = Math.round(period.durationMs / (1000 * 60));
+  return `${Math.floor(totalMinutes / 60)}h ${String(totalMinutes % 60).padStart(2, '0')}m`;
+};
+
+const PACE_STYLES: Record<MoonPace, string> = {
+  fast: 'text-cyan-300',
+  average: 'text-white/50',
+  slow: 'text-amber-300',
+};
+
+const MoonDetails: React.FC<{ period: NakshatraPeriod }> = ({ period }) => {
+  const { speed, latitude, distance } = period.moonAtMidpoint;
+  const pace = getMoonPace(speed);
+  return (
+    <div className="text-xs text-white/40 mt-1" title="The Moon halfway through the period">
+      Moon <span className={PACE_STYLES[pace]}>{pace} {speed.toFixed(2)}°/day</span>
+      {' · '}lat {latitude >= 0 ? '+' : ''}{latitude.toFixed(2)}°
+      {' · '}{Math.round(distance).toLocaleString()} km
+    </div>
+  );
+};
+
+const RECKONING_LABELS: Record<MonthReckoning, string> = {
+  amanta: 'Amanta masa',
+  purnimanta: 'Purnimanta masa',
+  solar: 'Solar month',
+};
+
+const MONTH_NUMBERS = Array.from({ length: 12 }, (_, i) => i + 1);
+
+const selectClassName =
+  'bg-white/10 border border-white/10 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:ring-2 focus:ring-purple-400';
+
+const MasaDetails: React.FC<{ masa: PeriodMasa }> = ({ masa }) => {
+  const amanta = formatLunarMonthName(masa.amanta);
+  const purnimanta = formatLunarMonthName(masa.purnimanta);
+  return (
+    <div className="text-xs text-white/50 mt-1">
+      {amanta === purnimanta ? `${amanta} masa` : `${amanta} (amanta) · ${purnimanta} (purnimanta)`}
+      {' · '}{masa.solar.name} solar month
+    </div>
+  );
+};
+
+/** Stars every occurrence of the nakshatra in a chosen month, year after year. */
+const AnnualStarEditor: React.FC<{ nakshatraNumber: number; nakshatraName: string; stars: StarSettings; onChange: (stars: StarSettings) => void }> = ({
+  nakshatraNumber,
+  nakshatraName,
+  stars,
+  onChange,
+}) => {
+  const [reckoning, setReckoning] = useState<MonthReckoning>('amanta');
+  const [month, setMonth] = useState(1);
+  const [isAdhika, setIsAdhika] = useState(false);
+  const ownStars = stars.annual.filter(star => star.nakshatra === nakshatraNumber);
+
+  return (
+    <details className="mt-4 rounded-xl bg-white/5 px-4 py-3 text-left">
+      <summary className="cursor-pointer text-xs text-white/60 uppercase tracking-widest">Star every year</summary>
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-white/60">
+        <span>{nakshatraName} in</span>
+        <label htmlFor="annual-star-reckoning" className="sr-only">Calendar</label>
+        <select
+          id="annual-star-reckoning"
+          value={reckoning}
+          onChange={(e) => setReckoning(e.target.value as MonthReckoning)}
+          className={selectClassName}
+        >
+          {MONTH_RECKONINGS.map(value => (
+            <option key={value} value={value} className="bg-[#10002b]">{RECKONING_LABELS[value]}</option>
+          ))}
+        </select>
+        {reckoning !== 'solar' && (
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={isAdhika} onChange={(e) => setIsAdhika(e.target.checked)} className="accent-amber-300" />
+            Adhika
+          </label>
+        )}
+        <label htmlFor="annual-star-month" className="sr-only">Month</label>
+        <select id="annual-star-month" value={month} onChange={(e) => setMonth(Number(e.target.value))} className={selectClassName}>
+          {MONTH_NUMBERS.map(value => (
+            <option key={value} value={value} className="bg-[#10002b]">{getMonthName(reckoning, value)}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() =>
+            onChange(addAnnualStar(stars, { nakshatra: nakshatraNumber, reckoning, month, isAdhika: isAdhika && reckoning !== 'solar' }))
+          }
+          className="px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-white transition"
+        >
+          Star
+        </button>
+      </div>
+      {ownStars.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {ownStars.map(star => (
+            <li key={`${star.reckoning}-${star.month}-${star.isAdhika}`} className="flex items-center justify-between gap-2 text-xs text-amber-200">
+              <span>★ {describeAnnualStar(star)}</span>
+              <button
+                type="button"
+                onClick={() => onChange(removeAnnualStar(stars, star))}
+                aria-label={`Remove the star for ${describeAnnualStar(star)}`}
+                className="text-white/40 hover:text-red-300"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </details>
+  );
+};
+
+const TARA_BORDERS: Record<TaraQuality, string> = {
+  favourable: 'border-l-2 border-green-400/60',
+  unfavourable: 'border-l-2 border-red-400/60',
+  mixed: 'border-l-2 border-amber-400/60',
+};
+
+const UpcomingPeriods: React.FC<UpcomingPeriodsProps> = ({
+  nakshatraNumber,
+  nakshatraName,
+  ayanamshaName,
+  timeZone,
+  periods,
+  isLoading,
+  tara,
+  stars,
+  onStarsChange,
+}) => {
+  return (
+    <section aria-labelledby="upcoming-heading" className="px-8 py-6 border-t border-white/10">
+      <h2 id="upcoming-heading" className="text-sm font-semibold text-white/70 uppercase tracking-widest mb-1">
+        Upcoming {nakshatraName} · next 12 months
+      </h2>
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <p className="text-xs text-white/40">Times in {getTimeZoneAbbreviation(new Date(), timeZone)} · {ayanamshaName} ayanamsha</p>
+        {tara && <TaraBadge tara={tara} />}
+      </div>
+      {isLoading ? (
+        <p className="text-sm text-white/50">Calculating forecast...</p>
+      ) : periods.length === 0 ? (
+        <p className="text-sm text-white/50">No periods found.</p>
+      ) : (
+        <ol className="space-y-3 max-h-72 overflow-y-auto pr-1">
+          {periods.map(period => {
+            const reasons = getStarReasons(stars, period);
+            const isStarred = reasons?.isStarred ?? false;
+            return (
+              <li
+                key={period.start.getTime()}
+                className={`rounded-xl px-4 py-3 text-left ${reasons ? 'bg-amber-400/10 ring-1 ring-amber-300/40' : 'bg-white/5'} ${
+                  tara ? TARA_BORDERS[tara.quality] : ''
+                }`}
+              >
+                <div className="flex items-baseline justify-between gap-2">
+                  <span className="text-sm text-white">{formatDateTime(period.start, timeZone, SHORT_DATE_TIME)}</span>
+                  <span className="flex items-baseline gap-2">
+                    <span className="text-xs text-white/40">{formatDuration(period)}</span>
+                    <button
+                      type="button"
+                      aria-pressed={isStarred}
+                      aria-label={isStarred ? 'Remove the star from this occurrence' : 'Star this occurrence'}
+                      onClick={() => onStarsChange(toggleOccurrenceStar(stars, period))}
+                      className={isStarred ? 'text-amber-300' : 'text-white/30 hover:text-amber-200'}
+                    >
+                      {isStarred ? '★' : '☆'}
+                    </button>
+                  </span>
+                </div>
+                <div className="text-xs text-white/50 mt-1">until {formatDateTime(period.end, timeZone, SHORT_DATE_TIME)}</div>
+                {period.masa && <MasaDetails masa={period.masa} />}
+                {reasons && reasons.annual.length > 0 && (
+                  <div className="text-xs text-amber-200 mt-1">★ {reasons.annual.map(describeAnnualStar).join(' · ')}</div>
+                )}
+                <MoonDetails period={period} />
+              </li>
+            );
+          })}
+        </ol>
+      )}
+      <AnnualStarEditor nakshatraNumber={nakshatraNumber} nakshatraName={nakshatraName} stars={stars} onChange={onStarsChange} />
+    </section>
+  );
+};
+
+export default UpcomingPeriods;
@@ -0,0 +1,265 @@
+import React, { useRef, useState } from 'react';
+import type { LunarMonthSystem, NakshatraPeriod, Observance, ObservanceRecurrence, PeriodMasa } from '../types';
+import { usePlanner } from '../hooks/usePlanner';
+import { downloadTextFile } from '../utils/download';
+import { formatLunarMonthName, getMasaName } from '../utils/masa';
+import { getOccurrenceKey } from '../utils/occurrences';
+import { getCompletion, isObservedIn, parseChecklist, selectPlannedOccurrences, toggleChecklistItem } from '../utils/planner';
+import { formatDateTime } from '../utils/time-zone';
+
+interface VratPlannerProps {
+  nakshatraNumber: number;
+  nakshatraName: string;
+  /** Upcoming periods of the nakshatra, in order. */
+  periods: NakshatraPeriod[];
+  timeZone: string;
+}
+
+const OCCURRENCES_SHOWN = 6;
+const EVERY = 0;
+
+const MASA_NUMBERS = Array.from({ length: 12 }, (_, i) => i + 1);
+
+const SHORT_DATE: Intl.DateTimeFormatOptions = { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' };
+
+const inputClassName =
+  'w-full bg-white/10 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-purple-400';
+
+const describeRecurrence = (recurrence: ObservanceRecurrence, nakshatraName: string) =>
+  recurrence.type === 'every'
+    ? `Every ${nakshatraName}`
+    : `${nakshatraName} in ${getMasaName(recurrence.masa)} (${recurrence.system})`;
+
+const describeMasa = (masa: PeriodMasa) => {
+  const amanta = formatLunarMonthName(masa.amanta);
+  const purnimanta = formatLunarMonthName(masa.purnimanta);
+  return amanta === purnimanta ? amanta : `${amanta} amanta · ${purnimanta} purnimanta`;
+};
+
+const VratPlanner: React.FC<VratPlannerProps> = ({ nakshatraNumber, nakshatraName, periods, timeZone }) => {
+  const { observances, completions, isLoading, error, saveObservance, removeObservance, updateCompletion, importJson, exportJson } =
+    usePlanner();
+  const [title, setTitle] = useState('');
+  const [masa, setMasa] = useState(EVERY);
+  const [system, setSystem] = useState<LunarMonthSystem>('amanta');
+  const [notes, setNotes] = useState('');
+  const [checklistText, setChecklistText] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const ownObservances = observances.filter(observance => observance.nakshatra === nakshatraNumber);
+  const occurrences = selectPlannedOccurrences(periods, ownObservances, OCCURRENCES_SHOWN);
+
+  const handleAdd = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!title.trim()) return;
+    saveObservance({
+      id: crypto.randomUUID(),
+      title: title.trim(),
+      notes: notes.trim(),
+      nakshatra: nakshatraNumber,
+      recurrence: masa === EVERY ? { type: 'every' } : { type: 'masa', masa, system },
+      checklist: parseChecklist(checklistText, () => crypto.randomUUID()),
+    });
+    setTitle('');
+    setNotes('');
+    setChecklistText('');
+  };
+
+  const handleExport = () => {
+    downloadTextFile('nakshatra-observances.json', 'application/json', exportJson());
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (observances.length > 0 && !window.confirm('Replace your observances with the ones in this file?')) return;
+    try {
+      await importJson(await file.text());
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Could not import the file');
+    }
+  };
+
+  const renderObservance = (observance: Observance, period: NakshatraPeriod) => {
+    const occurrence = getOccurrenceKey(period);
+    const completion = getCompletion(completions, observance.id, occurrence);
+    const doneId = `done-${observance.id}-${occurrence}`;
+    return (
+      <li key={observance.id} className="rounded-lg bg-white/5 px-3 py-2">
+        <div className="flex items-center gap-2 text-sm text-white">
+          <input
+            id={doneId}
+            type="checkbox"
+            checked={completion.done}
+            onChange={() => updateCompletion({ ...completion, done: !completion.done })}
+            className="accent-purple-400"
+          />
+          <label htmlFor={doneId} className={completion.done ? 'line-through text-white/50' : ''}>
+            {observance.title}
+          </label>
+        </div>
+        {observance.notes && <p className="text-xs text-white/40 mt-1 ml-5 whitespace-pre-line">{observance.notes}</p>}
+        {observance.checklist.length > 0 && (
+          <ul className="mt-1 ml-5 space-y-0.5">
+            {observance.checklist.map(item => {
+              const itemId = `item-${item.id}-${occurrence}`;
+              return (
+                <li key={item.id} className="flex items-center gap-2 text-xs text-white/70">
+                  <input
+                    id={itemId}
+                    type="checkbox"
+                    checked={completion.checkedItems.includes(item.id)}
+                    onChange={() => updateCompletion(toggleChecklistItem(observance, completion, item.id))}
+                    className="accent-purple-400"
+                  />
+                  <label htmlFor={itemId}>{item.text}</label>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <section
+      aria-labelledby="planner-heading"
+      className="bg-black/20 backdrop-blur-xl border border-white/10 rounded-3xl shadow-2xl shadow-purple-500/10 p-8 text-left"
+    >
+      <h2 id="planner-heading" className="text-xl font-bold text-white mb-1">Observances</h2>
+      <p className="text-xs text-white/40 mb-4">Vratas, temple visits and other practices kept on {nakshatraName}.</p>
+      {error && <p className="text-xs text-amber-300 mb-3">{error}</p>}
+
+      {isLoading ? (
+        <p className="text-sm text-white/50">Loading observances...</p>
+      ) : ownObservances.length === 0 ? (
+        <p className="text-sm text-white/50">No observances yet. Add one below to see it on each upcoming {nakshatraName}.</p>
+      ) : occurrences.length === 0 ? (
+        <p className="text-sm text-white/50">Calculating upcoming periods...</p>
+      ) : (
+        <ol className="space-y-4 max-h-96 overflow-y-auto pr-1">
+          {occurrences.map(period => {
+            const due = ownObservances.filter(observance => isObservedIn(observance, period));
+            return (
+              <li key={period.start.getTime()}>
+                <h3 className="text-xs text-white/60 uppercase tracking-widest mb-1">
+                  {formatDateTime(period.start, timeZone, SHORT_DATE)}
+                  {period.masa && ` · ${describeMasa(period.masa)}`}
+                </h3>
+                {due.length === 0 ? (
+                  <p className="text-xs text-white/30">Nothing planned</p>
+                ) : (
+                  <ul className="space-y-2">{due.map(observance => renderObservance(observance, period))}</ul>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      <details className="mt-6 rounded-xl bg-white/5 px-4 py-3">
+        <summary className="cursor-pointer text-xs text-white/60 uppercase tracking-widest">Add an observance</summary>
+        <form onSubmit={handleAdd} className="mt-3 space-y-2">
+          <label htmlFor="observance-title" className="sr-only">Title</label>
+          <input
+            id="observance-title"
+            type="text"
+            required
+            placeholder="e.g. Narasimha puja"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            className={inputClassName}
+          />
+          <label htmlFor="observance-masa" className="sr-only">When</label>
+          <select id="observance-masa" value={masa} onChange={(e) => setMasa(Number(e.target.value))} className={inputClassName}>
+            <option value={EVERY} className="bg-[#10002b]">On every {nakshatraName}</option>
+            {MASA_NUMBERS.map(value => (
+              <option key={value} value={value} className="bg-[#10002b]">On {nakshatraName} in {getMasaName(value)} masa</option>
+            ))}
+          </select>
+          {masa !== EVERY && (
+            <>
+              <label htmlFor="observance-system" className="sr-only">Lunar months</label>
+              <select
+                id="observance-system"
+                value={system}
+                onChange={(e) => setSystem(e.target.value as LunarMonthSystem)}
+                className={inputClassName}
+              >
+                <option value="amanta" className="bg-[#10002b]">Months end at the new moon (amanta)</option>
+                <option value="purnimanta" className="bg-[#10002b]">Months end at the full moon (purnimanta)</option>
+              </select>
+            </>
+          )}
+          <label htmlFor="observance-notes" className="sr-only">Notes</label>
+          <textarea
+            id="observance-notes"
+            rows={2}
+            placeholder="Notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            className={inputClassName}
+          />
+          <label htmlFor="observance-checklist" className="sr-only">Checklist, one item per line</label>
+          <textarea
+            id="observance-checklist"
+            rows={3}
+            placeholder="Checklist, one item per line"
+            value={checklistText}
+            onChange={(e) => setChecklistText(e.target.value)}
+            className={inputClassName}
+          />
+          <button type="submit" className="w-full px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-sm text-white transition">
+            Add
+          </button>
+        </form>
+      </details>
+
+      {ownObservances.length > 0 && (
+        <ul className="mt-4 space-y-1">
+          {ownObservances.map(observance => (
+            <li key={observance.id} className="flex items-center justify-between gap-2 text-xs text-white/60">
+              <span>
+                {observance.title} <span className="text-white/30">· {describeRecurrence(observance.recurrence, nakshatraName)}</span>
+              </span>
+              <button
+                type="button"
+                onClick={() => removeObservance(observance.id)}
+                aria-label={`Delete ${observance.title}`}
+                className="text-white/40 hover:text-red-300"
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-4 flex gap-2">
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={observances.length === 0}
+          className="flex-1 px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-xs text-white transition disabled:opacity-50"
+        >
+          Export JSON
+        </button>
+        <button
+          type="button"
+          onClick={() => fileInput.current?.click()}
+          className="flex-1 px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-xs text-white transition"
+        >
+          Import JSON
+        </button>
+        <input ref={fileInput} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+      </div>
+      {importError && <p className="text-xs text-red-400 mt-2">{importError}</p>}
+    </section>
+  );
+};
+
+export default VratPlanner;
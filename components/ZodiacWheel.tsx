@@ -0,0 +1,197 @@
+import React, { useRef, useState } from 'react';
+import type { AyanamshaSystem } from '../types';
+import { useSkyPositions } from '../hooks/useSkyPositions';
+import type { Clock } from '../hooks/useVirtualClock';
+import { NAKSHATRAS, getNakshatra, getNakshatraAtLongitude } from '../utils/nakshatras';
+import { RASHIS, getRashi, getRashiAtLongitude } from '../utils/rashis';
+import { formatDegrees } from '../utils/janma';
+import { describeRingSegment, getSegmentProgress, longitudeToPoint, unwrapAngle } from '../utils/zodiac-wheel';
+
+interface ZodiacWheelProps {
+  /** The nakshatra highlighted on the wheel. */
+  nakshatraNumber: number;
+  onSelectNakshatra: (nakshatraNumber: number) => void;
+  ayanamsha: AyanamshaSystem;
+  clock: Clock;
+}
+
+type Segment = { kind: 'nakshatra' | 'rashi'; number: number };
+
+const SIZE = 320;
+const CENTRE = SIZE / 2;
+const RASHI_RING = { inner: 138, outer: 158 };
+const NAKSHATRA_RING = { inner: 100, outer: 136 };
+const PROGRESS_RING = { inner: 94, outer: 98 };
+const MOON_RADIUS = 82;
+const SUN_RADIUS = 62;
+
+/**
+ * Keeps a rotation angle continuous between renders so the marker never spins the long way round.
+ */
+const useUnwrappedAngle = (angle: number): number => {
+  const previous = useRef(angle);
+  previous.current = unwrapAngle(previous.current, angle);
+  return previous.current;
+};
+
+/** A body drawn at 0° and rotated to its longitude, so a CSS transition animates its motion. */
+const BodyMarker: React.FC<{ longitude: number; radius: number; size: number; className: string; label: string }> = ({
+  longitude,
+  radius,
+  size,
+  className,
+  label,
+}) => {
+  const rotation = useUnwrappedAngle(longitude);
+  return (
+    <g
+      style={{ transform: `rotate(${-rotation}deg)`, transformOrigin: `${CENTRE}px ${CENTRE}px` }}
+      className="transition-transform duration-1000 ease-linear motion-reduce:transition-none"
+    >
+      <circle cx={CENTRE - radius} cy={CENTRE} r={size} className={className}>
+        <title>{label}</title>
+      </circle>
+    </g>
+  );
+};
+
+const ZodiacWheel: React.FC<ZodiacWheelProps> = ({ nakshatraNumber, onSelectNakshatra, ayanamsha, clock }) => {
+  const { moonLongitude, sunLongitude } = useSkyPositions(ayanamsha, clock);
+  const [selected, setSelected] = useState<Segment | null>(null);
+
+  const highlighted = getNakshatra(nakshatraNumber);
+  const progress = getSegmentProgress(moonLongitude, highlighted.startDegrees, highlighted.endDegrees);
+  const moonNakshatra = getNakshatraAtLongitude(moonLongitude);
+  const moonRashi = getRashiAtLongitude(moonLongitude);
+
+  const segmentProps = (segment: Segment, label: string) => ({
+    role: 'button',
+    tabIndex: 0,
+    'aria-label': label,
+    'aria-pressed': selected?.kind === segment.kind && selected.number === segment.number,
+    onClick: () => setSelected(segment),
+    onKeyDown: (e: React.KeyboardEvent) => {
+      if (e.key === 'Enter' || e.key === ' ') {
+        e.preventDefault();
+        setSelected(segment);
+      }
+    },
+    className: 'cursor-pointer focus:outline-none',
+  });
+
+  const isSelected = (kind: Segment['kind'], number: number) => selected?.kind === kind && selected.number === number;
+
+  const renderDetails = () => {
+    if (!selected) {
+      return <p className="text-xs text-white/40">Select a segment for its details.</p>;
+    }
+    if (selected.kind === 'rashi') {
+      const rashi = getRashi(selected.number);
+      return (
+        <>
+          <p className="text-white">{rashi.number}. {rashi.name}</p>
+          <p className="text-xs text-white/50">
+            {formatDegrees(rashi.startDegrees)} – {formatDegrees(rashi.endDegrees)} · lord {rashi.lord}
+          </p>
+        </>
+      );
+    }
+    const nakshatra = getNakshatra(selected.number);
+    const moonProgress = getSegmentProgress(moonLongitude, nakshatra.startDegrees, nakshatra.endDegrees);
+    return (
+      <>
+        <p className="text-white">{nakshatra.number}. {nakshatra.name}</p>
+        <p className="text-xs text-white/50">
+          {formatDegrees(nakshatra.startDegrees)} – {formatDegrees(nakshatra.endDegrees)} · lord {nakshatra.lord} · deity {nakshatra.deity}
+        </p>
+        {moonProgress !== null && (
+          <p className="text-xs text-purple-300 mt-1">The Moon is {Math.round(moonProgress * 100)}% of the way through.</p>
+        )}
+        {nakshatra.number !== nakshatraNumber && (
+          <button
+            type="button"
+            onClick={() => onSelectNakshatra(nakshatra.number)}
+            className="mt-2 px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-xs text-white transition"
+          >
+            Track {nakshatra.name}
+          </button>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <section
+      aria-labelledby="wheel-heading"
+      className="bg-black/20 backdrop-blur-xl border border-white/10 rounded-3xl shadow-2xl shadow-purple-500/10 p-8 text-left"
+    >
+      <h2 id="wheel-heading" className="text-xl font-bold text-white mb-1">Sidereal Wheel</h2>
+      <p className="text-xs text-white/40 mb-4">
+        Moon in {moonNakshatra.name} ({moonRashi.name}) at {formatDegrees(moonLongitude)} · Sun at {formatDegrees(sunLongitude)}
+      </p>
+      <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full h-auto select-none" role="group" aria-label="Sidereal zodiac wheel">
+        {RASHIS.map(rashi => {
+          const label = longitudeToPoint(CENTRE, CENTRE, (RASHI_RING.inner + RASHI_RING.outer) / 2, rashi.startDegrees + 15);
+          return (
+            <g key={`rashi-${rashi.number}`} {...segmentProps({ kind: 'rashi', number: rashi.number }, `${rashi.name} rashi`)}>
+              <path
+                d={describeRingSegment(CENTRE, CENTRE, RASHI_RING.inner, RASHI_RING.outer, rashi.startDegrees, rashi.endDegrees)}
+                className={`stroke-white/20 ${isSelected('rashi', rashi.number) ? 'fill-cyan-400/40' : 'fill-white/5 hover:fill-white/15'}`}
+              />
+              <text x={label.x} y={label.y} textAnchor="middle" dominantBaseline="central" className="fill-white/70 text-[9px] pointer-events-none">
+                {rashi.name.slice(0, 3)}
+              </text>
+            </g>
+          );
+        })}
+        {NAKSHATRAS.map(nakshatra => {
+          const label = longitudeToPoint(
+            CENTRE,
+            CENTRE,
+            (NAKSHATRA_RING.inner + NAKSHATRA_RING.outer) / 2,
+            (nakshatra.startDegrees + nakshatra.endDegrees) / 2,
+          );
+          const fill = isSelected('nakshatra', nakshatra.number)
+            ? 'fill-cyan-400/40'
+            : nakshatra.number === nakshatraNumber
+              ? 'fill-purple-500/50 hover:fill-purple-500/60'
+              : 'fill-white/5 hover:fill-white/15';
+          return (
+            <g key={`nakshatra-${nakshatra.number}`} {...segmentProps({ kind: 'nakshatra', number: nakshatra.number }, `${nakshatra.name} nakshatra`)}>
+              <path
+                d={describeRingSegment(CENTRE, CENTRE, NAKSHATRA_RING.inner, NAKSHATRA_RING.outer, nakshatra.startDegrees, nakshatra.endDegrees)}
+                className={`stroke-white/20 ${fill}`}
+              />
+              <text x={label.x} y={label.y} textAnchor="middle" dominantBaseline="central" className="fill-white/60 text-[9px] pointer-events-none">
+                {nakshatra.number}
+              </text>
+            </g>
+          );
+        })}
+        {progress !== null && progress > 0 && (
+          <path
+            d={describeRingSegment(
+              CENTRE,
+              CENTRE,
+              PROGRESS_RING.inner,
+              PROGRESS_RING.outer,
+              highlighted.startDegrees,
+              moonLongitude,
+            )}
+            className="fill-purple-300"
+          >
+            <title>{`${Math.round(progress * 100)}% through ${highlighted.name}`}</title>
+          </path>
+        )}
+        <circle cx={CENTRE} cy={CENTRE} r={PROGRESS_RING.inner - 4} className="fill-black/30 stroke-white/10" />
+        <BodyMarker longitude={sunLongitude} radius={SUN_RADIUS} size={7} className="fill-amber-300" label={`Sun ${formatDegrees(sunLongitude)}`} />
+        <BodyMarker longitude={moonLongitude} radius={MOON_RADIUS} size={6} className="fill-slate-100" label={`Moon ${formatDegrees(moonLongitude)}`} />
+      </svg>
+      <div className="mt-4 min-h-[4rem]" aria-live="polite">
+        {renderDetails()}
+      </div>
+    </section>
+  );
+};
+
+export default ZodiacWheel;
@@ -0,0 +1,33 @@
+import { useMemo } from 'react';
+import type { AyanamshaSystem, DayNakshatra, LocationSetting } from '../types';
+import { getDayNakshatras } from '../utils/day-nakshatra';
+import { hasCoordinates } from '../utils/rise-set';
+import { getCalendarDate } from '../utils/time-zone';
+import { systemClock } from './useVirtualClock';
+import type { Clock } from './useVirtualClock';
+
+/**
+ * Lists the sunrise nakshatra for each of `days` local days, starting with the clock's today.
+ * Returns null when the location has no coordinates to compute sunrise from.
+ */
+export const useDayNakshatras = (
+  location: LocationSetting,
+  days: number,
+  ayanamsha: AyanamshaSystem,
+  clock: Clock = systemClock,
+): DayNakshatra[] | null => {
+  const { timeZone, latitude, longitude } = location;
+  const today = getCalendarDate(clock(), timeZone);
+  const todayKey = `${today.year}-${today.month}-${today.day}`;
+
+  return useMemo(() => {
+    const observer = { latitude, longitude };
+    if (!hasCoordinates(observer)) return null;
+    try {
+      return getDayNakshatras(getCalendarDate(clock(), timeZone), days, timeZone, observer, ayanamsha);
+    } catch (error) {
+      console.error("Failed to calculate sunrise nakshatras:", error);
+      return [];
+    }
+  }, [todayKey, timeZone, latitude, longitude, days, ayanamsha]);
+};
@@ -0,0 +1,70 @@
+// @vitest-environment jsdom
+import { createElement } from 'react';
+import { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import type { Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useLiveForecast } from './useLiveForecast';
+import { useReminders } from './useReminders';
+import { useUpcomingPeriods } from './useUpcomingPeriods';
+import { useVirtualClock } from './useVirtualClock';
+import { getNakshatraCalculator } from '../utils/calculator-client';
+import { DEFAULT_REMINDER_SETTINGS } from '../utils/reminders';
+import { scheduleBackgroundReminders } from '../utils/service-worker';
+import { makePeriod } from '../utils/__fixtures__/periods';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Every search finds one period starting a day after its "now".
+const findRange = vi.fn(async (nakshatra: number, from: Date) =>
+  [makePeriod(nakshatra, new Date(from.getTime() + DAY_MS).toISOString(), new Date(from.getTime() + 2 * DAY_MS).toISOString())],
+);
+
+vi.mock('../utils/calculator-client', () => ({
+  getNakshatraCalculator: () => ({ findRange }),
+}));
+
+vi.mock('../utils/service-worker', () => ({
+  scheduleBackgroundReminders: vi.fn(async () => true),
+  markRemindersDelivered: vi.fn(async () => {}),
+}));
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+let travelTo: (date: Date | null) => void = () => {};
+
+// Wired as in the app: the displayed forecast follows the virtual clock, reminders the live one.
+const Harness = () => {
+  const virtual = useVirtualClock();
+  travelTo = virtual.travelTo;
+  useUpcomingPeriods(15, 12, 'lahiri', virtual.clock);
+  const { periods } = useLiveForecast(15, 12, 'lahiri');
+  useReminders(periods, DEFAULT_REMINDER_SETTINGS, 'UTC', true, () => {});
+  return null;
+};
+
+describe('useLiveForecast', () => {
+  let root: Root;
+
+  beforeEach(async () => {
+    findRange.mockClear();
+    vi.mocked(scheduleBackgroundReminders).mockClear();
+    root = createRoot(document.createElement('div'));
+    await act(async () => root.render(createElement(Harness)));
+  });
+
+  afterEach(() => act(() => root.unmount()));
+
+  it('keeps scheduling reminders from the real time while travelling', async () => {
+    const scheduled = vi.mocked(scheduleBackgroundReminders).mock.calls.slice();
+    expect(scheduled.at(-1)?.[0].length).toBeGreaterThan(0);
+
+    const destination = new Date(Date.now() + 400 * DAY_MS);
+    await act(async () => travelTo(destination));
+
+    // The displayed forecast moved...
+    expect(findRange.mock.calls.at(-1)?.[1].getTime()).toBeGreaterThanOrEqual(destination.getTime());
+    // ...but the reminders handed to the service worker did not.
+    expect(vi.mocked(scheduleBackgroundReminders).mock.calls).toEqual(scheduled);
+  });
+});
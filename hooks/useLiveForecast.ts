@@ -0,0 +1,28 @@
+import { useState, useEffect } from 'react';
+import type { AyanamshaSystem } from '../types';
+import { useUpcomingPeriods } from './useUpcomingPeriods';
+import { systemClock } from './useVirtualClock';
+
+const ROLLOVER_CHECK_MS = 60 * 1000;
+
+/**
+ * Lists every period of a nakshatra from the real "now" until `months` months ahead, for reminders
+ * and calendar exports, which must not follow time travel. The forecast is recalculated once its
+ * first period is over.
+ */
+export const useLiveForecast = (nakshatraNumber: number, months: number, ayanamsha: AyanamshaSystem) => {
+  const [refreshKey, setRefreshKey] = useState(0);
+  const forecast = useUpcomingPeriods(nakshatraNumber, months, ayanamsha, systemClock, refreshKey);
+  const firstEnd = forecast.periods[0]?.end.getTime();
+
+  useEffect(() => {
+    if (firstEnd === undefined) return;
+    // Polled rather than timed out, since a period can end further ahead than setTimeout can wait.
+    const timer = setInterval(() => {
+      if (Date.now() >= firstEnd) setRefreshKey(key => key + 1);
+    }, ROLLOVER_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [firstEnd]);
+
+  return forecast;
+};
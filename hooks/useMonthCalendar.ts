@@ -0,0 +1,39 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { AyanamshaSystem, NakshatraPeriod } from '../types';
+import { getNakshatraCalculator } from '../utils/calculator-client';
+import { buildMonthCalendar, getMonthViewRange } from '../utils/month-calendar';
+
+/**
+ * Lays out a month view with the nakshatra bands of each day. The transits for the whole
+ * view are calculated in the background worker in a single range request.
+ */
+export const useMonthCalendar = (year: number, month: number, timeZone: string, ayanamsha: AyanamshaSystem) => {
+  const [transits, setTransits] = useState<NakshatraPeriod[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const { from, to } = getMonthViewRange(year, month, timeZone);
+
+    setIsLoading(true);
+    setError(null);
+    getNakshatraCalculator()
+      .findTransits(from, to, ayanamsha, controller.signal)
+      .then(result => setTransits(result))
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        console.error("Failed to calculate the month's transits:", error);
+        setError(error instanceof Error ? error.message : 'Failed to calculate nakshatra transits');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [year, month, timeZone, ayanamsha]);
+
+  const weeks = useMemo(() => buildMonthCalendar(year, month, timeZone, transits), [year, month, timeZone, transits]);
+
+  return { weeks, isLoading, error };
+};
@@ -0,0 +1,39 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { MuhurtaQuery, TimeInterval } from '../types';
+import { getNakshatraCalculator } from '../utils/calculator-client';
+
+/**
+ * Runs muhurta searches in the background worker. Starting a new search cancels the one in
+ * progress, as does unmounting.
+ */
+export const useMuhurtaSearch = () => {
+  const [windows, setWindows] = useState<TimeInterval[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inFlight = useRef<AbortController | null>(null);
+
+  useEffect(() => () => inFlight.current?.abort(), []);
+
+  const search = useCallback((query: MuhurtaQuery) => {
+    inFlight.current?.abort();
+    const controller = new AbortController();
+    inFlight.current = controller;
+
+    setIsSearching(true);
+    setError(null);
+    getNakshatraCalculator()
+      .findMuhurtas(query, controller.signal)
+      .then(result => setWindows(result))
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        console.error("Failed to search for muhurtas:", error);
+        setWindows(null);
+        setError(error instanceof Error ? error.message : 'Failed to search for muhurtas');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsSearching(false);
+      });
+  }, []);
+
+  return { windows, isSearching, error, search };
+};
@@ -1,75 +1,105 @@
-import { useState, useEffect, useCallback } from 'react';
-import type { NakshatraPeriod, CountdownState } from '../types';
-import { findCurrentOrNextSwathiPeriod } from '../utils/nakshatra-calculator';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { AyanamshaSystem, NakshatraPeriod, CountdownState, PadaPeriod } from '../types';
+import { calculateCountdown } from '../utils/countdown';
+import { getNakshatraCalculator } from '../utils/calculator-client';
+import { SWATHI } from '../utils/nakshatras';
+import { DEFAULT_AYANAMSHA } from '../utils/ayanamsha';
+import { systemClock } from './useVirtualClock';
+import type { Clock } from './useVirtualClock';
 
-const calculateCountdown = (targetDate: Date | null): CountdownState => {
-  if (!targetDate) {
-    return { days: 0, hours: 0, minutes: 0, seconds: 0 };
-  }
-  const difference = targetDate.getTime() - new Date().getTime();
-  
-  if (difference <= 0) {
-    return { days: 0, hours: 0, minutes: 0, seconds: 0 };
-  }
-
-  const days = Math.floor(difference / (1000 * 60 * 60 * 24));
-  const hours = Math.floor((difference / (1000 * 60 * 60)) % 24);
-  const minutes = Math.floor((difference / 1000 / 60) % 60);
-  const seconds = Math.floor((difference / 1000) % 60);
-
-  return { days, hours, minutes, seconds };
-};
-
-export const useNakshatra = () => {
+/**
+ * Tracks the current or next period of a nakshatra and counts down to its next boundary.
+ * While the period is active it also tracks the current pada and counts down to the next pada change.
+ * @param clock Supplies "now"; pass a virtual clock to inspect another moment.
+ */
+export const useNakshatra = (
+  nakshatraNumber: number = SWATHI,
+  ayanamsha: AyanamshaSystem = DEFAULT_AYANAMSHA,
+  clock: Clock = systemClock,
+) => {
   const [activePeriod, setActivePeriod] = useState<NakshatraPeriod | null>(null);
-  const [isSwathiActive, setIsSwathiActive] = useState(false);
+  const [isActive, setIsActive] = useState(false);
   const [countdown, setCountdown] = useState<CountdownState>({ days: 0, hours: 0, minutes: 0, seconds: 0 });
+  const [currentPada, setCurrentPada] = useState<PadaPeriod | null>(null);
+  const [padaCountdown, setPadaCountdown] = useState<CountdownState>({ days: 0, hours: 0, minutes: 0, seconds: 0 });
   const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // The calculation in progress, so a new one can cancel it and the ticker does not start another.
+  const inFlight = useRef<AbortController | null>(null);
 
   const calculateAndSetPeriod = useCallback(async (currentDate: Date) => {
+    inFlight.current?.abort();
+    const controller = new AbortController();
+    inFlight.current = controller;
+
     setIsLoading(true);
+    setError(null);
     try {
-      const period = await findCurrentOrNextSwathiPeriod(currentDate);
-      setActivePeriod(period);
+      const period = await getNakshatraCalculator().findPeriod(nakshatraNumber, currentDate, ayanamsha, controller.signal);
+      if (!controller.signal.aborted) setActivePeriod(period);
     } catch (error) {
-      console.error("Failed to calculate Swathi Nakshatra period:", error);
+      if (controller.signal.aborted) return;
+      console.error("Failed to calculate Nakshatra period:", error);
       // Let the app continue without data instead of getting stuck.
+      setError(error instanceof Error ? error.message : 'Failed to calculate nakshatra period');
     } finally {
-      setIsLoading(false);
+      if (inFlight.current === controller) {
+        inFlight.current = null;
+        setIsLoading(false);
+      }
     }
-  }, []);
+  }, [nakshatraNumber, ayanamsha]);
 
   useEffect(() => {
-    calculateAndSetPeriod(new Date());
-  }, [calculateAndSetPeriod]);
+    calculateAndSetPeriod(clock());
+    return () => {
+      inFlight.current?.abort();
+      inFlight.current = null;
+    };
+  }, [calculateAndSetPeriod, clock]);
 
   useEffect(() => {
-    const timer = setInterval(() => {
-      const now = new Date();
-      
+    const tick = () => {
+      const now = clock();
+
       if (activePeriod) {
-        const isActive = now >= activePeriod.start && now <= activePeriod.end;
-        setIsSwathiActive(isActive);
+        const isInPeriod = now >= activePeriod.start && now < activePeriod.end;
+        setIsActive(isInPeriod);
+
+        const pada = isInPeriod ? activePeriod.padas.find(p => now >= p.start && now < p.end) ?? null : null;
+        setCurrentPada(pada);
 
-        if (isActive) {
-          setCountdown(calculateCountdown(activePeriod.end));
-        } else if (now > activePeriod.end) {
-          // Current period is over, find the next one
-          calculateAndSetPeriod(now);
+        if (isInPeriod) {
+          setCountdown(calculateCountdown(activePeriod.end, now));
+          if (pada) setPadaCountdown(calculateCountdown(pada.end, now));
+        } else if (now >= activePeriod.end) {
+          // Current period is over, find the next one unless that search is already running
+          if (!inFlight.current) calculateAndSetPeriod(now);
         } else {
-          setCountdown(calculateCountdown(activePeriod.start));
+          setCountdown(calculateCountdown(activePeriod.start, now));
         }
       }
-    }, 1000);
+    };
+
+    tick();
+    const timer = setInterval(tick, 1000);
 
     return () => clearInterval(timer);
-  }, [activePeriod, calculateAndSetPeriod]);
+  }, [activePeriod, calculateAndSetPeriod, clock]);
+
+  const recalculate = useCallback(() => calculateAndSetPeriod(clock()), [calculateAndSetPeriod, clock]);
 
-  return { 
-    countdown, 
-    isSwathiActive, 
-    nextSwathiStart: activePeriod ? activePeriod.start : null, 
-    currentSwathiEnd: activePeriod ? activePeriod.end : null,
+  return {
+    activePeriod,
+    countdown,
+    isActive,
+    currentPada,
+    padaCountdown,
+    periodStart: activePeriod ? activePeriod.start : null,
+    periodEnd: activePeriod ? activePeriod.end : null,
     isLoading,
+    error,
+    recalculate,
   };
 };
@@ -0,0 +1,19 @@
+import { useMemo } from 'react';
+import type { AyanamshaSystem, CalendarDate, Panchang } from '../types';
+import { getPanchang } from '../utils/panchang';
+
+/**
+ * Computes the panchangam for a local calendar day. Returns null if the calculation fails.
+ */
+export const usePanchang = (date: CalendarDate, timeZone: string, ayanamsha: AyanamshaSystem): Panchang | null => {
+  const { year, month, day } = date;
+
+  return useMemo(() => {
+    try {
+      return getPanchang({ year, month, day }, timeZone, ayanamsha);
+    } catch (error) {
+      console.error("Failed to calculate panchang:", error);
+      return null;
+    }
+  }, [year, month, day, timeZone, ayanamsha]);
+};
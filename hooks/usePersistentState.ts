@@ -0,0 +1,37 @@
+import { useState, useEffect } from 'react';
+
+const STORAGE_PREFIX = 'swathi-tracker:';
+
+const readStoredValue = <T,>(key: string, defaultValue: T, isValid: (value: unknown) => value is T): T => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_PREFIX + key);
+    if (raw === null) return defaultValue;
+    const parsed: unknown = JSON.parse(raw);
+    return isValid(parsed) ? parsed : defaultValue;
+  } catch {
+    // Storage can be unavailable (private mode) or hold a value from an older version.
+    return defaultValue;
+  }
+};
+
+/**
+ * Like useState, but the value survives reloads via localStorage.
+ * Stored values that fail `isValid` fall back to `defaultValue`.
+ */
+export const usePersistentState = <T,>(
+  key: string,
+  defaultValue: T,
+  isValid: (value: unknown) => value is T,
+) => {
+  const [value, setValue] = useState<T>(() => readStoredValue(key, defaultValue, isValid));
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+    } catch (error) {
+      console.error(`Failed to persist setting "${key}":`, error);
+    }
+  }, [key, value]);
+
+  return [value, setValue] as const;
+};
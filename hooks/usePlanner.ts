@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { Observance, ObservanceCompletion, PlannerData } from '../types';
+import { EMPTY_PLANNER, parsePlannerJson, serializePlanner, upsertCompletion } from '../utils/planner';
+import {
+  deleteObservance,
+  isPlannerStoreAvailable,
+  loadPlanner,
+  replacePlanner,
+  saveCompletion,
+  saveObservance,
+} from '../utils/planner-store';
+
+/**
+ * The observance planner, kept in IndexedDB. Changes show at once and are written in the
+ * background; if storage is unavailable the planner still works for the session.
+ */
+export const usePlanner = () => {
+  const [data, setData] = useState<PlannerData>(EMPTY_PLANNER);
+  const [isLoading, setIsLoading] = useState(isPlannerStoreAvailable());
+  const [error, setError] = useState<string | null>(
+    isPlannerStoreAvailable() ? null : 'Storage is unavailable, so observances will not be kept after you close the app.',
+  );
+
+  useEffect(() => {
+    if (!isPlannerStoreAvailable()) return;
+    let isCurrent = true;
+    loadPlanner()
+      .then(stored => {
+        if (isCurrent) setData(stored);
+      })
+      .catch(error => {
+        console.error("Failed to load the planner:", error);
+        if (isCurrent) setError('Could not load saved observances.');
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, []);
+
+  const persist = useCallback((write: () => Promise<void>) => {
+    if (!isPlannerStoreAvailable()) return;
+    write().catch(error => {
+      console.error("Failed to save the planner:", error);
+      setError('Could not save the latest change.');
+    });
+  }, []);
+
+  const saveObservanceAndPersist = useCallback((observance: Observance) => {
+    setData(current => ({
+      ...current,
+      observances: current.observances.some(candidate => candidate.id === observance.id)
+        ? current.observances.map(candidate => (candidate.id === observance.id ? observance : candidate))
+        : [...current.observances, observance],
+    }));
+    persist(() => saveObservance(observance));
+  }, [persist]);
+
+  const removeObservance = useCallback((observanceId: string) => {
+    setData(current => ({
+      ...current,
+      observances: current.observances.filter(observance => observance.id !== observanceId),
+      completions: current.completions.filter(completion => completion.observanceId !== observanceId),
+    }));
+    persist(() => deleteObservance(observanceId));
+  }, [persist]);
+
+  const updateCompletion = useCallback((completion: ObservanceCompletion) => {
+    setData(current => ({ ...current, completions: upsertCompletion(current.completions, completion) }));
+    persist(() => saveCompletion(completion));
+  }, [persist]);
+
+  /** Replaces the planner with an exported file. Rejects if the file is not a valid export. */
+  const importJson = useCallback(async (text: string) => {
+    const imported = parsePlannerJson(text);
+    setData(imported);
+    setError(null);
+    if (isPlannerStoreAvailable()) await replacePlanner(imported);
+  }, []);
+
+  const exportJson = useCallback(() => serializePlanner(data), [data]);
+
+  return {
+    observances: data.observances,
+    completions: data.completions,
+    isLoading,
+    error,
+    saveObservance: saveObservanceAndPersist,
+    removeObservance,
+    updateCompletion,
+    importJson,
+    exportJson,
+  };
+};
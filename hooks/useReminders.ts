@@ -0,0 +1,62 @@
+import { useEffect, useMemo, useRef } from 'react';
+import type { NakshatraPeriod, ReminderSettings, ScheduledReminder } from '../types';
+import { usePersistentState } from './usePersistentState';
+import {
+  collapseReminders,
+  getDueReminders,
+  isDeliveredReminderLog,
+  planReminders,
+  recordDelivered,
+  toBackgroundReminders,
+} from '../utils/reminders';
+import { markRemindersDelivered, scheduleBackgroundReminders } from '../utils/service-worker';
+
+const CHECK_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Delivers lead-time reminders for a list of periods while the app is open, and hands them
+ * to the service worker so they can still fire once it is closed.
+ * Delivered reminders are remembered in localStorage so reloading the page never repeats one.
+ * @param onDue Called with each reminder to show; only the most imminent reminder per boundary is passed.
+ * @returns The next reminder still to fire, if any.
+ */
+export const useReminders = (
+  periods: NakshatraPeriod[],
+  settings: ReminderSettings,
+  timeZone: string,
+  isEnabled: boolean,
+  onDue: (reminder: ScheduledReminder, now: Date) => void,
+) => {
+  const [delivered, setDelivered] = usePersistentState('delivered-reminders', {}, isDeliveredReminderLog);
+  const reminders = useMemo(() => planReminders(periods, settings), [periods, settings]);
+  const onDueRef = useRef(onDue);
+  onDueRef.current = onDue;
+
+  useEffect(() => {
+    if (!isEnabled) return;
+
+    const check = () => {
+      const now = new Date();
+      const due = getDueReminders(reminders, now, delivered);
+      if (due.length === 0) return;
+      // Record first so a failing notification can't cause a retry loop.
+      setDelivered(recordDelivered(delivered, due, now));
+      markRemindersDelivered(due.map(reminder => reminder.id));
+      collapseReminders(due).forEach(reminder => onDueRef.current(reminder, now));
+    };
+
+    check();
+    const timer = setInterval(check, CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [reminders, delivered, isEnabled, setDelivered]);
+
+  useEffect(() => {
+    if (!isEnabled) return;
+    scheduleBackgroundReminders(toBackgroundReminders(reminders, timeZone, new Date()));
+  }, [reminders, timeZone, isEnabled]);
+
+  const now = new Date();
+  const nextReminder = reminders.find(reminder => reminder.fireAt > now && !(reminder.id in delivered)) ?? null;
+
+  return { nextReminder };
+};
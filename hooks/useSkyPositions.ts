@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import type { AyanamshaSystem } from '../types';
+import { getMoonSiderealLongitude, getSunSiderealLongitude } from '../utils/sidereal';
+import { systemClock } from './useVirtualClock';
+import type { Clock } from './useVirtualClock';
+
+interface SkyPositions {
+  /** The instant the positions were calculated for. */
+  at: Date;
+  moonLongitude: number;
+  sunLongitude: number;
+}
+
+const positionsAt = (at: Date, ayanamsha: AyanamshaSystem): SkyPositions => ({
+  at,
+  moonLongitude: getMoonSiderealLongitude(at, ayanamsha),
+  sunLongitude: getSunSiderealLongitude(at, ayanamsha),
+});
+
+/**
+ * Tracks the sidereal longitudes of the Moon and Sun, refreshed on an interval. The Moon moves
+ * about half a degree an hour, so a refresh every few seconds is plenty for a smooth display.
+ */
+export const useSkyPositions = (ayanamsha: AyanamshaSystem, clock: Clock = systemClock, intervalMs = 5000): SkyPositions => {
+  const [positions, setPositions] = useState(() => positionsAt(clock(), ayanamsha));
+
+  useEffect(() => {
+    const update = () => setPositions(positionsAt(clock(), ayanamsha));
+
+    update();
+    const timer = setInterval(update, intervalMs);
+
+    return () => clearInterval(timer);
+  }, [ayanamsha, clock, intervalMs]);
+
+  return positions;
+};
@@ -0,0 +1,38 @@
+import { useState, useEffect } from 'react';
+import type { AyanamshaSystem, NakshatraPeriod } from '../types';
+import { getNakshatraCalculator } from '../utils/calculator-client';
+import { systemClock } from './useVirtualClock';
+import type { Clock } from './useVirtualClock';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Lists the Moon's transit through each nakshatra from the clock's "now" until `days` days ahead,
+ * calculated in the background worker. Nothing is calculated while `enabled` is false.
+ */
+export const useTransits = (days: number, ayanamsha: AyanamshaSystem, clock: Clock = systemClock, enabled = true) => {
+  const [transits, setTransits] = useState<NakshatraPeriod[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const controller = new AbortController();
+    const from = clock();
+    const to = new Date(from.getTime() + days * DAY_MS);
+
+    setIsLoading(true);
+    getNakshatraCalculator()
+      .findTransits(from, to, ayanamsha, controller.signal)
+      .then(result => setTransits(result))
+      .catch(error => {
+        if (!controller.signal.aborted) console.error("Failed to calculate nakshatra transits:", error);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [days, ayanamsha, clock, enabled]);
+
+  return { transits, isLoading };
+};
@@ -0,0 +1,43 @@
+import { useState, useEffect } from 'react';
+import type { AyanamshaSystem, NakshatraPeriod } from '../types';
+import { getNakshatraCalculator } from '../utils/calculator-client';
+import { systemClock } from './useVirtualClock';
+import type { Clock } from './useVirtualClock';
+
+/**
+ * Lists every period of a nakshatra from the clock's "now" until `months` months ahead, calculated in the
+ * background worker. The forecast is refreshed whenever `refreshKey` changes, e.g. when the
+ * active period rolls over, and a superseded calculation is cancelled.
+ */
+export const useUpcomingPeriods = (
+  nakshatraNumber: number,
+  months: number,
+  ayanamsha: AyanamshaSystem,
+  clock: Clock = systemClock,
+  refreshKey?: unknown,
+) => {
+  const [periods, setPeriods] = useState<NakshatraPeriod[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const from = clock();
+    const to = new Date(from);
+    to.setMonth(to.getMonth() + months);
+
+    setIsLoading(true);
+    getNakshatraCalculator()
+      .findRange(nakshatraNumber, from, to, ayanamsha, controller.signal)
+      .then(result => setPeriods(result))
+      .catch(error => {
+        if (!controller.signal.aborted) console.error("Failed to calculate upcoming periods:", error);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [nakshatraNumber, months, ayanamsha, clock, refreshKey]);
+
+  return { periods, isLoading };
+};
@@ -0,0 +1,26 @@
+import { useCallback, useMemo, useState } from 'react';
+
+/** Supplies the current time; swapped out to view the sky at another moment. */
+export type Clock = () => Date;
+
+export const systemClock: Clock = () => new Date();
+
+/**
+ * A clock that can be moved to a "virtual now" for time travel. Virtual time keeps running
+ * at normal speed from the chosen instant, so countdowns still tick.
+ */
+export const useVirtualClock = () => {
+  const [offsetMs, setOffsetMs] = useState<number | null>(null);
+
+  const clock = useMemo<Clock>(
+    () => (offsetMs === null ? systemClock : () => new Date(Date.now() + offsetMs)),
+    [offsetMs],
+  );
+
+  /** Moves the clock to an instant, or back to the real time when given null. */
+  const travelTo = useCallback((date: Date | null) => {
+    setOffsetMs(date ? date.getTime() - Date.now() : null);
+  }, []);
+
+  return { clock, isTimeTravelling: offsetMs !== null, travelTo };
+};
@@ -2,6 +2,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import './index.css';
+import { registerServiceWorker } from './utils/service-worker';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -14,3 +16,10 @@ root.render(
     <App />
   </React.StrictMode>
 );
+
+// The worker precaches build output, so it only exists in production builds.
+if (import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    registerServiceWorker();
+  });
+}
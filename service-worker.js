@@ -0,0 +1,156 @@
+/**
+ * Service worker for offline use and background reminders.
+ *
+ * The build fills in the list of bundled files and a hash of their contents (see the
+ * service worker plugin in vite.config.ts), so every deploy installs a fresh precache
+ * and drops the old one.
+ */
+
+/** @type {ServiceWorkerGlobalScope} */
+const sw = /** @type {any} */ (self);
+
+const PRECACHE = 'precache-__CACHE_VERSION__';
+// Held the CDN copies of Tailwind and Inter before they were bundled; removed on activation.
+const LEGACY_RUNTIME_CACHE = 'runtime';
+const REMINDER_STORE = 'reminders';
+const REMINDER_STORE_URL = '/__reminders__.json';
+const REMINDER_SYNC_TAG = 'reminders';
+
+/** @type {string[]} */
+const PRECACHE_URLS = __PRECACHE_MANIFEST__;
+
+sw.addEventListener('install', event => {
+    event.waitUntil(caches.open(PRECACHE).then(cache => cache.addAll(PRECACHE_URLS)));
+});
+
+sw.addEventListener('activate', event => {
+    event.waitUntil(
+        caches
+            .keys()
+            .then(keys =>
+                Promise.all(
+                    keys
+                        .filter(key => (key.startsWith('precache-') && key !== PRECACHE) || key === LEGACY_RUNTIME_CACHE)
+                        .map(key => caches.delete(key)),
+                ),
+            )
+            .then(() => sw.clients.claim()),
+    );
+});
+
+sw.addEventListener('fetch', event => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+    const url = new URL(request.url);
+
+    if (url.origin === sw.location.origin) {
+        // Every route is the single-page app, so navigations are answered with the cached shell.
+        const key = request.mode === 'navigate' ? '/index.html' : url.pathname;
+        event.respondWith(caches.match(key, { cacheName: PRECACHE }).then(cached => cached ?? fetch(request)));
+    }
+});
+
+/**
+ * @typedef {import('./types').BackgroundReminder} BackgroundReminder
+ * @typedef {{ reminders: BackgroundReminder[]; delivered: string[] }} ReminderState
+ */
+
+/** @returns {Promise<ReminderState>} */
+const readReminderState = async () => {
+    const cache = await caches.open(REMINDER_STORE);
+    const response = await cache.match(REMINDER_STORE_URL);
+    return response ? response.json() : { reminders: [], delivered: [] };
+};
+
+/** @param {ReminderState} state */
+const writeReminderState = async state => {
+    const cache = await caches.open(REMINDER_STORE);
+    await cache.put(REMINDER_STORE_URL, new Response(JSON.stringify(state), { headers: { 'Content-Type': 'application/json' } }));
+};
+
+const ICON_URL = '/icon.svg';
+
+/**
+ * Notification Triggers let the browser show a notification at a set time even if the
+ * worker is not running. Only some Chromium builds support them.
+ */
+const supportsNotificationTriggers = () => 'showTrigger' in Notification.prototype && 'TimestampTrigger' in sw;
+
+/**
+ * Replaces any previously scheduled trigger notifications with the given reminders.
+ * @param {BackgroundReminder[]} reminders
+ */
+const scheduleTriggeredNotifications = async reminders => {
+    const scheduled = await sw.registration.getNotifications(/** @type {any} */ ({ includeTriggered: true }));
+    scheduled.filter(notification => /** @type {any} */ (notification).showTrigger).forEach(notification => notification.close());
+
+    const now = Date.now();
+    await Promise.all(
+        reminders
+            .filter(reminder => reminder.fireAt > now)
+            .map(reminder =>
+                sw.registration.showNotification(reminder.title, /** @type {any} */ ({
+                    body: reminder.body,
+                    icon: ICON_URL,
+                    tag: reminder.id,
+                    showTrigger: new /** @type {any} */ (sw).TimestampTrigger(reminder.fireAt),
+                })),
+            ),
+    );
+};
+
+/**
+ * Shows every stored reminder that is due and not yet delivered. Used by periodic
+ * background sync, which wakes the worker at the browser's discretion.
+ */
+const deliverDueReminders = async () => {
+    const state = await readReminderState();
+    const now = Date.now();
+    const due = state.reminders.filter(
+        reminder => reminder.fireAt <= now && now < reminder.expiresAt && !state.delivered.includes(reminder.id),
+    );
+    if (due.length === 0) return;
+
+    // Several reminders may have come due while the device slept; only the most recent is worth showing.
+    const latest = due.reduce((a, b) => (b.fireAt > a.fireAt ? b : a));
+    await sw.registration.showNotification(latest.title, { body: latest.body, icon: ICON_URL, tag: latest.id });
+    await writeReminderState({ ...state, delivered: [...state.delivered, ...due.map(reminder => reminder.id)] });
+};
+
+sw.addEventListener('message', event => {
+    const message = event.data;
+    if (message?.type === 'schedule-reminders') {
+        /** @type {BackgroundReminder[]} */
+        const reminders = message.reminders;
+        event.waitUntil(
+            readReminderState().then(async state => {
+                const ids = new Set(reminders.map(reminder => reminder.id));
+                await writeReminderState({ reminders, delivered: state.delivered.filter(id => ids.has(id)) });
+                if (supportsNotificationTriggers()) await scheduleTriggeredNotifications(reminders);
+            }),
+        );
+    } else if (message?.type === 'reminders-delivered') {
+        /** @type {string[]} */
+        const ids = message.ids;
+        event.waitUntil(
+            readReminderState().then(state => writeReminderState({ ...state, delivered: [...new Set([...state.delivered, ...ids])] })),
+        );
+    }
+});
+
+sw.addEventListener('periodicsync', event => {
+    const syncEvent = /** @type {any} */ (event);
+    if (syncEvent.tag === REMINDER_SYNC_TAG && !supportsNotificationTriggers()) {
+        syncEvent.waitUntil(deliverDueReminders());
+    }
+});
+
+sw.addEventListener('notificationclick', event => {
+    event.notification.close();
+    event.waitUntil(
+        sw.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(windows => {
+            const existing = windows[0];
+            return existing ? existing.focus() : sw.clients.openWindow('/');
+        }),
+    );
+});
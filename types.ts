@@ -1,12 +1,382 @@
+export type Graha =
+  | 'Surya'
+  | 'Chandra'
+  | 'Mangala'
+  | 'Budha'
+  | 'Guru'
+  | 'Shukra'
+  | 'Shani'
+  | 'Rahu'
+  | 'Ketu';
+
+export type AyanamshaSystem = 'lahiri' | 'raman' | 'krishnamurti' | 'yukteshwar' | 'fagan-bradley';
+
+export interface Nakshatra {
+  /** 1-based position in the sidereal zodiac (Ashwini = 1, Revati = 27). */
+  number: number;
+  name: string;
+  lord: Graha;
+  deity: string;
+  startDegrees: number;
+  endDegrees: number;
+}
+
+export interface Rashi {
+  /** 1-based position in the sidereal zodiac (Mesha = 1, Meena = 12). */
+  number: number;
+  name: string;
+  lord: Graha;
+  startDegrees: number;
+  endDegrees: number;
+}
+
+export interface PadaPeriod {
+  /** The quarter of the nakshatra, 1-4. */
+  pada: number;
+  /** The navamsa (D9) sign this pada falls in, as a rashi number from 1 (Mesha) to 12 (Meena). */
+  navamsa: number;
+  start: Date;
+  end: Date;
+}
 
 export interface NakshatraPeriod {
+  /** The 1-based number of the nakshatra this period belongs to. */
+  nakshatra: number;
+  start: Date;
+  end: Date;
+  durationMs: number;
+  /** The Moon halfway through the period: its speed explains why some periods run longer. */
+  moonAtMidpoint: LunarState;
+  /** The four padas in order; the first starts with the period and the last ends with it. */
+  padas: PadaPeriod[];
+  /**
+   * The lunar and solar months the period falls in, judged at its midpoint. Transit listings
+   * covering every nakshatra leave it out; see findTransitPeriods.
+   */
+  masa?: PeriodMasa;
+}
+
+export interface LunarPosition {
+  /** Apparent geocentric ecliptic longitude in degrees, referred to the true equinox of date. */
+  longitude: number;
+  /** Geocentric ecliptic latitude in degrees. */
+  latitude: number;
+  /** Distance between the centres of the Earth and Moon in kilometres. */
+  distance: number;
+}
+
+export interface LunarState extends LunarPosition {
+  /** Rate of change of the ecliptic longitude in degrees per day (about 11.8-15.4). */
+  speed: number;
+}
+
+/** How the Moon's speed compares with its mean daily motion. */
+export type MoonPace = 'fast' | 'average' | 'slow';
+
+export interface LocationSetting {
+  label: string;
+  /** IANA time zone used for every displayed date. */
+  timeZone: string;
+  /** Degrees north; needed only for sunrise-based calculations. */
+  latitude?: number;
+  /** Degrees east; needed only for sunrise-based calculations. */
+  longitude?: number;
+}
+
+export interface CalendarDate {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+}
+
+export interface GeoCoordinates {
+  /** Degrees north. */
+  latitude: number;
+  /** Degrees east. */
+  longitude: number;
+}
+
+export interface RiseSetTimes {
+  /** Null when the body does not cross the horizon that day (polar day or night). */
+  sunrise: Date | null;
+  sunset: Date | null;
+  moonrise: Date | null;
+  moonset: Date | null;
+}
+
+export type SunriseStatus = 'sunrise' | 'partial' | 'none';
+
+export interface DayNakshatra {
+  date: CalendarDate;
+  riseSet: RiseSetTimes;
+  /** The nakshatra prevailing at local sunrise (or local midnight if the Sun does not rise). */
+  nakshatra: number;
+  /** Every nakshatra the Moon occupies at some point during the civil day, in order. */
+  nakshatrasDuringDay: number[];
+}
+
+export interface NakshatraBand {
+  nakshatra: number;
+  /** The part of the transit that falls within the day. */
+  start: Date;
+  end: Date;
+  /** Where the band starts and ends as fractions of the day, 0-1. */
+  startFraction: number;
+  endFraction: number;
+}
+
+export interface CalendarDay {
+  date: CalendarDate;
+  /** False for the padding days from the neighbouring months. */
+  isInMonth: boolean;
+  bands: NakshatraBand[];
+}
+
+export interface PanchangElement {
+  /** 1-based position in its cycle (tithi 1-30, nakshatra and yoga 1-27, karana 1-60). */
+  number: number;
+  name: string;
   start: Date;
   end: Date;
 }
 
+export interface Vara {
+  /** 0 = Sunday, matching Date#getDay. */
+  weekday: number;
+  name: string;
+  lord: Graha;
+}
+
+export interface Panchang {
+  date: CalendarDate;
+  timeZone: string;
+  /** Local midnight at the start and end of the day. */
+  dayStart: Date;
+  dayEnd: Date;
+  vara: Vara;
+  tithis: PanchangElement[];
+  nakshatras: PanchangElement[];
+  yogas: PanchangElement[];
+  karanas: PanchangElement[];
+}
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * How lunar months are bounded: amanta months run from new moon to new moon,
+ * purnimanta months from full moon to full moon.
+ */
+export type LunarMonthSystem = 'amanta' | 'purnimanta';
+
+export interface LunarMonth {
+  /** 1 = Chaitra ... 12 = Phalguna. */
+  number: number;
+  name: string;
+  /** True for an intercalary month, in which the Sun enters no new rashi. */
+  isAdhika: boolean;
+  /** The new moons (amanta) or full moons (purnimanta) that open and close the month. */
+  start: Date;
+  end: Date;
+}
+
+/** The time the Sun spends in one sidereal rashi, from one sankranti to the next. */
+export interface SolarMonth {
+  /** The rashi's number, 1 = Mesha. */
+  number: number;
+  /** The rashi's name, which the solar month shares. */
+  name: string;
+  start: Date;
+  end: Date;
+}
+
+export type LunarMonthLabel = Pick<LunarMonth, 'number' | 'name' | 'isAdhika'>;
+
+export interface PeriodMasa {
+  amanta: LunarMonthLabel;
+  purnimanta: LunarMonthLabel;
+  solar: Pick<SolarMonth, 'number' | 'name'>;
+}
+
+/** The calendars a month can be counted in. */
+export type MonthReckoning = LunarMonthSystem | 'solar';
+
+/** Marks every occurrence of a nakshatra in a given month, e.g. Swathi in Vaishakha. */
+export interface AnnualStar {
+  nakshatra: number;
+  reckoning: MonthReckoning;
+  /** The masa (1 = Chaitra) or, for solar months, the rashi (1 = Mesha). */
+  month: number;
+  /** Whether the star is for the adhika month of that name rather than the regular one; always false for solar months. */
+  isAdhika: boolean;
+}
+
+/** Occurrences the user has marked as special, individually or every year. */
+export interface StarSettings {
+  /** Keys of individually starred occurrences, see getOccurrenceKey. */
+  occurrences: string[];
+  annual: AnnualStar[];
+}
+
+export type Paksha = 'shukla' | 'krishna';
+
+/** Something a muhurta search can require, or with `exclude`, rule out. */
+export type MuhurtaCondition =
+  | { type: 'nakshatra'; nakshatras: number[] }
+  | { type: 'tithi'; tithis: number[] }
+  | { type: 'paksha'; paksha: Paksha }
+  /** Civil days of the week in the search's time zone, 0 = Sunday. */
+  | { type: 'weekday'; weekdays: number[] }
+  /** Amanta lunar months, 1 = Chaitra; an adhika month counts as its namesake. */
+  | { type: 'masa'; masas: number[] }
+  | { type: 'rahu-kalam' }
+  | { type: 'yamagandam' };
+
+export interface MuhurtaRule {
+  condition: MuhurtaCondition;
+  /** Look for the times when the condition does not hold. */
+  exclude: boolean;
+}
+
+export interface MuhurtaQuery {
+  /** Every rule must be satisfied at once. */
+  rules: MuhurtaRule[];
+  from: Date;
+  to: Date;
+  /** Windows shorter than this are left out. */
+  minDurationMinutes: number;
+  ayanamsha: AyanamshaSystem;
+  /** Defines the civil days; Rahu Kalam and Yamagandam also need its coordinates. */
+  location: LocationSetting;
+}
+
+export type ObservanceRecurrence =
+  | { type: 'every' }
+  /** Only when the period falls in this masa (1 = Chaitra) of the given reckoning, not in an adhika month of that name. */
+  | { type: 'masa'; masa: number; system: LunarMonthSystem };
+
+export interface ChecklistItem {
+  id: string;
+  text: string;
+}
+
+/** A vrat, temple visit or other practice kept on every occurrence of a nakshatra. */
+export interface Observance {
+  id: string;
+  title: string;
+  notes: string;
+  nakshatra: number;
+  recurrence: ObservanceRecurrence;
+  checklist: ChecklistItem[];
+}
+
+/** Progress on one observance for one occurrence of its nakshatra. */
+export interface ObservanceCompletion {
+  observanceId: string;
+  /** Identifies the occurrence, see getOccurrenceKey. */
+  occurrence: string;
+  done: boolean;
+  /** Ids of the checklist items ticked off. */
+  checkedItems: string[];
+}
+
+/** Everything in the planner, as stored and as exported to JSON. */
+export interface PlannerData {
+  version: 1;
+  observances: Observance[];
+  completions: ObservanceCompletion[];
+}
+
 export interface CountdownState {
   days: number;
   hours: number;
   minutes: number;
   seconds: number;
 }
+
+/** Which boundary of a period a reminder refers to. */
+export type ReminderEdge = 'start' | 'end';
+
+export interface ReminderSettings {
+  /** Lead times in minutes before a period starts; 0 fires as it begins. */
+  beforeStart: number[];
+  /** Lead times in minutes before a period ends; 0 fires as it ends. */
+  beforeEnd: number[];
+}
+
+export interface ScheduledReminder {
+  /** Stable identifier used to avoid delivering the same reminder twice. */
+  id: string;
+  period: NakshatraPeriod;
+  edge: ReminderEdge;
+  leadMinutes: number;
+  /** When the reminder should be shown. */
+  fireAt: Date;
+}
+
+/**
+ * A reminder handed to the service worker. Everything is precomputed and serialisable
+ * because the worker has no access to the calculation code or the user's settings.
+ */
+export interface BackgroundReminder {
+  id: string;
+  title: string;
+  body: string;
+  /** When to show the notification, in ms since the epoch. */
+  fireAt: number;
+  /** After this instant (ms since the epoch) the reminder is no longer worth showing. */
+  expiresAt: number;
+}
+
+/**
+ * Messages the page sends to the calculator worker. Each computation carries an id that
+ * its response echoes and that a later 'cancel' message can refer to.
+ */
+export type CalculatorRequest =
+  | { type: 'compute-period'; id: number; nakshatra: number; from: Date; ayanamsha: AyanamshaSystem }
+  | { type: 'compute-range'; id: number; nakshatra: number; from: Date; to: Date; ayanamsha: AyanamshaSystem }
+  | { type: 'compute-transits'; id: number; from: Date; to: Date; ayanamsha: AyanamshaSystem }
+  | { type: 'compute-muhurta'; id: number; query: MuhurtaQuery }
+  | { type: 'cancel'; id: number };
+
+/** Messages the calculator worker sends back; exactly one per computation. */
+export type CalculatorResponse =
+  | { type: 'period'; id: number; period: NakshatraPeriod }
+  | { type: 'range'; id: number; periods: NakshatraPeriod[] }
+  | { type: 'windows'; id: number; windows: TimeInterval[] }
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id: number; message: string };
+
+/** Birth details as entered in the form: wall-clock date and time in the birth place's time zone. */
+export interface BirthDetails {
+  /** YYYY-MM-DD */
+  date: string;
+  /** HH:mm, 24-hour */
+  time: string;
+  timeZone: string;
+}
+
+export interface JanmaDetails {
+  /** The Moon's sidereal longitude at birth, in degrees. */
+  moonLongitude: number;
+  nakshatra: Nakshatra;
+  /** Quarter of the nakshatra (1-4), each spanning 3°20′. */
+  pada: number;
+  /** How far the Moon had travelled into the nakshatra, in degrees (0 to 13°20′). */
+  degreesInNakshatra: number;
+  rashi: Rashi;
+}
+
+export type TaraQuality = 'favourable' | 'unfavourable' | 'mixed';
+
+/** One of the nine taras: a transit star's place in the cycle counted from the birth star. */
+export interface Tara {
+  /** 1 (Janma) to 9 (Parama Mitra). */
+  number: number;
+  name: string;
+  meaning: string;
+  quality: TaraQuality;
+}
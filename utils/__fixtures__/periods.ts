@@ -0,0 +1,26 @@
+import type { NakshatraPeriod, PeriodMasa } from '../../types';
+
+const CHAITRA: PeriodMasa = {
+    amanta: { number: 1, name: 'Chaitra', isAdhika: false },
+    purnimanta: { number: 1, name: 'Chaitra', isAdhika: false },
+    solar: { number: 1, name: 'Mesha' },
+};
+
+/**
+ * Builds a nakshatra period for tests that only care about its nakshatra and boundaries.
+ * The Moon sits at its mean distance and speed, the padas are left out and the months are
+ * Chaitra and Mesha unless given.
+ */
+export const makePeriod = (nakshatra: number, start: string, end: string, masa: PeriodMasa = CHAITRA): NakshatraPeriod => {
+    const startDate = new Date(start);
+    const endDate = new Date(end);
+    return {
+        nakshatra,
+        start: startDate,
+        end: endDate,
+        durationMs: endDate.getTime() - startDate.getTime(),
+        moonAtMidpoint: { longitude: 0, latitude: 0, distance: 385000, speed: 13.176 },
+        padas: [],
+        masa,
+    };
+};
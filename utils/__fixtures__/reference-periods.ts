@@ -0,0 +1,46 @@
+/**
+ * Reference nakshatra periods used to validate the calculator.
+ *
+ * Times were computed independently of this codebase with Astronomy Engine
+ * (https://github.com/cosinekitty/astronomy), taking the Moon's true ecliptic longitude of date
+ * and the true Chitrapaksha ayanamsha defined by Spica (α Virginis) sitting at exactly 180°.
+ * Lahiri as used in Indian almanacs places Spica about one arc-minute away from 180°, which
+ * shifts boundaries by up to two minutes, so assertions against this table use
+ * REFERENCE_TOLERANCE_MS.
+ */
+
+export const REFERENCE_TOLERANCE_MS = 3 * 60 * 1000;
+
+export interface ReferencePeriod {
+    nakshatra: number;
+    start: string;
+    end: string;
+}
+
+export const SWATHI_REFERENCE_PERIODS: readonly ReferencePeriod[] = [
+    { nakshatra: 15, start: '2001-03-12T13:36:34Z', end: '2001-03-13T12:55:34Z' },
+    { nakshatra: 15, start: '2001-04-08T23:55:08Z', end: '2001-04-09T22:58:01Z' },
+    { nakshatra: 15, start: '2012-06-01T13:38:07Z', end: '2012-06-02T11:05:08Z' },
+    { nakshatra: 15, start: '2012-06-28T21:41:33Z', end: '2012-06-29T19:51:15Z' },
+    { nakshatra: 15, start: '2020-01-17T19:40:58Z', end: '2020-01-18T18:43:54Z' },
+    { nakshatra: 15, start: '2020-02-14T01:56:14Z', end: '2020-02-15T00:29:31Z' },
+    { nakshatra: 15, start: '2025-01-21T18:04:44Z', end: '2025-01-22T21:02:21Z' },
+    { nakshatra: 15, start: '2025-02-18T02:03:56Z', end: '2025-02-19T05:08:09Z' },
+    { nakshatra: 15, start: '2026-09-14T08:22:59Z', end: '2026-09-15T09:48:47Z' },
+    { nakshatra: 15, start: '2026-10-11T17:00:13Z', end: '2026-10-12T18:19:50Z' },
+    { nakshatra: 15, start: '2032-11-02T09:51:02Z', end: '2032-11-03T11:18:59Z' },
+    { nakshatra: 15, start: '2032-11-29T18:10:48Z', end: '2032-11-30T19:33:01Z' },
+];
+
+// Revati (27) hands over to Ashwini (1) as the Moon crosses 0°/360° sidereal.
+export const REVATI_REFERENCE_PERIOD: ReferencePeriod = {
+    nakshatra: 27,
+    start: '2025-01-06T13:34:46Z',
+    end: '2025-01-07T12:18:20Z',
+};
+
+export const ASHWINI_REFERENCE_PERIOD: ReferencePeriod = {
+    nakshatra: 1,
+    start: '2025-01-07T12:18:20Z',
+    end: '2025-01-08T10:57:57Z',
+};
@@ -0,0 +1,133 @@
+import { connect } from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { MAX_RANGE_DAYS, createApiServer, handleApiRequest } from './api';
+import { getPanchang } from './panchang';
+
+vi.mock('./panchang', async importOriginal => {
+    const actual = await importOriginal<typeof import('./panchang')>();
+    return { ...actual, getPanchang: vi.fn(actual.getPanchang) };
+});
+
+const now = new Date('2025-01-22T00:00:00Z');
+
+const get = async (path: string) => {
+    const { status, body } = await handleApiRequest('GET', new URL(path, 'http://localhost'), now);
+    // Round-trip through JSON so dates look as they do on the wire.
+    return { status, body: JSON.parse(JSON.stringify(body)) };
+};
+
+describe('handleApiRequest', () => {
+    it('reports the current nakshatra with its period', async () => {
+        const { status, body } = await get('/api/current');
+
+        expect(status).toBe(200);
+        expect(body.name).toBe('Swathi');
+        expect(body.at).toBe('2025-01-22T00:00:00.000Z');
+        expect(Date.parse(body.period.start)).toBeLessThanOrEqual(now.getTime());
+        expect(Date.parse(body.period.end)).toBeGreaterThan(now.getTime());
+    });
+
+    it('finds the current or next period of the requested nakshatra', async () => {
+        const { status, body } = await get('/api/next?nakshatra=16');
+
+        expect(status).toBe(200);
+        expect(body).toMatchObject({ nakshatra: 16, name: 'Vishakha' });
+        expect(body.start).toMatch(/^2025-01-2\dT\d\d:\d\d:\d\d\.\d{3}Z$/);
+        expect(body.padas).toHaveLength(4);
+        expect(body.durationMs).toBe(Date.parse(body.end) - Date.parse(body.start));
+    });
+
+    it('lists the periods in a range, or every transit with nakshatra=all', async () => {
+        const swathi = await get('/api/range?from=2025-01-01&to=2025-03-01');
+        expect(swathi.status).toBe(200);
+        expect(swathi.body.map((period: { nakshatra: number }) => period.nakshatra)).toEqual([15, 15]);
+
+        const all = await get('/api/range?from=2025-01-01&to=2025-01-08&nakshatra=all');
+        expect(all.body.length).toBeGreaterThanOrEqual(7);
+    });
+
+    it('returns the panchangam of a local day', async () => {
+        const { status, body } = await get('/api/panchang?date=2025-01-22&tz=Asia/Kolkata');
+
+        expect(status).toBe(200);
+        expect(body.date).toEqual({ year: 2025, month: 1, day: 22 });
+        expect(body.dayStart).toBe('2025-01-21T18:30:00.000Z');
+        expect(body.nakshatras.map((element: { name: string }) => element.name)).toContain('Swathi');
+    });
+
+    it('rejects invalid parameters with 400', async () => {
+        for (const path of [
+            '/api/next?nakshatra=30',
+            '/api/next?ayanamsha=none',
+            '/api/range?from=2025-01-01',
+            '/api/range?from=2025-03-01&to=2025-01-01',
+            '/api/range?from=yesterday&to=2025-01-01',
+            '/api/range?from=2025-01-01&to=2027-01-01',
+            '/api/panchang?date=2025-02-30',
+            '/api/panchang?tz=Mars/Olympus_Mons',
+        ]) {
+            const { status, body } = await get(path);
+            expect(status, path).toBe(400);
+            expect(typeof body.error).toBe('string');
+        }
+        expect((await get('/api/range?from=2025-01-01&to=2027-01-01')).body.error).toContain(String(MAX_RANGE_DAYS));
+    });
+
+    it('answers 404 for unknown paths and 405 for other methods', async () => {
+        expect((await get('/api/tomorrow')).status).toBe(404);
+        expect((await handleApiRequest('POST', new URL('http://localhost/api/current'), now)).status).toBe(405);
+    });
+});
+
+describe('createApiServer', () => {
+    const server = createApiServer(() => now);
+    let baseUrl = '';
+
+    beforeAll(async () => {
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    it('serves JSON that any origin may read', async () => {
+        const response = await fetch(`${baseUrl}/api/next?nakshatra=swathi`);
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('content-type')).toBe('application/json; charset=utf-8');
+        expect(response.headers.get('access-control-allow-origin')).toBe('*');
+        expect((await response.json()).name).toBe('Swathi');
+    });
+
+    it('answers an unexpected failure with a 500 that does not leak the error', async () => {
+        vi.mocked(getPanchang).mockImplementationOnce(() => {
+            throw new Error('ephemeris exploded');
+        });
+        const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        const response = await fetch(`${baseUrl}/api/panchang?date=2025-01-22`);
+
+        expect(response.status).toBe(500);
+        expect(await response.json()).toEqual({ error: 'Internal server error' });
+        expect(consoleError).toHaveBeenCalled();
+        consoleError.mockRestore();
+    });
+
+    it('rejects a malformed request target and keeps serving', async () => {
+        const { port } = server.address() as AddressInfo;
+        const reply = await new Promise<string>((resolve, reject) => {
+            let data = '';
+            const socket = connect(port, '127.0.0.1', () => socket.end('GET http://[ HTTP/1.1\r\nHost: x\r\nConnection: close\r\n\r\n'));
+            socket.on('data', chunk => (data += chunk));
+            socket.on('end', () => resolve(data));
+            socket.on('error', reject);
+        });
+
+        expect(reply).toMatch(/^HTTP\/1\.1 400 /);
+        expect(reply).toContain('Malformed request URL');
+        expect((await fetch(`${baseUrl}/api/current`)).status).toBe(200);
+    });
+});
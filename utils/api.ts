@@ -0,0 +1,182 @@
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server } from 'node:http';
+import type { AyanamshaSystem, NakshatraPeriod } from '../types';
+import { UsageError, parseDateArgument, parseNakshatraArgument } from './arguments';
+import { DEFAULT_AYANAMSHA, isAyanamshaSystem } from './ayanamsha';
+import { describeMoonLongitude } from './janma';
+import { findCurrentOrNextNakshatraPeriod, findNakshatraPeriods, findTransitPeriods } from './nakshatra-calculator';
+import { SWATHI, getNakshatra } from './nakshatras';
+import { getPanchang } from './panchang';
+import { getMoonSiderealLongitude } from './sidereal';
+import { getCalendarDate, isValidTimeZone, parseIsoDateString } from './time-zone';
+
+/**
+ * A read-only JSON API over the calculator for other dashboards on the local network.
+ * Every endpoint answers GET with JSON; dates are ISO 8601 strings in UTC.
+ *
+ *   /api/current                   The Moon's nakshatra now, with its period
+ *   /api/next?nakshatra=15         The current or next period of a nakshatra
+ *   /api/range?from=&to=           Periods of a nakshatra (or nakshatra=all) between two dates
+ *   /api/panchang?date=&tz=        The panchangam of a local day
+ *
+ * Every endpoint also takes `ayanamsha`.
+ */
+
+export interface ApiResponse {
+    status: number;
+    body: unknown;
+}
+
+/** The longest span /api/range will calculate, to keep requests cheap. */
+export const MAX_RANGE_DAYS = 400;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Sent for any failure that is not the caller's mistake; the details go to the server log.
+const INTERNAL_ERROR: ApiResponse = { status: 500, body: { error: 'Internal server error' } };
+
+const withName = (period: NakshatraPeriod) => ({ ...period, name: getNakshatra(period.nakshatra).name });
+
+const getAyanamshaParam = (params: URLSearchParams): AyanamshaSystem => {
+    const ayanamsha = params.get('ayanamsha') ?? DEFAULT_AYANAMSHA;
+    if (!isAyanamshaSystem(ayanamsha)) {
+        throw new UsageError(`Unknown ayanamsha: ${ayanamsha}`);
+    }
+    return ayanamsha;
+};
+
+const getRequiredParam = (params: URLSearchParams, name: string): string => {
+    const value = params.get(name);
+    if (value === null || value === '') {
+        throw new UsageError(`Missing query parameter: ${name}`);
+    }
+    return value;
+};
+
+const getCurrent = async (params: URLSearchParams, now: Date) => {
+    const ayanamsha = getAyanamshaParam(params);
+    const moon = describeMoonLongitude(getMoonSiderealLongitude(now, ayanamsha));
+    const period = await findCurrentOrNextNakshatraPeriod(moon.nakshatra.number, now, ayanamsha);
+    return {
+        at: now,
+        moonLongitude: moon.moonLongitude,
+        nakshatra: moon.nakshatra.number,
+        name: moon.nakshatra.name,
+        pada: moon.pada,
+        period: withName(period),
+    };
+};
+
+const getNext = async (params: URLSearchParams, now: Date) => {
+    const ayanamsha = getAyanamshaParam(params);
+    const nakshatra = parseNakshatraArgument(params.get('nakshatra') ?? String(SWATHI));
+    const from = params.has('from') ? parseDateArgument(getRequiredParam(params, 'from'), 'from') : now;
+    return withName(await findCurrentOrNextNakshatraPeriod(nakshatra, from, ayanamsha));
+};
+
+const getRange = async (params: URLSearchParams) => {
+    const ayanamsha = getAyanamshaParam(params);
+    const from = parseDateArgument(getRequiredParam(params, 'from'), 'from');
+    const to = parseDateArgument(getRequiredParam(params, 'to'), 'to');
+    if (to <= from) {
+        throw new UsageError('to must be after from');
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+        throw new UsageError(`The range may span at most ${MAX_RANGE_DAYS} days`);
+    }
+
+    const nakshatraParam = params.get('nakshatra') ?? String(SWATHI);
+    const periods =
+        nakshatraParam === 'all'
+            ? await findTransitPeriods(from, to, ayanamsha)
+            : await findNakshatraPeriods(parseNakshatraArgument(nakshatraParam), from, to, ayanamsha);
+    return periods.map(withName);
+};
+
+const getPanchangForDay = (params: URLSearchParams, now: Date) => {
+    const ayanamsha = getAyanamshaParam(params);
+    const timeZone = params.get('tz') ?? 'UTC';
+    if (!isValidTimeZone(timeZone)) {
+        throw new UsageError(`Unknown time zone: ${timeZone}`);
+    }
+    const dateParam = params.get('date');
+    const date = dateParam === null ? getCalendarDate(now, timeZone) : parseIsoDateString(dateParam);
+    if (!date) {
+        throw new UsageError('date must be a calendar date, e.g. 2025-01-21');
+    }
+    return getPanchang(date, timeZone, ayanamsha);
+};
+
+const ROUTES: Record<string, (params: URLSearchParams, now: Date) => unknown> = {
+    '/api/current': getCurrent,
+    '/api/next': getNext,
+    '/api/range': getRange,
+    '/api/panchang': getPanchangForDay,
+};
+
+/**
+ * Answers one API request. Kept free of sockets so it can be tested directly.
+ * @param method The HTTP method.
+ * @param url The request URL; only the path and query are used.
+ * @param now The current instant.
+ * @returns The status code and the body to send as JSON.
+ */
+export const handleApiRequest = async (method: string, url: URL, now: Date): Promise<ApiResponse> => {
+    const route = ROUTES[url.pathname.replace(/\/+$/, '')];
+    if (!route) {
+        return { status: 404, body: { error: `Not found: ${url.pathname}` } };
+    }
+    if (method !== 'GET' && method !== 'HEAD') {
+        return { status: 405, body: { error: 'Only GET is supported' } };
+    }
+
+    try {
+        return { status: 200, body: await route(url.searchParams, now) };
+    } catch (error) {
+        if (error instanceof UsageError) {
+            return { status: 400, body: { error: error.message } };
+        }
+        console.error('API request failed:', error);
+        return INTERNAL_ERROR;
+    }
+};
+
+/**
+ * Answers a request from the server, rejecting a request target that is not a valid URL.
+ */
+const answerRequest = (request: IncomingMessage, now: Date): Promise<ApiResponse> => {
+    let url: URL;
+    try {
+        url = new URL(request.url ?? '/', 'http://localhost');
+    } catch {
+        return Promise.resolve({ status: 400, body: { error: 'Malformed request URL' } });
+    }
+    return handleApiRequest(request.method ?? 'GET', url, now);
+};
+
+/**
+ * Creates the HTTP server for the API. Responses allow any origin so browser dashboards can call it.
+ * A request that fails unexpectedly is answered with a 500 and the server carries on.
+ * @param clock Supplies "now"; defaults to the system clock.
+ * @returns The server, not yet listening.
+ */
+export const createApiServer = (clock: () => Date = () => new Date()): Server => {
+    return createServer(async (request, response) => {
+        let result: ApiResponse;
+        try {
+            result = await answerRequest(request, clock());
+        } catch (error) {
+            console.error('API request failed:', error);
+            result = INTERNAL_ERROR;
+        }
+        const json = JSON.stringify(result.body);
+
+        response.writeHead(result.status, {
+            'Content-Type': 'application/json; charset=utf-8',
+            'Content-Length': Buffer.byteLength(json),
+            'Access-Control-Allow-Origin': '*',
+            'Cache-Control': 'no-store',
+        });
+        response.end(request.method === 'HEAD' ? undefined : json);
+    });
+};
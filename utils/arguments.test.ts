@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { UsageError, parseDateArgument, parseNakshatraArgument } from './arguments';
+
+describe('parseNakshatraArgument', () => {
+    it('accepts numbers and names in any case', () => {
+        expect(parseNakshatraArgument('15')).toBe(15);
+        expect(parseNakshatraArgument('swathi')).toBe(15);
+        expect(parseNakshatraArgument('purva-phalguni')).toBe(11);
+        expect(parseNakshatraArgument('Purva Phalguni')).toBe(11);
+    });
+
+    it('rejects anything else', () => {
+        expect(() => parseNakshatraArgument('28')).toThrow('Unknown nakshatra: 28');
+        expect(() => parseNakshatraArgument('Pluto')).toThrow('Unknown nakshatra');
+    });
+});
+
+describe('parseDateArgument', () => {
+    it('reads bare dates as midnight UTC and date-times by their offset', () => {
+        expect(parseDateArgument('2025-01-21', 'date').toISOString()).toBe('2025-01-21T00:00:00.000Z');
+        expect(parseDateArgument('2025-01-21T18:00:00Z', 'date').toISOString()).toBe('2025-01-21T18:00:00.000Z');
+        expect(parseDateArgument('2025-01-21T23:30:00+05:30', 'date').toISOString()).toBe('2025-01-21T18:00:00.000Z');
+    });
+
+    it('rejects date-times without an offset and anything that is not a date', () => {
+        expect(() => parseDateArgument('2025-01-21T18:00:00', '--from')).toThrow('--from must be an ISO 8601 date');
+        expect(() => parseDateArgument('2025-01-21T18:00', '--from')).toThrow(UsageError);
+        expect(() => parseDateArgument('soon', '--from')).toThrow(UsageError);
+        expect(() => parseDateArgument('2025-13-01', '--from')).toThrow(UsageError);
+    });
+});
@@ -0,0 +1,44 @@
+import { NAKSHATRAS } from './nakshatras';
+
+/**
+ * Parsing of the arguments shared by the command line tool and the HTTP API.
+ */
+
+/** A mistake in a command line or request, reported to the user rather than as a failure. */
+export class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+/**
+ * Reads a nakshatra given by number or by name (case and spaces ignored).
+ * @param value The argument as typed.
+ * @returns The 1-based nakshatra number.
+ */
+export const parseNakshatraArgument = (value: string): number => {
+    if (/^\d+$/.test(value)) {
+        const number = Number(value);
+        if (number >= 1 && number <= 27) return number;
+    }
+    const key = value.toLowerCase().replace(/[\s-]/g, '');
+    const match = NAKSHATRAS.find(nakshatra => nakshatra.name.toLowerCase().replace(/[\s-]/g, '') === key);
+    if (!match) {
+        throw new UsageError(`Unknown nakshatra: ${value}`);
+    }
+    return match.number;
+};
+
+/**
+ * Reads an ISO 8601 date or date-time; a bare date means midnight UTC. A date-time must carry
+ * Z or an offset, since reading it in the machine's time zone would make the result depend on
+ * where the command runs.
+ */
+export const parseDateArgument = (value: string, name: string): Date => {
+    const date = new Date(value);
+    if (!/^\d{4}-\d{2}-\d{2}(T.*(Z|[+-]\d{2}:?\d{2}))?$/.test(value) || Number.isNaN(date.getTime())) {
+        throw new UsageError(`${name} must be an ISO 8601 date or a date-time with an offset, e.g. 2025-01-21 or 2025-01-21T18:00:00Z`);
+    }
+    return date;
+};
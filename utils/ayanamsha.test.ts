@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { AYANAMSHA_SYSTEMS, getAyanamsha, isAyanamshaSystem } from './ayanamsha';
+
+const J2000 = new Date('2000-01-01T11:58:56Z');
+
+describe('getAyanamsha', () => {
+    it('defaults to Lahiri', () => {
+        const date = new Date('2025-01-01T00:00:00Z');
+        expect(getAyanamsha(date)).toBe(getAyanamsha(date, 'lahiri'));
+    });
+
+    it('returns the mean value at J2000.0 for systems without nutation', () => {
+        expect(getAyanamsha(J2000, 'fagan-bradley')).toBeCloseTo(24.7403, 4);
+        expect(getAyanamsha(J2000, 'raman')).toBeCloseTo(22.410791, 4);
+    });
+
+    it('adds nutation to true Lahiri, staying within 20" of the mean value', () => {
+        const date = new Date('2025-01-01T00:00:00Z');
+        const meanLahiri = getAyanamsha(J2000, 'lahiri') + (getAyanamsha(date, 'raman') - getAyanamsha(J2000, 'raman'));
+        const difference = Math.abs(getAyanamsha(date, 'lahiri') - meanLahiri) * 3600;
+
+        expect(difference).toBeGreaterThan(0);
+        expect(difference).toBeLessThan(20);
+    });
+
+    it('is close to the published Lahiri value of about 24°12\' at the start of 2025', () => {
+        expect(getAyanamsha(new Date('2025-01-01T00:00:00Z'), 'lahiri')).toBeCloseTo(24.2, 1);
+    });
+
+    it('precesses by roughly 50.3" per year', () => {
+        const start = getAyanamsha(new Date('2020-01-01T00:00:00Z'), 'krishnamurti');
+        const end = getAyanamsha(new Date('2030-01-01T00:00:00Z'), 'krishnamurti');
+        expect(((end - start) * 3600) / 10).toBeCloseTo(50.29, 1);
+    });
+
+    it('orders the systems as published: Raman < Yukteshwar < KP < Lahiri < Fagan-Bradley', () => {
+        const date = new Date('2025-01-01T00:00:00Z');
+        const values = ['raman', 'yukteshwar', 'krishnamurti', 'lahiri', 'fagan-bradley'] as const;
+        const ayanamshas = values.map(system => getAyanamsha(date, system));
+        expect([...ayanamshas].sort((a, b) => a - b)).toEqual(ayanamshas);
+    });
+});
+
+describe('isAyanamshaSystem', () => {
+    it('accepts every listed system and rejects anything else', () => {
+        AYANAMSHA_SYSTEMS.forEach(system => expect(isAyanamshaSystem(system.id)).toBe(true));
+        expect(isAyanamshaSystem('tropical')).toBe(false);
+        expect(isAyanamshaSystem(undefined)).toBe(false);
+    });
+});
@@ -0,0 +1,94 @@
+import type { AyanamshaSystem } from '../types';
+import { getJulianCenturiesTT, getNutationInLongitude } from './ephemeris';
+
+export interface AyanamshaDefinition {
+    id: AyanamshaSystem;
+    name: string;
+    description: string;
+    /** Mean ayanamsha at J2000.0 in degrees. */
+    valueAtJ2000: number;
+    /** True ayanamshas follow the nutating equinox rather than the mean one. */
+    includesNutation: boolean;
+}
+
+export const DEFAULT_AYANAMSHA: AyanamshaSystem = 'lahiri';
+
+/**
+ * The supported ayanamsha systems. Values at J2000.0 are the commonly published mean
+ * figures; each is carried forward with the IAU 2006 general precession in longitude.
+ */
+export const AYANAMSHA_SYSTEMS: readonly AyanamshaDefinition[] = [
+    {
+        id: 'lahiri',
+        name: 'Lahiri',
+        description: 'True Chitrapaksha, the Indian national standard, with Spica fixed at 180°',
+        valueAtJ2000: 23.857092,
+        includesNutation: true,
+    },
+    {
+        id: 'raman',
+        name: 'Raman',
+        description: 'B. V. Raman, used in many South Indian almanacs',
+        valueAtJ2000: 22.410791,
+        includesNutation: false,
+    },
+    {
+        id: 'krishnamurti',
+        name: 'Krishnamurti (KP)',
+        description: 'K. S. Krishnamurti, used with the KP system',
+        valueAtJ2000: 23.76024,
+        includesNutation: false,
+    },
+    {
+        id: 'yukteshwar',
+        name: 'Yukteshwar',
+        description: 'Sri Yukteshwar, from "The Holy Science"',
+        valueAtJ2000: 22.478803,
+        includesNutation: false,
+    },
+    {
+        id: 'fagan-bradley',
+        name: 'Fagan-Bradley',
+        description: 'The Western sidereal standard',
+        valueAtJ2000: 24.7403,
+        includesNutation: false,
+    },
+];
+
+/**
+ * Looks up an ayanamsha system by its id.
+ * @param system The id of the system.
+ * @returns The matching definition.
+ */
+export const getAyanamshaDefinition = (system: AyanamshaSystem): AyanamshaDefinition => {
+    const definition = AYANAMSHA_SYSTEMS.find(candidate => candidate.id === system);
+    if (!definition) {
+        throw new RangeError(`Unknown ayanamsha system: ${system}`);
+    }
+    return definition;
+};
+
+/**
+ * Checks whether a string names one of the supported ayanamsha systems.
+ */
+export const isAyanamshaSystem = (value: unknown): value is AyanamshaSystem => {
+    return AYANAMSHA_SYSTEMS.some(candidate => candidate.id === value);
+};
+
+/**
+ * Calculates the ayanamsha, the difference between the Tropical (seasonal) and Sidereal (fixed star)
+ * zodiacs, for a given date and system.
+ * @param date The date for which to calculate the Ayanamsha.
+ * @param system The ayanamsha system to use.
+ * @returns The Ayanamsha value in degrees.
+ */
+export const getAyanamsha = (date: Date, system: AyanamshaSystem = DEFAULT_AYANAMSHA): number => {
+    const definition = getAyanamshaDefinition(system);
+    const T = getJulianCenturiesTT(date);
+
+    // General precession in longitude (IAU 2006), in arcseconds.
+    const precession = 5028.796195 * T + 1.1054348 * T ** 2 + 0.00007964 * T ** 3;
+    const meanAyanamsha = definition.valueAtJ2000 + precession / 3600;
+
+    return definition.includesNutation ? meanAyanamsha + getNutationInLongitude(date) : meanAyanamsha;
+};
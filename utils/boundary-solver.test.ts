@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { findCurrentOrNextArc, findNextCrossing } from './boundary-solver';
+import type { AngularMotion } from './boundary-solver';
+
+// One degree a day, starting at 0° five seconds before the epoch.
+const steady: AngularMotion = {
+    angleAt: (date: Date) => ((date.getTime() + 5000) / 86400000) % 360,
+    minDailyMotion: 0.9,
+    maxDailyMotion: 1.1,
+};
+
+describe('findNextCrossing', () => {
+    it('never reports a crossing before the angle reaches the target', () => {
+        // The crossing falls 0.4 ms into a millisecond before 1970, where a Date truncates
+        // towards zero; rounding to the nearest millisecond would land before the crossing.
+        const target = (5000 - 1000.4) / 86400000;
+        const crossing = findNextCrossing(steady, target, new Date(-5000), 0.01);
+
+        expect(crossing.getTime()).toBe(-1000);
+        expect(steady.angleAt(crossing)).toBeGreaterThanOrEqual(target);
+    });
+});
+
+describe('findCurrentOrNextArc', () => {
+    it('finds the next arc when searching from the end of the previous one', () => {
+        const first = findCurrentOrNextArc(steady, 0, 10, new Date(-5000));
+        const second = findCurrentOrNextArc(steady, 10, 20, first.end);
+
+        expect(second.start.getTime()).toBe(first.end.getTime());
+        expect(second.end.getTime()).toBeGreaterThan(second.start.getTime());
+    });
+});
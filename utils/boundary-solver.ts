@@ -0,0 +1,161 @@
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Boundaries are resolved to the second.
+const DEFAULT_TOLERANCE_MS = 1000;
+
+/**
+ * Describes an angle that only ever increases with time (modulo 360°), such as the
+ * Moon's sidereal longitude or the Moon-Sun elongation.
+ * The speed bounds let the solver bracket a crossing without stepping through time.
+ */
+export interface AngularMotion {
+    /** The angle in degrees (0-360) at the given instant. */
+    angleAt: (date: Date) => number;
+    /** A lower bound on how fast the angle advances, in degrees per day. */
+    minDailyMotion: number;
+    /** An upper bound on how fast the angle advances, in degrees per day. */
+    maxDailyMotion: number;
+}
+
+export interface ArcInterval {
+    start: Date;
+    end: Date;
+}
+
+/**
+ * The Moon's geocentric motion ranges between roughly 11.8° and 15.4° per day;
+ * the bounds are widened slightly so the bracket is always valid.
+ */
+export const MOON_DAILY_MOTION = { minDailyMotion: 11.5, maxDailyMotion: 15.5 } as const;
+
+/**
+ * Normalizes an angle to the range [0, 360).
+ * @param degrees Any angle in degrees.
+ * @returns The equivalent angle between 0 (inclusive) and 360 (exclusive).
+ */
+export const normalizeDegrees = (degrees: number): number => {
+    const normalized = degrees % 360;
+    return normalized < 0 ? normalized + 360 : normalized;
+};
+
+/**
+ * The signed difference `angle - target`, wrapped to (-180, 180].
+ * Negative values mean the angle has not yet reached the target.
+ */
+const signedDifference = (angle: number, target: number): number => {
+    const difference = normalizeDegrees(angle - target);
+    return difference > 180 ? difference - 360 : difference;
+};
+
+/**
+ * Bisects a bracket where the angle is before the target at `lo` and at or past it at `hi`.
+ * Each step halves the bracket, so a week-long bracket resolves to the second in about 20 evaluations.
+ * @returns The earliest instant known to be at or past the target.
+ */
+const bisect = (motion: AngularMotion, target: number, lo: number, hi: number, toleranceMs: number): Date => {
+    const isPast = (time: number) => signedDifference(motion.angleAt(new Date(time)), target) >= 0;
+
+    // Guard against speed bounds that were too tight for this stretch of the orbit.
+    const widenBy = (hi - lo) || MS_PER_DAY;
+    while (isPast(lo)) {
+        lo -= widenBy;
+    }
+    while (!isPast(hi)) {
+        hi += widenBy;
+    }
+
+    while (hi - lo > toleranceMs) {
+        const mid = lo + (hi - lo) / 2;
+        if (isPast(mid)) {
+            hi = mid;
+        } else {
+            lo = mid;
+        }
+    }
+
+    // Round up: rounding down could land a fraction of a millisecond before the crossing (a Date
+    // truncates towards zero, so before 1970 `hi` itself may be), and a search continuing from
+    // the boundary would then find the arc that has just ended.
+    return new Date(Math.ceil(hi));
+};
+
+/**
+ * Finds the first instant at or after `after` when the angle reaches `target`.
+ * @param motion The angle to follow.
+ * @param target The boundary angle in degrees.
+ * @param after The instant from which to search.
+ * @param toleranceMs The precision of the result in milliseconds.
+ * @returns The instant of the crossing.
+ */
+export const findNextCrossing = (
+    motion: AngularMotion,
+    target: number,
+    after: Date,
+    toleranceMs: number = DEFAULT_TOLERANCE_MS,
+): Date => {
+    const distance = normalizeDegrees(target - motion.angleAt(after));
+    if (distance === 0) {
+        return new Date(after);
+    }
+    const lo = after.getTime() + (distance / motion.maxDailyMotion) * MS_PER_DAY;
+    const hi = after.getTime() + (distance / motion.minDailyMotion) * MS_PER_DAY;
+    return bisect(motion, target, Math.max(lo - toleranceMs, after.getTime()), hi, toleranceMs);
+};
+
+/**
+ * Finds the last instant at or before `before` when the angle reached `target`.
+ * @param motion The angle to follow.
+ * @param target The boundary angle in degrees.
+ * @param before The instant from which to search backwards.
+ * @param toleranceMs The precision of the result in milliseconds.
+ * @returns The instant of the crossing.
+ */
+export const findPreviousCrossing = (
+    motion: AngularMotion,
+    target: number,
+    before: Date,
+    toleranceMs: number = DEFAULT_TOLERANCE_MS,
+): Date => {
+    const distance = normalizeDegrees(motion.angleAt(before) - target);
+    if (distance === 0) {
+        return new Date(before);
+    }
+    const lo = before.getTime() - (distance / motion.minDailyMotion) * MS_PER_DAY;
+    const hi = before.getTime() - (distance / motion.maxDailyMotion) * MS_PER_DAY;
+    return bisect(motion, target, lo, Math.min(hi + toleranceMs, before.getTime()), toleranceMs);
+};
+
+/**
+ * Checks whether an angle lies on the arc running forwards from `startDegrees` to `endDegrees`.
+ * Arcs may wrap through 0°/360°.
+ */
+export const isOnArc = (angle: number, startDegrees: number, endDegrees: number): boolean => {
+    const arcLength = normalizeDegrees(endDegrees - startDegrees) || 360;
+    return normalizeDegrees(angle - startDegrees) < arcLength;
+};
+
+/**
+ * Finds the interval during which the angle lies on the arc [startDegrees, endDegrees),
+ * either the one in progress at `date` or the next one to begin.
+ * @param motion The angle to follow.
+ * @param startDegrees The angle at which the arc begins.
+ * @param endDegrees The angle at which the arc ends.
+ * @param date The reference instant.
+ * @returns The start (inclusive) and end (exclusive) of the interval.
+ */
+export const findCurrentOrNextArc = (
+    motion: AngularMotion,
+    startDegrees: number,
+    endDegrees: number,
+    date: Date,
+): ArcInterval => {
+    if (isOnArc(motion.angleAt(date), startDegrees, endDegrees)) {
+        return {
+            start: findPreviousCrossing(motion, startDegrees, date),
+            end: findNextCrossing(motion, endDegrees, date),
+        };
+    }
+
+    const start = findNextCrossing(motion, startDegrees, date);
+    return { start, end: findNextCrossing(motion, endDegrees, start) };
+};
@@ -0,0 +1,118 @@
+import type { AyanamshaSystem, CalculatorRequest, CalculatorResponse, MuhurtaQuery, NakshatraPeriod, TimeInterval } from '../types';
+import { findMuhurtaWindows } from './muhurta';
+import { findCurrentOrNextNakshatraPeriod, findNakshatraPeriods, findTransitPeriods } from './nakshatra-calculator';
+
+/**
+ * Period calculations that may run off the main thread.
+ */
+export interface NakshatraCalculator {
+    /** Finds the current or next period of a nakshatra; see findCurrentOrNextNakshatraPeriod. */
+    findPeriod(nakshatra: number, from: Date, ayanamsha: AyanamshaSystem, signal?: AbortSignal): Promise<NakshatraPeriod>;
+    /** Finds every period of a nakshatra overlapping a range; see findNakshatraPeriods. */
+    findRange(nakshatra: number, from: Date, to: Date, ayanamsha: AyanamshaSystem, signal?: AbortSignal): Promise<NakshatraPeriod[]>;
+    /** Lists the Moon's consecutive nakshatra transits over a range; see findTransitPeriods. */
+    findTransits(from: Date, to: Date, ayanamsha: AyanamshaSystem, signal?: AbortSignal): Promise<NakshatraPeriod[]>;
+    /** Finds the windows that satisfy every rule of a query; see findMuhurtaWindows. */
+    findMuhurtas(query: MuhurtaQuery, signal?: AbortSignal): Promise<TimeInterval[]>;
+}
+
+/**
+ * Runs the calculations on the calling thread, for environments without workers.
+ */
+const mainThreadCalculator: NakshatraCalculator = {
+    findPeriod: async (nakshatra, from, ayanamsha, signal) => {
+        signal?.throwIfAborted();
+        return findCurrentOrNextNakshatraPeriod(nakshatra, from, ayanamsha);
+    },
+    findRange: (nakshatra, from, to, ayanamsha, signal) => findNakshatraPeriods(nakshatra, from, to, ayanamsha, signal),
+    findTransits: (from, to, ayanamsha, signal) => findTransitPeriods(from, to, ayanamsha, signal),
+    findMuhurtas: (query, signal) => findMuhurtaWindows(query, signal),
+};
+
+interface PendingRequest {
+    resolve: (response: CalculatorResponse) => void;
+    reject: (reason: unknown) => void;
+}
+
+/**
+ * Wraps a calculator worker in promises. Aborting a signal sends a 'cancel' message and
+ * rejects immediately with the signal's reason; the worker's late reply is ignored.
+ * If the worker itself fails, pending requests are rejected and later ones run on the main thread.
+ */
+const createWorkerCalculator = (worker: Worker): NakshatraCalculator => {
+    const pending = new Map<number, PendingRequest>();
+    let nextId = 1;
+    let isBroken = false;
+
+    worker.addEventListener('message', (event: MessageEvent<CalculatorResponse>) => {
+        const request = pending.get(event.data.id);
+        pending.delete(event.data.id);
+        request?.resolve(event.data);
+    });
+
+    worker.addEventListener('error', event => {
+        console.error("Calculator worker failed; calculating on the main thread instead:", event.message);
+        isBroken = true;
+        pending.forEach(request => request.reject(new Error('Calculator worker failed')));
+        pending.clear();
+        worker.terminate();
+    });
+
+    const send = (buildRequest: (id: number) => CalculatorRequest, signal?: AbortSignal) => {
+        return new Promise<CalculatorResponse>((resolve, reject) => {
+            signal?.throwIfAborted();
+            const id = nextId++;
+            pending.set(id, { resolve, reject });
+            signal?.addEventListener('abort', () => {
+                if (!pending.delete(id)) return;
+                worker.postMessage({ type: 'cancel', id } satisfies CalculatorRequest);
+                reject(signal.reason);
+            }, { once: true });
+            worker.postMessage(buildRequest(id));
+        });
+    };
+
+    const unwrap = <T>(response: CalculatorResponse, pick: (response: CalculatorResponse) => T | undefined): T => {
+        if (response.type === 'error') throw new Error(response.message);
+        const value = pick(response);
+        if (value === undefined) throw new Error(`Unexpected calculator response: ${response.type}`);
+        return value;
+    };
+
+    return {
+        findPeriod: async (nakshatra, from, ayanamsha, signal) => {
+            if (isBroken) return mainThreadCalculator.findPeriod(nakshatra, from, ayanamsha, signal);
+            const response = await send(id => ({ type: 'compute-period', id, nakshatra, from, ayanamsha }), signal);
+            return unwrap(response, r => (r.type === 'period' ? r.period : undefined));
+        },
+        findRange: async (nakshatra, from, to, ayanamsha, signal) => {
+            if (isBroken) return mainThreadCalculator.findRange(nakshatra, from, to, ayanamsha, signal);
+            const response = await send(id => ({ type: 'compute-range', id, nakshatra, from, to, ayanamsha }), signal);
+            return unwrap(response, r => (r.type === 'range' ? r.periods : undefined));
+        },
+        findTransits: async (from, to, ayanamsha, signal) => {
+            if (isBroken) return mainThreadCalculator.findTransits(from, to, ayanamsha, signal);
+            const response = await send(id => ({ type: 'compute-transits', id, from, to, ayanamsha }), signal);
+            return unwrap(response, r => (r.type === 'range' ? r.periods : undefined));
+        },
+        findMuhurtas: async (query, signal) => {
+            if (isBroken) return mainThreadCalculator.findMuhurtas(query, signal);
+            const response = await send(id => ({ type: 'compute-muhurta', id, query }), signal);
+            return unwrap(response, r => (r.type === 'windows' ? r.windows : undefined));
+        },
+    };
+};
+
+let sharedCalculator: NakshatraCalculator | null = null;
+
+/**
+ * The app-wide calculator: a shared Web Worker where available, otherwise the main thread.
+ */
+export const getNakshatraCalculator = (): NakshatraCalculator => {
+    if (!sharedCalculator) {
+        sharedCalculator = typeof Worker === 'undefined'
+            ? mainThreadCalculator
+            : createWorkerCalculator(new Worker(new URL('./calculator.worker.ts', import.meta.url), { type: 'module' }));
+    }
+    return sharedCalculator;
+};
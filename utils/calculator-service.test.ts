@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { CalculatorResponse, MuhurtaQuery } from '../types';
+import { createCalculatorHandler } from './calculator-service';
+import { findMuhurtaWindows } from './muhurta';
+import { findCurrentOrNextNakshatraPeriod, findNakshatraPeriods } from './nakshatra-calculator';
+
+const from = new Date('2025-01-01T00:00:00Z');
+
+const createHarness = () => {
+    const responses: CalculatorResponse[] = [];
+    const handle = createCalculatorHandler(response => responses.push(response));
+    return { responses, handle };
+};
+
+describe('createCalculatorHandler', () => {
+    it('answers compute-period with the same period as the calculator', async () => {
+        const { responses, handle } = createHarness();
+        await handle({ type: 'compute-period', id: 1, nakshatra: 15, from, ayanamsha: 'lahiri' });
+
+        expect(responses).toEqual([{ type: 'period', id: 1, period: await findCurrentOrNextNakshatraPeriod(15, from, 'lahiri') }]);
+    });
+
+    it('answers compute-range with every period in the range', async () => {
+        const { responses, handle } = createHarness();
+        const to = new Date('2025-04-01T00:00:00Z');
+        await handle({ type: 'compute-range', id: 2, nakshatra: 15, from, to, ayanamsha: 'raman' });
+
+        expect(responses).toEqual([{ type: 'range', id: 2, periods: await findNakshatraPeriods(15, from, to, 'raman') }]);
+    });
+
+    it('answers compute-muhurta with the windows found', async () => {
+        const { responses, handle } = createHarness();
+        const query: MuhurtaQuery = {
+            rules: [{ condition: { type: 'nakshatra', nakshatras: [15] }, exclude: false }],
+            from,
+            to: new Date('2025-03-01T00:00:00Z'),
+            minDurationMinutes: 0,
+            ayanamsha: 'lahiri',
+            location: { label: 'UTC', timeZone: 'UTC' },
+        };
+        await handle({ type: 'compute-muhurta', id: 5, query });
+
+        expect(responses).toEqual([{ type: 'windows', id: 5, windows: await findMuhurtaWindows(query) }]);
+    });
+
+    it('stops a range computation when cancelled', async () => {
+        const { responses, handle } = createHarness();
+        const running = handle({
+            type: 'compute-range',
+            id: 3,
+            nakshatra: 15,
+            from,
+            to: new Date('2035-01-01T00:00:00Z'),
+            ayanamsha: 'lahiri',
+        });
+        await handle({ type: 'cancel', id: 3 });
+        await running;
+
+        expect(responses).toEqual([{ type: 'cancelled', id: 3 }]);
+    });
+
+    it('ignores cancellation of unknown requests', async () => {
+        const { responses, handle } = createHarness();
+        await handle({ type: 'cancel', id: 99 });
+        expect(responses).toEqual([]);
+    });
+
+    it('reports calculation errors with the request id', async () => {
+        const { responses, handle } = createHarness();
+        await handle({ type: 'compute-period', id: 4, nakshatra: 28, from, ayanamsha: 'lahiri' });
+
+        expect(responses).toEqual([{ type: 'error', id: 4, message: 'Nakshatra number must be between 1 and 27, got 28' }]);
+    });
+});
@@ -0,0 +1,53 @@
+import type { CalculatorRequest, CalculatorResponse } from '../types';
+import { findMuhurtaWindows } from './muhurta';
+import { findCurrentOrNextNakshatraPeriod, findNakshatraPeriods, findTransitPeriods } from './nakshatra-calculator';
+
+/**
+ * Creates the request handler run inside the calculator worker. It is kept apart from the
+ * worker entry point so the protocol can be exercised without a worker.
+ * @param respond Sends a response back to the page.
+ * @returns A function that handles one request; it resolves once the response is sent.
+ */
+export const createCalculatorHandler = (respond: (response: CalculatorResponse) => void) => {
+    const inFlight = new Map<number, AbortController>();
+
+    return async (request: CalculatorRequest): Promise<void> => {
+        if (request.type === 'cancel') {
+            inFlight.get(request.id)?.abort();
+            return;
+        }
+
+        const controller = new AbortController();
+        inFlight.set(request.id, controller);
+        try {
+            if (request.type === 'compute-period') {
+                const period = await findCurrentOrNextNakshatraPeriod(request.nakshatra, request.from, request.ayanamsha);
+                controller.signal.throwIfAborted();
+                respond({ type: 'period', id: request.id, period });
+            } else if (request.type === 'compute-range') {
+                const periods = await findNakshatraPeriods(
+                    request.nakshatra,
+                    request.from,
+                    request.to,
+                    request.ayanamsha,
+                    controller.signal,
+                );
+                respond({ type: 'range', id: request.id, periods });
+            } else if (request.type === 'compute-muhurta') {
+                const windows = await findMuhurtaWindows(request.query, controller.signal);
+                respond({ type: 'windows', id: request.id, windows });
+            } else {
+                const periods = await findTransitPeriods(request.from, request.to, request.ayanamsha, controller.signal);
+                respond({ type: 'range', id: request.id, periods });
+            }
+        } catch (error) {
+            if (controller.signal.aborted) {
+                respond({ type: 'cancelled', id: request.id });
+            } else {
+                respond({ type: 'error', id: request.id, message: error instanceof Error ? error.message : String(error) });
+            }
+        } finally {
+            inFlight.delete(request.id);
+        }
+    };
+};
@@ -0,0 +1,11 @@
+import type { CalculatorRequest } from '../types';
+import { createCalculatorHandler } from './calculator-service';
+
+/**
+ * Entry point of the calculator worker; see calculator-client.ts for the page side.
+ */
+const handleRequest = createCalculatorHandler(response => self.postMessage(response));
+
+self.addEventListener('message', (event: MessageEvent<CalculatorRequest>) => {
+    handleRequest(event.data);
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { USAGE, runCli } from './cli';
+import { REFERENCE_TOLERANCE_MS, SWATHI_REFERENCE_PERIODS } from './__fixtures__/reference-periods';
+
+const run = async (args: string[], now = new Date('2025-01-01T00:00:00Z')) => {
+    let stdout = '';
+    let stderr = '';
+    const exitCode = await runCli(args, {
+        now,
+        write: text => (stdout += text),
+        writeError: text => (stderr += text),
+    });
+    return { exitCode, stdout, stderr };
+};
+
+const RANGE = ['range', '--from', '2025-01-01', '--to', '2025-03-01'];
+
+describe('runCli', () => {
+    it('prints the next period as JSON', async () => {
+        const { exitCode, stdout } = await run(['next', '--format', 'json']);
+        const [period] = JSON.parse(stdout);
+
+        expect(exitCode).toBe(0);
+        expect(period.name).toBe('Swathi');
+        expect(Math.abs(Date.parse(period.start) - Date.parse(SWATHI_REFERENCE_PERIODS[6].start))).toBeLessThanOrEqual(
+            REFERENCE_TOLERANCE_MS,
+        );
+        expect(period.padas).toHaveLength(4);
+    });
+
+    it('labels the next period as current when it is under way', async () => {
+        const { stdout } = await run(['next', '--tz', 'UTC'], new Date('2025-01-22T00:00:00Z'));
+        expect(stdout).toMatch(/^Now: Swathi /);
+    });
+
+    it('exports a range as JSON, CSV or iCalendar', async () => {
+        const json = JSON.parse((await run([...RANGE, '--format', 'json'])).stdout);
+        expect(json.map((period: { nakshatra: number }) => period.nakshatra)).toEqual([15, 15]);
+
+        const csv = (await run([...RANGE, '--format', 'csv'])).stdout.trimEnd().split('\n');
+        expect(csv[0]).toBe('nakshatra,name,start,end,duration_minutes,moon_speed_deg_per_day,amanta_masa,purnimanta_masa,solar_month');
+        expect(csv).toHaveLength(3);
+        expect(csv[1]).toMatch(/^15,Swathi,2025-01-21T18:0\d:\d\d\.\d{3}Z,2025-01-22T21:0\d:\d\d\.\d{3}Z,\d+,\d+\.\d{3},Pausha,Magha,Makara$/);
+
+        const ics = (await run([...RANGE, '--format', 'ics'])).stdout;
+        expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+        expect(ics).toContain('DTSTAMP:20250101T000000Z');
+    });
+
+    it('lists every transit with --all', async () => {
+        const { stdout } = await run(['range', '--from', '2025-01-01', '--to', '2025-01-08', '--all', '-f', 'json']);
+        const numbers = JSON.parse(stdout).map((period: { nakshatra: number }) => period.nakshatra);
+
+        expect(numbers.length).toBeGreaterThanOrEqual(7);
+        numbers.slice(1).forEach((number: number, i: number) => expect(number).toBe((numbers[i] % 27) + 1));
+    });
+
+    it('describes the Moon at an instant', async () => {
+        const { exitCode, stdout } = await run(['at', '2025-01-22T00:00:00Z', '--format', 'json']);
+        const result = JSON.parse(stdout);
+
+        expect(exitCode).toBe(0);
+        expect(result.name).toBe('Swathi');
+        expect(result.rashi).toBe(7);
+        expect(Date.parse(result.period.start)).toBeLessThanOrEqual(Date.parse('2025-01-22T00:00:00Z'));
+        expect(Date.parse(result.period.end)).toBeGreaterThan(Date.parse('2025-01-22T00:00:00Z'));
+    });
+
+    it('prints the usage for help or no command', async () => {
+        expect((await run([])).stdout).toBe(USAGE);
+        expect((await run(['--help'])).stdout).toBe(USAGE);
+    });
+
+    it('exits with 2 and the usage for mistakes on the command line', async () => {
+        for (const args of [
+            ['tomorrow'],
+            ['range', '--from', '2025-01-01'],
+            ['range', '--from', 'soon', '--to', '2025-03-01'],
+            ['next', '--bogus'],
+            ['next', '--format', 'xml'],
+            ['next', '--ayanamsha', 'none'],
+            ['at'],
+        ]) {
+            const { exitCode, stderr } = await run(args);
+            expect(exitCode).toBe(2);
+            expect(stderr).toMatch(/^nakshatra: /);
+            expect(stderr).toContain('Usage: nakshatra');
+        }
+    });
+});
@@ -0,0 +1,271 @@
+import { parseArgs } from 'node:util';
+import type { AyanamshaSystem, NakshatraPeriod } from '../types';
+import { UsageError, parseDateArgument, parseNakshatraArgument } from './arguments';
+import { DEFAULT_AYANAMSHA, getAyanamshaDefinition, isAyanamshaSystem } from './ayanamsha';
+import { buildIcsCalendar } from './ics';
+import { describeMoonLongitude, formatDegrees } from './janma';
+import { formatLunarMonthName } from './masa';
+import { findCurrentOrNextNakshatraPeriod, findNakshatraPeriods, findTransitPeriods } from './nakshatra-calculator';
+import { SWATHI, getNakshatra } from './nakshatras';
+import { getRashi } from './rashis';
+import { getMoonSiderealLongitude } from './sidereal';
+import { formatDateTime, getBrowserTimeZone, isValidTimeZone } from './time-zone';
+
+/**
+ * The `nakshatra` command line tool, kept apart from its Node entry point so it can be run
+ * against a fixed clock and captured output.
+ */
+
+export interface CliIo {
+    now: Date;
+    write: (text: string) => void;
+    writeError: (text: string) => void;
+}
+
+export type OutputFormat = 'text' | 'json' | 'csv' | 'ics';
+
+export const USAGE = `Usage: nakshatra <command> [options]
+
+Commands:
+  next                   The current or next period of a nakshatra
+  range --from --to      Every period of a nakshatra between two instants
+  at <iso-date>          The nakshatra, pada and rashi of the Moon at an instant
+
+Options:
+  -n, --nakshatra <n>    Nakshatra number (1-27) or name; defaults to Swathi
+      --all              With range: list every nakshatra transit instead
+  -a, --ayanamsha <id>   Ayanamsha system; defaults to ${DEFAULT_AYANAMSHA}
+      --tz <zone>        IANA time zone for text output; defaults to the system zone
+  -f, --format <format>  text, json, csv or ics (range only); defaults to text
+  -h, --help             Show this help
+
+Dates are ISO 8601. A bare date means midnight UTC; a date-time needs Z or an offset,
+e.g. 2025-01-21T18:00:00Z or 2025-01-21T23:30:00+05:30.
+`;
+
+const OUTPUT_FORMATS: readonly OutputFormat[] = ['text', 'json', 'csv', 'ics'];
+
+const csvField = (value: string | number) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Writes periods as CSV with UTC ISO 8601 times, one row per period.
+ */
+export const formatPeriodsAsCsv = (periods: NakshatraPeriod[]): string => {
+    const header = [
+        'nakshatra',
+        'name',
+        'start',
+        'end',
+        'duration_minutes',
+        'moon_speed_deg_per_day',
+        'amanta_masa',
+        'purnimanta_masa',
+        'solar_month',
+    ];
+    const rows = periods.map(period => [
+        period.nakshatra,
+        getNakshatra(period.nakshatra).name,
+        period.start.toISOString(),
+        period.end.toISOString(),
+        Math.round(period.durationMs / 60000),
+        period.moonAtMidpoint.speed.toFixed(3),
+        period.masa ? formatLunarMonthName(period.masa.amanta) : '',
+        period.masa ? formatLunarMonthName(period.masa.purnimanta) : '',
+        period.masa?.solar.name ?? '',
+    ]);
+    return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+};
+
+/**
+ * Writes periods as a JSON array, adding each nakshatra's name; dates become ISO 8601 strings.
+ */
+export const formatPeriodsAsJson = (periods: NakshatraPeriod[]): string => {
+    const withNames = periods.map(period => ({ ...period, name: getNakshatra(period.nakshatra).name }));
+    return JSON.stringify(withNames, null, 2) + '\n';
+};
+
+const formatDuration = (ms: number) => {
+    const totalMinutes = Math.round(ms / 60000);
+    return `${Math.floor(totalMinutes / 60)}h ${String(totalMinutes % 60).padStart(2, '0')}m`;
+};
+
+const formatPeriodAsText = (period: NakshatraPeriod, timeZone: string) => {
+    const { name } = getNakshatra(period.nakshatra);
+    const details = [formatDuration(period.durationMs)];
+    if (period.masa) details.push(formatLunarMonthName(period.masa.amanta));
+    return (
+        `${name}  ${formatDateTime(period.start, timeZone)} → ${formatDateTime(period.end, timeZone)}` +
+        `  (${details.join(', ')})`
+    );
+};
+
+const parseCommandLine = (args: string[]) => {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            nakshatra: { type: 'string', short: 'n' },
+            all: { type: 'boolean', default: false },
+            ayanamsha: { type: 'string', short: 'a' },
+            tz: { type: 'string' },
+            format: { type: 'string', short: 'f', default: 'text' },
+            from: { type: 'string' },
+            to: { type: 'string' },
+            help: { type: 'boolean', short: 'h', default: false },
+        },
+    });
+
+    const ayanamsha = values.ayanamsha ?? DEFAULT_AYANAMSHA;
+    if (!isAyanamshaSystem(ayanamsha)) {
+        throw new UsageError(`Unknown ayanamsha: ${ayanamsha}`);
+    }
+    const timeZone = values.tz ?? getBrowserTimeZone();
+    if (!isValidTimeZone(timeZone)) {
+        throw new UsageError(`Unknown time zone: ${timeZone}`);
+    }
+    const format = values.format as OutputFormat;
+    if (!OUTPUT_FORMATS.includes(format)) {
+        throw new UsageError(`Unknown format: ${values.format}`);
+    }
+
+    return {
+        command: positionals[0],
+        positionals: positionals.slice(1),
+        nakshatra: values.nakshatra === undefined ? SWATHI : parseNakshatraArgument(values.nakshatra),
+        all: values.all,
+        ayanamsha: ayanamsha as AyanamshaSystem,
+        timeZone,
+        format,
+        from: values.from,
+        to: values.to,
+        help: values.help,
+    };
+};
+
+type ParsedCommandLine = ReturnType<typeof parseCommandLine>;
+
+const runNext = async (options: ParsedCommandLine, io: CliIo) => {
+    const period = await findCurrentOrNextNakshatraPeriod(options.nakshatra, io.now, options.ayanamsha);
+
+    if (options.format === 'json') {
+        io.write(formatPeriodsAsJson([period]));
+    } else if (options.format === 'csv') {
+        io.write(formatPeriodsAsCsv([period]));
+    } else if (options.format === 'ics') {
+        throw new UsageError('The ics format is only available for range');
+    } else {
+        const isActive = io.now >= period.start;
+        io.write(`${isActive ? 'Now' : 'Next'}: ${formatPeriodAsText(period, options.timeZone)}\n`);
+    }
+};
+
+const runRange = async (options: ParsedCommandLine, io: CliIo) => {
+    if (!options.from || !options.to) {
+        throw new UsageError('range needs both --from and --to');
+    }
+    const from = parseDateArgument(options.from, '--from');
+    const to = parseDateArgument(options.to, '--to');
+    if (to <= from) {
+        throw new UsageError('--to must be after --from');
+    }
+
+    const periods = options.all
+        ? await findTransitPeriods(from, to, options.ayanamsha)
+        : await findNakshatraPeriods(options.nakshatra, from, to, options.ayanamsha);
+
+    if (options.format === 'json') {
+        io.write(formatPeriodsAsJson(periods));
+    } else if (options.format === 'csv') {
+        io.write(formatPeriodsAsCsv(periods));
+    } else if (options.format === 'ics') {
+        io.write(buildIcsCalendar(periods, { ayanamshaName: getAyanamshaDefinition(options.ayanamsha).name, generatedAt: io.now }));
+    } else {
+        io.write(periods.map(period => formatPeriodAsText(period, options.timeZone)).join('\n') + '\n');
+    }
+};
+
+const runAt = async (options: ParsedCommandLine, io: CliIo) => {
+    if (options.positionals.length !== 1) {
+        throw new UsageError('at needs exactly one ISO 8601 date');
+    }
+    const instant = parseDateArgument(options.positionals[0], 'The date');
+    const janma = describeMoonLongitude(getMoonSiderealLongitude(instant, options.ayanamsha));
+    // Searching from the instant itself returns the period that contains it.
+    const period = await findCurrentOrNextNakshatraPeriod(janma.nakshatra.number, instant, options.ayanamsha);
+    const navamsa = period.padas[janma.pada - 1]?.navamsa;
+
+    if (options.format === 'csv' || options.format === 'ics') {
+        throw new UsageError(`The ${options.format} format is not available for at`);
+    }
+    if (options.format === 'json') {
+        io.write(
+            JSON.stringify(
+                {
+                    instant,
+                    moonLongitude: janma.moonLongitude,
+                    nakshatra: janma.nakshatra.number,
+                    name: janma.nakshatra.name,
+                    pada: janma.pada,
+                    navamsa,
+                    rashi: janma.rashi.number,
+                    period,
+                },
+                null,
+                2,
+            ) + '\n',
+        );
+        return;
+    }
+
+    io.write(
+        [
+            `Moon at ${formatDegrees(janma.moonLongitude)} sidereal`,
+            `Nakshatra ${janma.nakshatra.name} (${janma.nakshatra.number}), pada ${janma.pada}` +
+                (navamsa ? `, navamsa ${getRashi(navamsa).name}` : ''),
+            `Rashi ${janma.rashi.name}`,
+            `Period ${formatPeriodAsText(period, options.timeZone)}`,
+        ].join('\n') + '\n',
+    );
+};
+
+/**
+ * Runs the command line tool.
+ * @param args The arguments after the program name.
+ * @param io The clock and output streams to use.
+ * @returns The process exit code: 0 on success, 1 on failure and 2 for a usage mistake.
+ */
+export const runCli = async (args: string[], io: CliIo): Promise<number> => {
+    try {
+        const options = parseCommandLine(args);
+        if (options.help || options.command === undefined || options.command === 'help') {
+            io.write(USAGE);
+            return 0;
+        }
+
+        switch (options.command) {
+            case 'next':
+                await runNext(options, io);
+                return 0;
+            case 'range':
+                await runRange(options, io);
+                return 0;
+            case 'at':
+                await runAt(options, io);
+                return 0;
+            default:
+                throw new UsageError(`Unknown command: ${options.command}`);
+        }
+    } catch (error) {
+        // parseArgs reports unknown or malformed options with a TypeError carrying this code.
+        const isUsageError = error instanceof UsageError || (error as { code?: string } | null)?.code?.startsWith('ERR_PARSE_ARGS');
+        io.writeError(`nakshatra: ${error instanceof Error ? error.message : String(error)}\n`);
+        if (isUsageError) {
+            io.writeError(`\n${USAGE}`);
+            return 2;
+        }
+        return 1;
+    }
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCountdown } from './countdown';
+
+const now = new Date('2025-01-01T00:00:00Z');
+
+describe('calculateCountdown', () => {
+    it('splits the remaining time into units', () => {
+        const target = new Date(now.getTime() + ((2 * 24 + 3) * 60 * 60 + 4 * 60 + 5) * 1000);
+        expect(calculateCountdown(target, now)).toEqual({ days: 2, hours: 3, minutes: 4, seconds: 5 });
+    });
+
+    it('rounds partial seconds down', () => {
+        expect(calculateCountdown(new Date(now.getTime() + 1999), now)).toEqual({ days: 0, hours: 0, minutes: 0, seconds: 1 });
+    });
+
+    it('returns zeros once the target has passed', () => {
+        const zero = { days: 0, hours: 0, minutes: 0, seconds: 0 };
+        expect(calculateCountdown(now, now)).toEqual(zero);
+        expect(calculateCountdown(new Date(now.getTime() - 60000), now)).toEqual(zero);
+    });
+
+    it('returns zeros without a target', () => {
+        expect(calculateCountdown(null, now)).toEqual({ days: 0, hours: 0, minutes: 0, seconds: 0 });
+    });
+});
@@ -0,0 +1,25 @@
+import type { CountdownState } from '../types';
+
+/**
+ * Splits the time remaining until a target date into days, hours, minutes and seconds.
+ * @param targetDate The instant being counted down to.
+ * @param now The current instant; defaults to the system clock.
+ * @returns The remaining time, or all zeros once the target has passed.
+ */
+export const calculateCountdown = (targetDate: Date | null, now: Date = new Date()): CountdownState => {
+    if (!targetDate) {
+        return { days: 0, hours: 0, minutes: 0, seconds: 0 };
+    }
+    const difference = targetDate.getTime() - now.getTime();
+
+    if (difference <= 0) {
+        return { days: 0, hours: 0, minutes: 0, seconds: 0 };
+    }
+
+    const days = Math.floor(difference / (1000 * 60 * 60 * 24));
+    const hours = Math.floor((difference / (1000 * 60 * 60)) % 24);
+    const minutes = Math.floor((difference / 1000 / 60) % 60);
+    const seconds = Math.floor((difference / 1000) % 60);
+
+    return { days, hours, minutes, seconds };
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { getDayNakshatras, getSunriseStatus } from './day-nakshatra';
+import { findCurrentOrNextSwathiPeriod } from './nakshatra-calculator';
+import { getCalendarDate } from './time-zone';
+
+const CHENNAI = { latitude: 13.0827, longitude: 80.2707 };
+
+describe('getDayNakshatras', () => {
+    it('flags the Swathi sunrise day and the partial day around one period', async () => {
+        // Swathi runs from about 23:36 IST on 21 January 2025 to 02:34 IST on 23 January.
+        const period = await findCurrentOrNextSwathiPeriod(new Date('2025-01-20T00:00:00Z'));
+        const firstDay = getCalendarDate(period.start, 'Asia/Kolkata');
+        const days = getDayNakshatras(firstDay, 3, 'Asia/Kolkata', CHENNAI);
+
+        expect(days.map(day => day.date.day)).toEqual([21, 22, 23]);
+        expect(days.map(day => getSunriseStatus(day, 15))).toEqual(['partial', 'sunrise', 'partial']);
+        expect(days[1].nakshatra).toBe(15);
+        expect(days[1].riseSet.sunrise).not.toBeNull();
+    });
+
+    it('lists nakshatras touching the day in zodiacal order', () => {
+        const [day] = getDayNakshatras({ year: 2025, month: 1, day: 21 }, 1, 'Asia/Kolkata', CHENNAI);
+        expect(day.nakshatrasDuringDay).toEqual([14, 15]);
+        expect(day.nakshatra).toBe(14);
+    });
+});
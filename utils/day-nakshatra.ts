@@ -0,0 +1,61 @@
+import type { AyanamshaSystem, CalendarDate, DayNakshatra, GeoCoordinates, SunriseStatus } from '../types';
+import { DEFAULT_AYANAMSHA } from './ayanamsha';
+import { getNakshatraAtLongitude } from './nakshatras';
+import { findNakshatras } from './panchang';
+import { getRiseSetTimes } from './rise-set';
+import { getMoonSiderealLongitude } from './sidereal';
+import { addDays, getDayBounds } from './time-zone';
+
+/**
+ * Determines the nakshatra of a civil day the traditional way: the one prevailing at local sunrise.
+ * @param date The local calendar day.
+ * @param timeZone The IANA time zone that defines the day.
+ * @param observer The observer's latitude and longitude.
+ * @param ayanamsha The ayanamsha system to use.
+ * @returns The sunrise nakshatra along with every nakshatra touching the day.
+ */
+export const getDayNakshatra = (
+    date: CalendarDate,
+    timeZone: string,
+    observer: GeoCoordinates,
+    ayanamsha: AyanamshaSystem = DEFAULT_AYANAMSHA,
+): DayNakshatra => {
+    const { start, end } = getDayBounds(date, timeZone);
+    const riseSet = getRiseSetTimes(date, timeZone, observer);
+    const referenceInstant = riseSet.sunrise ?? start;
+
+    return {
+        date,
+        riseSet,
+        nakshatra: getNakshatraAtLongitude(getMoonSiderealLongitude(referenceInstant, ayanamsha)).number,
+        nakshatrasDuringDay: findNakshatras(start, end, ayanamsha).map(element => element.number),
+    };
+};
+
+/**
+ * Lists the sunrise nakshatra for a run of consecutive days.
+ * @param from The first local calendar day.
+ * @param days How many days to include.
+ * @param timeZone The IANA time zone that defines the days.
+ * @param observer The observer's latitude and longitude.
+ * @param ayanamsha The ayanamsha system to use.
+ * @returns One entry per day, in order.
+ */
+export const getDayNakshatras = (
+    from: CalendarDate,
+    days: number,
+    timeZone: string,
+    observer: GeoCoordinates,
+    ayanamsha: AyanamshaSystem = DEFAULT_AYANAMSHA,
+): DayNakshatra[] => {
+    return Array.from({ length: days }, (_, offset) => getDayNakshatra(addDays(from, offset), timeZone, observer, ayanamsha));
+};
+
+/**
+ * Classifies a day relative to a nakshatra: 'sunrise' if it is the day's nakshatra,
+ * 'partial' if it is only active for part of the day, otherwise 'none'.
+ */
+export const getSunriseStatus = (day: DayNakshatra, nakshatraNumber: number): SunriseStatus => {
+    if (day.nakshatra === nakshatraNumber) return 'sunrise';
+    return day.nakshatrasDuringDay.includes(nakshatraNumber) ? 'partial' : 'none';
+};
@@ -0,0 +1,18 @@
+// Browsers fetch a download's blob after click() returns, some only once the save dialog
+// has been answered, so the URL is kept alive well beyond that.
+const REVOKE_DELAY_MS = 30 * 1000;
+
+/**
+ * Offers text to the user as a file download.
+ * @param fileName The suggested name of the file.
+ * @param type The MIME type, e.g. "application/json".
+ * @param text The contents of the file.
+ */
+export const downloadTextFile = (fileName: string, type: string, text: string): void => {
+    const url = URL.createObjectURL(new Blob([text], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import {
+    MEAN_LUNAR_DAILY_MOTION,
+    getDeltaT,
+    getMoonPace,
+    getMoonPosition,
+    getMoonState,
+    getNutationInLongitude,
+    getSunLongitude,
+} from './ephemeris';
+
+describe('getMoonPosition', () => {
+    // Meeus, "Astronomical Algorithms", example 47.a: 1992 April 12, 0h TD.
+    it('reproduces the worked example from Astronomical Algorithms', () => {
+        const td = new Date('1992-04-12T00:00:00Z');
+        const ut = new Date(td.getTime() - getDeltaT(td) * 1000);
+        const position = getMoonPosition(ut);
+
+        // The example's apparent longitude includes Δψ = +0.004610°.
+        expect(position.longitude).toBeCloseTo(133.167265, 3);
+        expect(position.latitude).toBeCloseTo(-3.229126, 5);
+        expect(position.distance).toBeCloseTo(368409.7, 0);
+    });
+});
+
+describe('getMoonState', () => {
+    it('adds a speed that matches the change in longitude over the following hours', () => {
+        const date = new Date('2025-01-21T18:00:00Z');
+        const state = getMoonState(date);
+        const sixHoursLater = getMoonPosition(new Date(date.getTime() + 6 * 60 * 60 * 1000)).longitude;
+
+        expect(state.longitude).toBe(getMoonPosition(date).longitude);
+        expect(state.speed).toBeGreaterThan(11.5);
+        expect(state.speed).toBeLessThan(15.5);
+        expect((sixHoursLater - state.longitude) * 4).toBeCloseTo(state.speed, 1);
+    });
+
+    it('is unaffected by the 0°/360° seam', () => {
+        // The Moon crossed 0° tropical longitude at about 19:01 UTC on 2025 January 5.
+        const state = getMoonState(new Date('2025-01-05T19:30:00Z'));
+        expect(state.speed).toBeGreaterThan(11.5);
+        expect(state.speed).toBeLessThan(15.5);
+    });
+});
+
+describe('getMoonPace', () => {
+    it('calls speeds within 5% of the mean average', () => {
+        expect(getMoonPace(MEAN_LUNAR_DAILY_MOTION)).toBe('average');
+        expect(getMoonPace(15)).toBe('fast');
+        expect(getMoonPace(12)).toBe('slow');
+    });
+});
+
+describe('getNutationInLongitude', () => {
+    // Meeus example 22.a: 1987 April 10, 0h TD, Δψ = -3.788".
+    it('matches the worked example to within half an arcsecond', () => {
+        const td = new Date('1987-04-10T00:00:00Z');
+        const ut = new Date(td.getTime() - getDeltaT(td) * 1000);
+        expect(Math.abs(getNutationInLongitude(ut) * 3600 - -3.788)).toBeLessThan(0.5);
+    });
+});
+
+describe('getSunLongitude', () => {
+    // Meeus example 25.a: 1992 October 13, 0h TD, apparent λ = 199.90895° (low-accuracy method).
+    it('reproduces the worked example to within 0.01°', () => {
+        const td = new Date('1992-10-13T00:00:00Z');
+        const ut = new Date(td.getTime() - getDeltaT(td) * 1000);
+        expect(Math.abs(getSunLongitude(ut) - 199.90895)).toBeLessThan(0.01);
+    });
+});
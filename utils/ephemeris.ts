@@ -0,0 +1,344 @@
+import type { LunarPosition, LunarState, MoonPace } from '../types';
+import { normalizeDegrees } from './boundary-solver';
+
+/**
+ * Lunar ephemeris based on the truncated ELP-2000/82 theory as published in
+ * Jean Meeus, "Astronomical Algorithms" (2nd ed.), chapter 47.
+ * Accuracy is about 10" in longitude and 4" in latitude, which keeps
+ * nakshatra boundaries within a few seconds of time.
+ */
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Julian Day of the J2000.0 epoch (2000 January 1, 12:00 TT)
+const J2000 = 2451545.0;
+
+/**
+ * Converts a JavaScript date (UTC) to a Julian Day number.
+ * @param date The instant to convert.
+ * @returns The Julian Day in Universal Time.
+ */
+export const toJulianDay = (date: Date): number => date.getTime() / 86400000 + 2440587.5;
+
+/**
+ * Approximates ΔT = TT - UT in seconds using the Espenak-Meeus polynomials.
+ * @param date The instant for which to estimate ΔT.
+ * @returns ΔT in seconds.
+ */
+export const getDeltaT = (date: Date): number => {
+    const year = date.getUTCFullYear() + (date.getUTCMonth() + 0.5) / 12;
+
+    if (year >= 1986 && year < 2005) {
+        const t = year - 2000;
+        return 63.86 + 0.3345 * t - 0.060374 * t ** 2 + 0.0017275 * t ** 3 + 0.000651814 * t ** 4 + 0.00002373599 * t ** 5;
+    }
+    if (year >= 2005 && year < 2050) {
+        const t = year - 2000;
+        return 62.92 + 0.32217 * t + 0.005589 * t ** 2;
+    }
+    if (year >= 2050 && year < 2150) {
+        return -20 + 32 * ((year - 1820) / 100) ** 2 - 0.5628 * (2150 - year);
+    }
+    if (year >= 1961 && year < 1986) {
+        const t = year - 1975;
+        return 45.45 + 1.067 * t - t ** 2 / 260 - t ** 3 / 718;
+    }
+    if (year >= 1941 && year < 1961) {
+        const t = year - 1950;
+        return 29.07 + 0.407 * t - t ** 2 / 233 + t ** 3 / 2547;
+    }
+    if (year >= 1920 && year < 1941) {
+        const t = year - 1920;
+        return 21.2 + 0.84493 * t - 0.0761 * t ** 2 + 0.0020936 * t ** 3;
+    }
+    if (year >= 1900 && year < 1920) {
+        const t = year - 1900;
+        return -2.79 + 1.494119 * t - 0.0598939 * t ** 2 + 0.0061966 * t ** 3 - 0.000197 * t ** 4;
+    }
+    return -20 + 32 * ((year - 1820) / 100) ** 2;
+};
+
+/**
+ * Julian centuries of Terrestrial Time since J2000.0, the time argument of the ephemeris.
+ * @param date The instant (UTC).
+ * @returns Centuries since J2000.0 (TT).
+ */
+export const getJulianCenturiesTT = (date: Date): number => {
+    const jde = toJulianDay(date) + getDeltaT(date) / 86400;
+    return (jde - J2000) / 36525;
+};
+
+/**
+ * The fundamental arguments shared by the lunar and solar series, in degrees (Meeus 47.1-47.5).
+ */
+export const getFundamentalArguments = (T: number) => ({
+    // Moon's mean longitude
+    Lp: 218.3164477 + 481267.88123421 * T - 0.0015786 * T ** 2 + T ** 3 / 538841 - T ** 4 / 65194000,
+    // Moon's mean elongation
+    D: 297.8501921 + 445267.1114034 * T - 0.0018819 * T ** 2 + T ** 3 / 545868 - T ** 4 / 113065000,
+    // Sun's mean anomaly
+    M: 357.5291092 + 35999.0502909 * T - 0.0001536 * T ** 2 + T ** 3 / 24490000,
+    // Moon's mean anomaly
+    Mp: 134.9633964 + 477198.8675055 * T + 0.0087414 * T ** 2 + T ** 3 / 69699 - T ** 4 / 14712000,
+    // Moon's argument of latitude
+    F: 93.272095 + 483202.0175233 * T - 0.0036539 * T ** 2 - T ** 3 / 3526000 + T ** 4 / 863310000,
+});
+
+// Table 47.A: multiples of D, M, M', F and the coefficients of
+// Σl (sine, 1e-6 degrees) and Σr (cosine, 1e-3 km).
+const LONGITUDE_DISTANCE_TERMS: ReadonlyArray<readonly [number, number, number, number, number, number]> = [
+    [0, 0, 1, 0, 6288774, -20905355],
+    [2, 0, -1, 0, 1274027, -3699111],
+    [2, 0, 0, 0, 658314, -2955968],
+    [0, 0, 2, 0, 213618, -569925],
+    [0, 1, 0, 0, -185116, 48888],
+    [0, 0, 0, 2, -114332, -3149],
+    [2, 0, -2, 0, 58793, 246158],
+    [2, -1, -1, 0, 57066, -152138],
+    [2, 0, 1, 0, 53322, -170733],
+    [2, -1, 0, 0, 45758, -204586],
+    [0, 1, -1, 0, -40923, -129620],
+    [1, 0, 0, 0, -34720, 108743],
+    [0, 1, 1, 0, -30383, 104755],
+    [2, 0, 0, -2, 15327, 10321],
+    [0, 0, 1, 2, -12528, 0],
+    [0, 0, 1, -2, 10980, 79661],
+    [4, 0, -1, 0, 10675, -34782],
+    [0, 0, 3, 0, 10034, -23210],
+    [4, 0, -2, 0, 8548, -21636],
+    [2, 1, -1, 0, -7888, 24208],
+    [2, 1, 0, 0, -6766, 30824],
+    [1, 0, -1, 0, -5163, -8379],
+    [1, 1, 0, 0, 4987, -16675],
+    [2, -1, 1, 0, 4036, -12831],
+    [2, 0, 2, 0, 3994, -10445],
+    [4, 0, 0, 0, 3861, -11650],
+    [2, 0, -3, 0, 3665, 14403],
+    [0, 1, -2, 0, -2689, -7003],
+    [2, 0, -1, 2, -2602, 0],
+    [2, -1, -2, 0, 2390, 10056],
+    [1, 0, 1, 0, -2348, 6322],
+    [2, -2, 0, 0, 2236, -9884],
+    [0, 1, 2, 0, -2120, 5751],
+    [0, 2, 0, 0, -2069, 0],
+    [2, -2, -1, 0, 2048, -4950],
+    [2, 0, 1, -2, -1773, 4130],
+    [2, 0, 0, 2, -1595, 0],
+    [4, -1, -1, 0, 1215, -3958],
+    [0, 0, 2, 2, -1110, 0],
+    [3, 0, -1, 0, -892, 3258],
+    [2, 1, 1, 0, -810, 2616],
+    [4, -1, -2, 0, 759, -1897],
+    [0, 2, -1, 0, -713, -2117],
+    [2, 2, -1, 0, -700, 2354],
+    [2, 1, -2, 0, 691, 0],
+    [2, -1, 0, -2, 596, 0],
+    [4, 0, 1, 0, 549, -1423],
+    [0, 0, 4, 0, 537, -1117],
+    [4, -1, 0, 0, 520, -1571],
+    [1, 0, -2, 0, -487, -1739],
+    [2, 1, 0, -2, -399, 0],
+    [0, 0, 2, -2, -381, -4421],
+    [1, 1, 1, 0, 351, 0],
+    [3, 0, -2, 0, -340, 0],
+    [4, 0, -3, 0, 330, 0],
+    [2, -1, 2, 0, 327, 0],
+    [0, 2, 1, 0, -323, 1165],
+    [1, 1, -1, 0, 299, 0],
+    [2, 0, 3, 0, 294, 0],
+    [2, 0, -1, -2, 0, 8752],
+];
+
+// Table 47.B: multiples of D, M, M', F and the coefficient of Σb (sine, 1e-6 degrees).
+const LATITUDE_TERMS: ReadonlyArray<readonly [number, number, number, number, number]> = [
+    [0, 0, 0, 1, 5128122],
+    [0, 0, 1, 1, 280602],
+    [0, 0, 1, -1, 277693],
+    [2, 0, 0, -1, 173237],
+    [2, 0, -1, 1, 55413],
+    [2, 0, -1, -1, 46271],
+    [2, 0, 0, 1, 32573],
+    [0, 0, 2, 1, 17198],
+    [2, 0, 1, -1, 9266],
+    [0, 0, 2, -1, 8822],
+    [2, -1, 0, -1, 8216],
+    [2, 0, -2, -1, 4324],
+    [2, 0, 1, 1, 4200],
+    [2, 1, 0, -1, -3359],
+    [2, -1, -1, 1, 2463],
+    [2, -1, 0, 1, 2211],
+    [2, -1, -1, -1, 2065],
+    [0, 1, -1, -1, -1870],
+    [4, 0, -1, -1, 1828],
+    [0, 1, 0, 1, -1794],
+    [0, 0, 0, 3, -1749],
+    [0, 1, -1, 1, -1565],
+    [1, 0, 0, 1, -1491],
+    [0, 1, 1, 1, -1475],
+    [0, 1, 1, -1, -1410],
+    [0, 1, 0, -1, -1344],
+    [1, 0, 0, -1, -1335],
+    [0, 0, 3, 1, 1107],
+    [4, 0, 0, -1, 1021],
+    [4, 0, -1, 1, 833],
+    [0, 0, 1, -3, 777],
+    [4, 0, -2, 1, 671],
+    [2, 0, 0, -3, 607],
+    [2, 0, 2, -1, 596],
+    [2, -1, 1, -1, 491],
+    [2, 0, -2, 1, -451],
+    [0, 0, 3, -1, 439],
+    [2, 0, 2, 1, 422],
+    [2, 0, -3, -1, 421],
+    [2, 1, -1, 1, -366],
+    [2, 1, 0, 1, -351],
+    [4, 0, 0, 1, 331],
+    [2, -1, 1, 1, 315],
+    [2, -2, 0, -1, 302],
+    [0, 0, 1, 3, -283],
+    [2, 1, 1, -1, -229],
+    [1, 1, 0, -1, 223],
+    [1, 1, 0, 1, 223],
+    [0, 1, -2, -1, -220],
+    [2, 1, -1, -1, -220],
+    [1, 0, 1, 1, -185],
+    [2, -1, -2, -1, 181],
+    [0, 1, 2, 1, -177],
+    [4, 0, -2, -1, 176],
+    [4, -1, -1, -1, 166],
+    [1, 0, 1, -1, -164],
+    [4, 0, 1, -1, 132],
+    [1, 0, -1, -1, -119],
+    [4, -1, 0, -1, 115],
+    [2, -2, 0, 1, 107],
+];
+
+/**
+ * Calculates the nutation in longitude (Δψ), the periodic wobble of the equinox (Meeus chapter 22).
+ * This low-precision series is accurate to about 0.5".
+ * @param date The instant (UTC).
+ * @returns Δψ in degrees.
+ */
+export const getNutationInLongitude = (date: Date): number => {
+    const T = getJulianCenturiesTT(date);
+    const omega = toRadians(125.04452 - 1934.136261 * T);
+    const sunMeanLongitude = toRadians(280.4665 + 36000.7698 * T);
+    const moonMeanLongitude = toRadians(218.3165 + 481267.8813 * T);
+
+    const arcseconds =
+        -17.2 * Math.sin(omega) -
+        1.32 * Math.sin(2 * sunMeanLongitude) -
+        0.23 * Math.sin(2 * moonMeanLongitude) +
+        0.21 * Math.sin(2 * omega);
+
+    return arcseconds / 3600;
+};
+
+/**
+ * Computes the Moon's geocentric ecliptic position referred to the true equinox of date.
+ * @param date The instant (UTC).
+ * @returns The tropical longitude and latitude in degrees and the distance in kilometres.
+ */
+export const getMoonPosition = (date: Date): LunarPosition => {
+    const T = getJulianCenturiesTT(date);
+    const { Lp, D, M, Mp, F } = getFundamentalArguments(T);
+
+    // Terms involving the Sun's mean anomaly are scaled for the decreasing eccentricity of Earth's orbit.
+    const E = 1 - 0.002516 * T - 0.0000074 * T ** 2;
+    const eccentricityFactor = (m: number) => (m === 0 ? 1 : Math.abs(m) === 1 ? E : E * E);
+
+    const Dr = toRadians(D);
+    const Mr = toRadians(M);
+    const Mpr = toRadians(Mp);
+    const Fr = toRadians(F);
+
+    let sigmaL = 0;
+    let sigmaR = 0;
+    for (const [d, m, mp, f, l, r] of LONGITUDE_DISTANCE_TERMS) {
+        const argument = d * Dr + m * Mr + mp * Mpr + f * Fr;
+        const factor = eccentricityFactor(m);
+        sigmaL += l * factor * Math.sin(argument);
+        sigmaR += r * factor * Math.cos(argument);
+    }
+
+    let sigmaB = 0;
+    for (const [d, m, mp, f, b] of LATITUDE_TERMS) {
+        sigmaB += b * eccentricityFactor(m) * Math.sin(d * Dr + m * Mr + mp * Mpr + f * Fr);
+    }
+
+    // Additive terms for the action of Venus, Jupiter and the flattening of the Earth.
+    const A1 = toRadians(119.75 + 131.849 * T);
+    const A2 = toRadians(53.09 + 479264.29 * T);
+    const A3 = toRadians(313.45 + 481266.484 * T);
+    const Lpr = toRadians(Lp);
+
+    sigmaL += 3958 * Math.sin(A1) + 1962 * Math.sin(Lpr - Fr) + 318 * Math.sin(A2);
+    sigmaB +=
+        -2235 * Math.sin(Lpr) +
+        382 * Math.sin(A3) +
+        175 * Math.sin(A1 - Fr) +
+        175 * Math.sin(A1 + Fr) +
+        127 * Math.sin(Lpr - Mpr) -
+        115 * Math.sin(Lpr + Mpr);
+
+    return {
+        longitude: normalizeDegrees(Lp + sigmaL / 1000000 + getNutationInLongitude(date)),
+        latitude: sigmaB / 1000000,
+        distance: 385000.56 + sigmaR / 1000,
+    };
+};
+
+/** The Moon's mean motion in longitude, degrees per day (Meeus chapter 47). */
+export const MEAN_LUNAR_DAILY_MOTION = 481267.88123421 / 36525;
+
+const VELOCITY_STEP_MS = 60 * 60 * 1000;
+
+/**
+ * Computes the Moon's position together with its speed in longitude, taken as the central
+ * difference over two hours.
+ * @param date The instant (UTC).
+ * @returns The position and the speed in degrees per day.
+ */
+export const getMoonState = (date: Date): LunarState => {
+    const before = getMoonPosition(new Date(date.getTime() - VELOCITY_STEP_MS)).longitude;
+    const after = getMoonPosition(new Date(date.getTime() + VELOCITY_STEP_MS)).longitude;
+    // The difference is small, so bring it back into -180..180 across the 0°/360° seam.
+    const change = ((((after - before) % 360) + 540) % 360) - 180;
+
+    return {
+        ...getMoonPosition(date),
+        speed: (change * 86400000) / (2 * VELOCITY_STEP_MS),
+    };
+};
+
+/**
+ * Classifies a lunar speed against the mean; more than 5% either way counts as fast or slow.
+ * @param speed The speed in degrees per day.
+ * @returns The pace.
+ */
+export const getMoonPace = (speed: number): MoonPace => {
+    if (speed > MEAN_LUNAR_DAILY_MOTION * 1.05) return 'fast';
+    if (speed < MEAN_LUNAR_DAILY_MOTION * 0.95) return 'slow';
+    return 'average';
+};
+
+/**
+ * Computes the Sun's apparent geocentric ecliptic longitude, referred to the true equinox of date,
+ * with the low-accuracy theory of Meeus chapter 25 (about 0.01°).
+ * @param date The instant (UTC).
+ * @returns The tropical longitude in degrees (0-360).
+ */
+export const getSunLongitude = (date: Date): number => {
+    const T = getJulianCenturiesTT(date);
+    const meanLongitude = 280.46646 + 36000.76983 * T + 0.0003032 * T ** 2;
+    const meanAnomaly = toRadians(357.52911 + 35999.05029 * T - 0.0001537 * T ** 2);
+
+    const equationOfCentre =
+        (1.914602 - 0.004817 * T - 0.000014 * T ** 2) * Math.sin(meanAnomaly) +
+        (0.019993 - 0.000101 * T) * Math.sin(2 * meanAnomaly) +
+        0.000289 * Math.sin(3 * meanAnomaly);
+
+    // Correct for aberration (-20.5") and nutation to get the apparent position.
+    const aberration = -0.00569;
+    return normalizeDegrees(meanLongitude + equationOfCentre + aberration + getNutationInLongitude(date));
+};
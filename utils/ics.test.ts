@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import type { NakshatraPeriod } from '../types';
+import { buildIcsCalendar, escapeIcsText, foldIcsLine, formatIcsDateTime } from './ics';
+import { findCurrentOrNextNakshatraPeriod } from './nakshatra-calculator';
+import { makePeriod } from './__fixtures__/periods';
+
+const periods: NakshatraPeriod[] = [
+    makePeriod(15, '2025-01-21T18:06:12Z', '2025-01-22T21:04:40Z'),
+    makePeriod(15, '2025-02-18T02:11:05Z', '2025-02-19T04:57:31Z'),
+];
+const generatedAt = new Date('2025-01-01T00:00:00Z');
+
+describe('formatIcsDateTime', () => {
+    it('writes UTC date-times without separators or milliseconds', () => {
+        expect(formatIcsDateTime(new Date('2025-01-21T18:06:12.345Z'))).toBe('20250121T180612Z');
+    });
+});
+
+describe('escapeIcsText', () => {
+    it('escapes backslashes, separators and newlines', () => {
+        expect(escapeIcsText('a\\b; c, d\ne')).toBe('a\\\\b\\; c\\, d\\ne');
+    });
+});
+
+describe('foldIcsLine', () => {
+    it('leaves short lines alone', () => {
+        expect(foldIcsLine('SUMMARY:Swathi')).toBe('SUMMARY:Swathi');
+    });
+
+    it('folds long lines at 75 octets with a leading space', () => {
+        const folded = foldIcsLine(`DESCRIPTION:${'x'.repeat(200)}`);
+        const lines = folded.split('\r\n');
+        expect(lines.length).toBe(3);
+        expect(lines[0]).toHaveLength(75);
+        expect(lines.slice(1).every(line => line.startsWith(' ') && line.length <= 75)).toBe(true);
+        expect(lines.map((line, i) => (i === 0 ? line : line.slice(1))).join('')).toBe(`DESCRIPTION:${'x'.repeat(200)}`);
+    });
+
+    it('never splits a multi-byte character', () => {
+        const encoder = new TextEncoder();
+        const folded = foldIcsLine(`SUMMARY:${'स्वाति'.repeat(10)}`);
+        for (const line of folded.split('\r\n')) {
+            expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+        }
+        expect(folded.replace(/\r\n /g, '')).toBe(`SUMMARY:${'स्वाति'.repeat(10)}`);
+    });
+});
+
+describe('buildIcsCalendar', () => {
+    it('wraps one event per period in a calendar with CRLF line endings', () => {
+        const ics = buildIcsCalendar(periods, { generatedAt });
+
+        expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\nPRODID:')).toBe(true);
+        expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+        expect(ics.replace(/\r\n/g, '')).not.toMatch(/\n/);
+        expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+        expect(ics.match(/END:VEVENT/g)).toHaveLength(2);
+    });
+
+    it('writes UTC start and end times and a stable UID for each period', () => {
+        const ics = buildIcsCalendar(periods, { generatedAt });
+
+        expect(ics).toContain('UID:nakshatra-15-2025-01-22@swathi-nakshatra-tracker\r\n');
+        expect(ics).toContain('DTSTART:20250121T180612Z\r\nDTEND:20250122T210440Z\r\n');
+        expect(ics).toContain('DTSTART:20250218T021105Z\r\nDTEND:20250219T045731Z\r\n');
+        expect(ics).toContain('DTSTAMP:20250101T000000Z\r\n');
+        expect(ics).toContain('SUMMARY:Swathi Nakshatra\r\n');
+        expect(buildIcsCalendar(periods, { generatedAt: new Date() })).toContain(
+            'UID:nakshatra-15-2025-01-22@swathi-nakshatra-tracker',
+        );
+    });
+
+    it('keeps the UID when the same period is found from a different search start', async () => {
+        const fromBefore = await findCurrentOrNextNakshatraPeriod(15, new Date('2025-01-20T00:00:00Z'));
+        const fromInside = await findCurrentOrNextNakshatraPeriod(15, new Date('2025-01-22T06:00:00Z'));
+        const getUid = (period: NakshatraPeriod) => buildIcsCalendar([period], { generatedAt }).match(/^UID:.*$/m)?.[0];
+
+        expect(getUid(fromInside)).toBe(getUid(fromBefore));
+    });
+
+    it('escapes the ayanamsha name in the description', () => {
+        const ics = buildIcsCalendar(periods.slice(0, 1), { generatedAt, ayanamshaName: 'Lahiri, true' });
+        expect(ics).toContain('DESCRIPTION:The Moon transits Swathi nakshatra (Lahiri\\, true ayanamsha).\r\n');
+    });
+
+    it('adds a display alarm per reminder only when requested', () => {
+        expect(buildIcsCalendar(periods, { generatedAt })).not.toContain('BEGIN:VALARM');
+
+        const ics = buildIcsCalendar(periods.slice(0, 1), { generatedAt, alarmMinutesBefore: [10, 60, 1440] });
+        expect(ics.match(/BEGIN:VALARM\r\nACTION:DISPLAY\r\n/g)).toHaveLength(3);
+        expect(ics).toContain('TRIGGER:-PT10M\r\n');
+        expect(ics).toContain('TRIGGER:-PT1H\r\n');
+        expect(ics).toContain('TRIGGER:-P1D\r\n');
+    });
+
+    it('produces a valid empty calendar without periods', () => {
+        const ics = buildIcsCalendar([], { generatedAt });
+        expect(ics).not.toContain('VEVENT');
+        expect(ics).toContain('END:VCALENDAR');
+    });
+});
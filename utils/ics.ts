@@ -0,0 +1,137 @@
+import type { NakshatraPeriod } from '../types';
+import { getNakshatra } from './nakshatras';
+import { getOccurrenceKey } from './occurrences';
+
+/**
+ * iCalendar (RFC 5545) export of nakshatra periods.
+ */
+
+export interface IcsExportOptions {
+    /** Name of the ayanamsha the periods were calculated with, noted in each event's description. */
+    ayanamshaName?: string;
+    /** Reminders to attach to every event, in minutes before the period starts. */
+    alarmMinutesBefore?: number[];
+    /** The creation timestamp written to DTSTAMP; defaults to now. */
+    generatedAt?: Date;
+}
+
+const PRODUCT_ID = '-//Swathi Nakshatra Tracker//Nakshatra Periods//EN';
+const UID_DOMAIN = 'swathi-nakshatra-tracker';
+const MAX_LINE_OCTETS = 75;
+const CRLF = '\r\n';
+
+const encoder = new TextEncoder();
+
+/**
+ * Formats an instant as an RFC 5545 UTC date-time, e.g. 20250121T180600Z.
+ */
+export const formatIcsDateTime = (date: Date): string => {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+/**
+ * Escapes a TEXT property value (RFC 5545 section 3.3.11).
+ */
+export const escapeIcsText = (text: string): string => {
+    return text
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+};
+
+/**
+ * Folds a content line so that no line exceeds 75 octets (RFC 5545 section 3.1).
+ * Continuation lines start with a single space and multi-byte characters are never split.
+ */
+export const foldIcsLine = (line: string): string => {
+    const parts: string[] = [];
+    let current = '';
+    let currentOctets = 0;
+
+    for (const char of line) {
+        const octets = encoder.encode(char).length;
+        // Continuation lines lose one octet to the leading space.
+        const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (currentOctets + octets > limit) {
+            parts.push(current);
+            current = '';
+            currentOctets = 0;
+        }
+        current += char;
+        currentOctets += octets;
+    }
+    parts.push(current);
+
+    return parts.join(`${CRLF} `);
+};
+
+/**
+ * Formats a reminder offset as a negative RFC 5545 duration, e.g. -PT10M, -PT1H or -P1D.
+ */
+const formatTrigger = (minutesBefore: number): string => {
+    const minutes = Math.round(Math.abs(minutesBefore));
+    if (minutes > 0 && minutes % (24 * 60) === 0) return `-P${minutes / (24 * 60)}D`;
+    if (minutes > 0 && minutes % 60 === 0) return `-PT${minutes / 60}H`;
+    return `-PT${minutes}M`;
+};
+
+/**
+ * A stable identifier so re-importing the same period updates rather than duplicates it, even
+ * after its boundaries have been recalculated from another search start or ayanamsha.
+ */
+const getPeriodUid = (period: NakshatraPeriod): string => {
+    return `nakshatra-${getOccurrenceKey(period).replace('@', '-')}@${UID_DOMAIN}`;
+};
+
+const buildEvent = (period: NakshatraPeriod, options: IcsExportOptions, stamp: string): string[] => {
+    const { name } = getNakshatra(period.nakshatra);
+    const description = options.ayanamshaName
+        ? `The Moon transits ${name} nakshatra (${options.ayanamshaName} ayanamsha).`
+        : `The Moon transits ${name} nakshatra.`;
+
+    const lines = [
+        'BEGIN:VEVENT',
+        `UID:${getPeriodUid(period)}`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${formatIcsDateTime(period.start)}`,
+        `DTEND:${formatIcsDateTime(period.end)}`,
+        `SUMMARY:${escapeIcsText(`${name} Nakshatra`)}`,
+        `DESCRIPTION:${escapeIcsText(description)}`,
+        'TRANSP:TRANSPARENT',
+    ];
+
+    for (const minutes of options.alarmMinutesBefore ?? []) {
+        lines.push(
+            'BEGIN:VALARM',
+            'ACTION:DISPLAY',
+            `DESCRIPTION:${escapeIcsText(`${name} Nakshatra begins soon`)}`,
+            `TRIGGER:${formatTrigger(minutes)}`,
+            'END:VALARM',
+        );
+    }
+
+    lines.push('END:VEVENT');
+    return lines;
+};
+
+/**
+ * Builds an iCalendar file with one event per nakshatra period.
+ * @param periods The periods to export.
+ * @param options Optional description details and reminders.
+ * @returns The calendar text with CRLF line endings, ready to save as .ics.
+ */
+export const buildIcsCalendar = (periods: NakshatraPeriod[], options: IcsExportOptions = {}): string => {
+    const stamp = formatIcsDateTime(options.generatedAt ?? new Date());
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        ...periods.flatMap(period => buildEvent(period, options, stamp)),
+        'END:VCALENDAR',
+    ];
+
+    return lines.map(foldIcsLine).join(CRLF) + CRLF;
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { TimeInterval } from '../types';
+import { complementIntervals, intersectIntervals, mergeIntervals } from './intervals';
+
+// Intervals between hours of 1 January 2025, for readability.
+const at = (hour: number) => new Date(Date.UTC(2025, 0, 1, hour));
+const span = (start: number, end: number): TimeInterval => ({ start: at(start), end: at(end) });
+
+describe('mergeIntervals', () => {
+    it('sorts, merges overlapping and touching intervals and drops empty ones', () => {
+        expect(mergeIntervals([span(8, 10), span(1, 3), span(2, 4), span(4, 5), span(6, 6)])).toEqual([
+            span(1, 5),
+            span(8, 10),
+        ]);
+    });
+
+    it('does not modify its input', () => {
+        const input = [span(1, 3), span(2, 4)];
+        mergeIntervals(input);
+        expect(input).toEqual([span(1, 3), span(2, 4)]);
+    });
+});
+
+describe('intersectIntervals', () => {
+    it('keeps only the times covered by both lists', () => {
+        expect(intersectIntervals([span(0, 5), span(8, 12)], [span(2, 3), span(4, 9), span(11, 14)])).toEqual([
+            span(2, 3),
+            span(4, 5),
+            span(8, 9),
+            span(11, 12),
+        ]);
+    });
+
+    it('treats touching intervals as disjoint', () => {
+        expect(intersectIntervals([span(0, 2)], [span(2, 4)])).toEqual([]);
+    });
+});
+
+describe('complementIntervals', () => {
+    it('returns the gaps within the bounds', () => {
+        expect(complementIntervals([span(0, 2), span(4, 5), span(9, 12)], span(1, 10))).toEqual([span(2, 4), span(5, 9)]);
+    });
+
+    it('returns the whole bounds when nothing is covered', () => {
+        expect(complementIntervals([], span(1, 10))).toEqual([span(1, 10)]);
+    });
+});
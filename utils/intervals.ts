@@ -0,0 +1,71 @@
+import type { TimeInterval } from '../types';
+
+/**
+ * Set operations on lists of time intervals. Intervals are half-open, [start, end), and the
+ * functions below return them sorted, non-empty and non-overlapping.
+ */
+
+/**
+ * Sorts intervals and merges any that overlap or touch, dropping empty ones.
+ * @param intervals Intervals in any order.
+ * @returns The normalized union of the intervals.
+ */
+export const mergeIntervals = (intervals: TimeInterval[]): TimeInterval[] => {
+    const sorted = intervals
+        .filter(interval => interval.end > interval.start)
+        .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    const merged: TimeInterval[] = [];
+    for (const interval of sorted) {
+        const last = merged[merged.length - 1];
+        if (last && interval.start <= last.end) {
+            if (interval.end > last.end) last.end = interval.end;
+        } else {
+            merged.push({ start: interval.start, end: interval.end });
+        }
+    }
+    return merged;
+};
+
+/**
+ * Finds the times covered by both lists.
+ * @param a Normalized intervals, see mergeIntervals.
+ * @param b Normalized intervals.
+ * @returns The normalized intersection.
+ */
+export const intersectIntervals = (a: TimeInterval[], b: TimeInterval[]): TimeInterval[] => {
+    const result: TimeInterval[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        const start = a[i].start > b[j].start ? a[i].start : b[j].start;
+        const end = a[i].end < b[j].end ? a[i].end : b[j].end;
+        if (end > start) result.push({ start, end });
+        // Advance whichever interval finishes first; the other may still overlap the next one.
+        if (a[i].end < b[j].end) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    return result;
+};
+
+/**
+ * Finds the gaps between intervals within a bounding interval.
+ * @param intervals Normalized intervals.
+ * @param within The bounds of the result.
+ * @returns The normalized parts of `within` that no interval covers.
+ */
+export const complementIntervals = (intervals: TimeInterval[], within: TimeInterval): TimeInterval[] => {
+    const gaps: TimeInterval[] = [];
+    let cursor = within.start;
+    for (const interval of intervals) {
+        if (interval.end <= cursor) continue;
+        if (interval.start >= within.end) break;
+        if (interval.start > cursor) gaps.push({ start: cursor, end: interval.start });
+        cursor = interval.end;
+    }
+    if (cursor < within.end) gaps.push({ start: cursor, end: within.end });
+    return gaps;
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { describeMoonLongitude, formatDegrees, getBirthInstant, getJanmaDetails, isBirthDetails } from './janma';
+import { getMoonSiderealLongitude } from './sidereal';
+
+describe('describeMoonLongitude', () => {
+    it('places 0° at the start of Ashwini pada 1 in Mesha', () => {
+        const details = describeMoonLongitude(0);
+        expect(details.nakshatra.name).toBe('Ashwini');
+        expect(details.pada).toBe(1);
+        expect(details.rashi.name).toBe('Mesha');
+        expect(details.degreesInNakshatra).toBe(0);
+    });
+
+    it('finds the pada within Swathi', () => {
+        const swathiStart = 14 * (360 / 27);
+        expect(describeMoonLongitude(swathiStart + 1).pada).toBe(1);
+        expect(describeMoonLongitude(swathiStart + 3.34).pada).toBe(2);
+        expect(describeMoonLongitude(swathiStart + 6.9).pada).toBe(3);
+        expect(describeMoonLongitude(swathiStart + 13.3).pada).toBe(4);
+        expect(describeMoonLongitude(swathiStart + 6.9)).toMatchObject({ rashi: { name: 'Tula' } });
+        expect(describeMoonLongitude(swathiStart + 6.9).degreesInNakshatra).toBeCloseTo(6.9, 10);
+    });
+
+    it('crosses into the next nakshatra and rashi together where their boundaries meet', () => {
+        // Punarvasu pada 4 lies in Karka while its first three padas are in Mithuna.
+        expect(describeMoonLongitude(89.9)).toMatchObject({ nakshatra: { name: 'Punarvasu' }, pada: 3, rashi: { name: 'Mithuna' } });
+        expect(describeMoonLongitude(90)).toMatchObject({ nakshatra: { name: 'Punarvasu' }, pada: 4, rashi: { name: 'Karka' } });
+        expect(describeMoonLongitude(359.99)).toMatchObject({ nakshatra: { name: 'Revati' }, pada: 4, rashi: { name: 'Meena' } });
+    });
+
+    it('normalises longitudes outside 0-360°', () => {
+        expect(describeMoonLongitude(-10).moonLongitude).toBeCloseTo(350, 10);
+        expect(describeMoonLongitude(370).nakshatra.name).toBe('Ashwini');
+    });
+});
+
+describe('getJanmaDetails', () => {
+    it('describes the sidereal Moon at the birth instant', () => {
+        const birth = new Date('1990-05-17T04:30:00Z');
+        const details = getJanmaDetails(birth, 'lahiri');
+        expect(details.moonLongitude).toBeCloseTo(getMoonSiderealLongitude(birth, 'lahiri'), 10);
+        expect(details).toEqual(describeMoonLongitude(details.moonLongitude));
+    });
+});
+
+describe('birth details', () => {
+    it('converts local birth time to an instant', () => {
+        expect(getBirthInstant({ date: '1990-05-17', time: '10:00', timeZone: 'Asia/Kolkata' })).toEqual(
+            new Date('1990-05-17T04:30:00Z'),
+        );
+    });
+
+    it('validates stored details', () => {
+        expect(isBirthDetails({ date: '1990-05-17', time: '10:00', timeZone: 'Asia/Kolkata' })).toBe(true);
+        expect(isBirthDetails({ date: '1990-02-30', time: '10:00', timeZone: 'Asia/Kolkata' })).toBe(false);
+        expect(isBirthDetails({ date: '1990-05-17', time: '10:00', timeZone: 'Mars/Olympus' })).toBe(false);
+        expect(isBirthDetails(null)).toBe(false);
+    });
+});
+
+describe('formatDegrees', () => {
+    it('formats degrees, minutes and seconds', () => {
+        expect(formatDegrees(3 + 1 / 3)).toBe('3°20′00″');
+        expect(formatDegrees(13.99999)).toBe('14°00′00″');
+        expect(formatDegrees(6.5125)).toBe('6°30′45″');
+        expect(formatDegrees(0)).toBe('0°00′00″');
+    });
+});
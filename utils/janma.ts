@@ -0,0 +1,73 @@
+import type { AyanamshaSystem, BirthDetails, JanmaDetails } from '../types';
+import { DEFAULT_AYANAMSHA } from './ayanamsha';
+import { PADA_SPAN_DEGREES, getNakshatraAtLongitude } from './nakshatras';
+import { getRashiAtLongitude } from './rashis';
+import { getMoonSiderealLongitude } from './sidereal';
+import { isValidTimeZone, parseDateTimeLocalString } from './time-zone';
+
+/**
+ * Describes where a sidereal Moon longitude falls: nakshatra, pada and rashi.
+ * @param longitude The Moon's sidereal longitude in degrees.
+ * @returns The janma details for that longitude.
+ */
+export const describeMoonLongitude = (longitude: number): JanmaDetails => {
+    const moonLongitude = ((longitude % 360) + 360) % 360;
+    const nakshatra = getNakshatraAtLongitude(moonLongitude);
+    const degreesInNakshatra = moonLongitude - nakshatra.startDegrees;
+
+    return {
+        moonLongitude,
+        nakshatra,
+        pada: Math.min(Math.floor(degreesInNakshatra / PADA_SPAN_DEGREES) + 1, 4),
+        degreesInNakshatra,
+        rashi: getRashiAtLongitude(moonLongitude),
+    };
+};
+
+/**
+ * Calculates the janma (birth) nakshatra, pada and rashi from the Moon's position at birth.
+ * @param birth The instant of birth.
+ * @param ayanamsha The ayanamsha system to use.
+ * @returns The janma details.
+ */
+export const getJanmaDetails = (birth: Date, ayanamsha: AyanamshaSystem = DEFAULT_AYANAMSHA): JanmaDetails => {
+    return describeMoonLongitude(getMoonSiderealLongitude(birth, ayanamsha));
+};
+
+/**
+ * Converts birth details entered as local wall-clock time into the instant of birth.
+ * @returns The instant, or null if the date, time or time zone is invalid.
+ */
+export const getBirthInstant = (details: BirthDetails): Date | null => {
+    if (!isValidTimeZone(details.timeZone)) return null;
+    return parseDateTimeLocalString(`${details.date}T${details.time}`, details.timeZone);
+};
+
+/**
+ * Type guard used when reading birth details back from storage.
+ */
+export const isBirthDetails = (value: unknown): value is BirthDetails => {
+    if (typeof value !== 'object' || value === null) return false;
+    const candidate = value as Partial<BirthDetails>;
+    return (
+        typeof candidate.date === 'string' &&
+        typeof candidate.time === 'string' &&
+        typeof candidate.timeZone === 'string' &&
+        getBirthInstant(candidate as BirthDetails) !== null
+    );
+};
+
+/**
+ * Like isBirthDetails, but also accepts null for "not entered yet".
+ */
+export const isOptionalBirthDetails = (value: unknown): value is BirthDetails | null => value === null || isBirthDetails(value);
+
+/**
+ * Formats an angle as degrees, minutes and seconds, e.g. 6°50′00″.
+ */
+export const formatDegrees = (degrees: number): string => {
+    const totalSeconds = Math.round(Math.abs(degrees) * 3600);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const sign = degrees < 0 && totalSeconds > 0 ? '-' : '';
+    return `${sign}${Math.floor(totalSeconds / 3600)}°${pad(Math.floor((totalSeconds % 3600) / 60))}′${pad(totalSeconds % 60)}″`;
+};
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { findLunarMonths, findNextNewMoon, findSolarMonths, getLunarMonth, getMasaName, getPeriodMasa, getSolarMonth } from './masa';
+
+const minutesBetween = (a: Date, b: Date) => Math.abs(a.getTime() - b.getTime()) / 60000;
+
+describe('findNextNewMoon', () => {
+    it('finds the new moon of 29 January 2025', () => {
+        // Published time: 12:36 UTC.
+        const newMoon = findNextNewMoon(new Date('2025-01-15T00:00:00Z'));
+        expect(minutesBetween(newMoon, new Date('2025-01-29T12:36:00Z'))).toBeLessThan(5);
+    });
+});
+
+describe('getLunarMonth', () => {
+    it('names the month from the rashi the Sun enters during it', () => {
+        // Ugadi, the first day of Chaitra, fell on 30 March 2025.
+        const month = getLunarMonth(new Date('2025-04-10T00:00:00Z'));
+        expect(month).toMatchObject({ number: 1, name: 'Chaitra', isAdhika: false });
+        expect(month.start.toISOString()).toMatch(/^2025-03-29/);
+        expect(month.end.toISOString()).toMatch(/^2025-04-27/);
+    });
+
+    it('starts a month exactly at a new moon', () => {
+        const newMoon = findNextNewMoon(new Date('2025-01-15T00:00:00Z'));
+        expect(getLunarMonth(newMoon).start).toEqual(newMoon);
+    });
+});
+
+describe('purnimanta months', () => {
+    it('run from full moon to full moon and take the name of their bright half', () => {
+        // 20 March 2025 is in the dark half after Phalguna Purnima (14 March).
+        const date = new Date('2025-03-20T00:00:00Z');
+        const purnimanta = getLunarMonth(date, 'lahiri', 'purnimanta');
+
+        expect(getLunarMonth(date).name).toBe('Phalguna');
+        expect(purnimanta).toMatchObject({ number: 1, name: 'Chaitra', isAdhika: false });
+        expect(purnimanta.start.toISOString()).toMatch(/^2025-03-14/);
+        expect(purnimanta.end.toISOString()).toMatch(/^2025-04-13/);
+    });
+
+    it('agree with amanta months in the bright half', () => {
+        const date = new Date('2025-04-05T00:00:00Z');
+        expect(getLunarMonth(date, 'lahiri', 'purnimanta').name).toBe(getLunarMonth(date).name);
+    });
+});
+
+describe('solar months', () => {
+    it('begin at the sankranti when the Sun enters a rashi', () => {
+        // Mesha sankranti 2025 fell early on 14 April in India.
+        const mesha = getSolarMonth(new Date('2025-04-20T00:00:00Z'));
+
+        expect(mesha).toMatchObject({ number: 1, name: 'Mesha' });
+        expect(mesha.start.toISOString()).toMatch(/^2025-04-13T2/);
+        expect(mesha.end.toISOString()).toMatch(/^2025-05-14/);
+    });
+
+    it('are listed back to back', () => {
+        const months = findSolarMonths(new Date('2025-01-01T00:00:00Z'), new Date('2025-12-31T00:00:00Z'));
+
+        expect(months.map(month => month.name)).toEqual([
+            'Dhanu', 'Makara', 'Kumbha', 'Meena', 'Mesha', 'Vrishabha', 'Mithuna',
+            'Karka', 'Simha', 'Kanya', 'Tula', 'Vrishchika', 'Dhanu',
+        ]);
+        months.slice(1).forEach((month, i) => expect(Math.abs(month.start.getTime() - months[i].end.getTime())).toBeLessThan(2000));
+    });
+});
+
+describe('getPeriodMasa', () => {
+    it('labels an instant with all three months', () => {
+        expect(getPeriodMasa(new Date('2025-03-20T00:00:00Z'))).toEqual({
+            amanta: { number: 12, name: 'Phalguna', isAdhika: false },
+            purnimanta: { number: 1, name: 'Chaitra', isAdhika: false },
+            solar: { number: 12, name: 'Meena' },
+        });
+    });
+});
+
+describe('findLunarMonths', () => {
+    it('lists consecutive months and marks the adhika Jyeshtha of 2026', () => {
+        const months = findLunarMonths(new Date('2026-04-01T00:00:00Z'), new Date('2026-08-01T00:00:00Z'));
+
+        expect(months.map(month => `${month.isAdhika ? 'Adhika ' : ''}${month.name}`)).toEqual([
+            'Chaitra',
+            'Vaishakha',
+            'Adhika Jyeshtha',
+            'Jyeshtha',
+            'Ashadha',
+        ]);
+        months.slice(1).forEach((month, i) => expect(month.start).toEqual(months[i].end));
+    });
+});
+
+describe('getMasaName', () => {
+    it('rejects numbers outside 1-12', () => {
+        expect(getMasaName(12)).toBe('Phalguna');
+        expect(() => getMasaName(13)).toThrow(RangeError);
+    });
+});
@@ -0,0 +1,170 @@
+import type { AyanamshaSystem, LunarMonth, LunarMonthLabel, LunarMonthSystem, PeriodMasa, SolarMonth } from '../types';
+import { DEFAULT_AYANAMSHA } from './ayanamsha';
+import { findCurrentOrNextArc, findNextCrossing, findPreviousCrossing } from './boundary-solver';
+import type { AngularMotion } from './boundary-solver';
+import { elongationMotion } from './panchang';
+import { getRashiAtLongitude } from './rashis';
+import { getSunSiderealLongitude } from './sidereal';
+
+const MASA_NAMES = [
+    'Chaitra', 'Vaishakha', 'Jyeshtha', 'Ashadha', 'Shravana', 'Bhadrapada',
+    'Ashwina', 'Kartika', 'Margashirsha', 'Pausha', 'Magha', 'Phalguna',
+];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// A synodic month never lasts less than about 29.2 days.
+const SHORTEST_LUNAR_MONTH_DAYS = 29;
+
+// The Moon-Sun elongation at which each kind of month begins.
+const MONTH_BOUNDARY: Record<LunarMonthSystem, number> = { amanta: 0, purnimanta: 180 };
+
+/**
+ * Names a lunar month from its 1-based number, 1 being Chaitra.
+ */
+export const getMasaName = (masaNumber: number): string => {
+    const name = MASA_NAMES[masaNumber - 1];
+    if (!name) {
+        throw new RangeError(`Masa number must be between 1 and 12, got ${masaNumber}`);
+    }
+    return name;
+};
+
+/**
+ * Writes a lunar month's name with its "Adhika" prefix if it is intercalary.
+ */
+export const formatLunarMonthName = (month: LunarMonthLabel): string => {
+    return month.isAdhika ? `Adhika ${month.name}` : month.name;
+};
+
+/**
+ * Finds the first new moon (the Moon and Sun at the same longitude) at or after an instant.
+ */
+export const findNextNewMoon = (after: Date): Date => findNextCrossing(elongationMotion, 0, after);
+
+/**
+ * Finds the last new moon at or before an instant.
+ */
+export const findPreviousNewMoon = (before: Date): Date => findPreviousCrossing(elongationMotion, 0, before);
+
+/**
+ * Finds the first full moon (the Moon opposite the Sun) at or after an instant.
+ */
+export const findNextFullMoon = (after: Date): Date => findNextCrossing(elongationMotion, 180, after);
+
+const findMonthEnd = (start: Date, system: LunarMonthSystem): Date =>
+    findNextCrossing(elongationMotion, MONTH_BOUNDARY[system], new Date(start.getTime() + SHORTEST_LUNAR_MONTH_DAYS * MS_PER_DAY));
+
+/**
+ * Names the lunar month between two boundaries. An amanta month takes its name from the rashi
+ * the Sun enters during it: the month in which the Sun enters Mesha is Chaitra, and so on.
+ * If the Sun enters no rashi the month is adhika and shares the name of the month that follows.
+ * A purnimanta month shares the name of the amanta month that begins at its middle new moon, so
+ * its dark half carries the name of the following amanta month. The rare kshaya month, with two
+ * entries, is not recognised.
+ */
+const describeLunarMonth = (start: Date, end: Date, system: LunarMonthSystem, ayanamsha: AyanamshaSystem): LunarMonth => {
+    const newMoon = system === 'amanta' ? start : findNextNewMoon(start);
+    const nextNewMoon = system === 'amanta' ? end : findMonthEnd(newMoon, 'amanta');
+    const rashiAtStart = getRashiAtLongitude(getSunSiderealLongitude(newMoon, ayanamsha)).number;
+    const rashiAtEnd = getRashiAtLongitude(getSunSiderealLongitude(nextNewMoon, ayanamsha)).number;
+    const number = (rashiAtStart % 12) + 1;
+    return { number, name: getMasaName(number), isAdhika: rashiAtStart === rashiAtEnd, start, end };
+};
+
+/**
+ * Finds the lunar month in progress at an instant.
+ * @param date The instant.
+ * @param ayanamsha The ayanamsha system used for the Sun's rashi.
+ * @param system Whether months run from new moon to new moon (amanta) or full moon to full moon (purnimanta).
+ * @returns The lunar month.
+ */
+export const getLunarMonth = (
+    date: Date,
+    ayanamsha: AyanamshaSystem = DEFAULT_AYANAMSHA,
+    system: LunarMonthSystem = 'amanta',
+): LunarMonth => {
+    const start = findPreviousCrossing(elongationMotion, MONTH_BOUNDARY[system], date);
+    return describeLunarMonth(start, findMonthEnd(start, system), system, ayanamsha);
+};
+
+/**
+ * Lists the lunar months in progress between two instants, in order.
+ * @param from The start of the range.
+ * @param to The end of the range.
+ * @param ayanamsha The ayanamsha system used for the Sun's rashi.
+ * @param system The lunar month reckoning, see getLunarMonth.
+ * @returns Every month overlapping the range.
+ */
+export const findLunarMonths = (
+    from: Date,
+    to: Date,
+    ayanamsha: AyanamshaSystem = DEFAULT_AYANAMSHA,
+    system: LunarMonthSystem = 'amanta',
+): LunarMonth[] => {
+    const months = [getLunarMonth(from, ayanamsha, system)];
+    let last = months[0];
+    while (last.end < to) {
+        last = describeLunarMonth(last.end, findMonthEnd(last.end, system), system, ayanamsha);
+        months.push(last);
+    }
+    return months;
+};
+
+/**
+ * The Sun's sidereal longitude advances between about 0.95° and 1.02° a day.
+ */
+const getSolarMotion = (ayanamsha: AyanamshaSystem): AngularMotion => ({
+    angleAt: (date: Date) => getSunSiderealLongitude(date, ayanamsha),
+    minDailyMotion: 0.94,
+    maxDailyMotion: 1.03,
+});
+
+/**
+ * Finds the solar month in progress at an instant: the Sun's stay in its current rashi, which
+ * begins at the sankranti when the Sun enters it.
+ * @param date The instant.
+ * @param ayanamsha The ayanamsha system used for the Sun's sidereal longitude.
+ * @returns The solar month.
+ */
+export const getSolarMonth = (date: Date, ayanamsha: AyanamshaSystem = DEFAULT_AYANAMSHA): SolarMonth => {
+    const motion = getSolarMotion(ayanamsha);
+    const rashi = getRashiAtLongitude(motion.angleAt(date));
+    const { start, end } = findCurrentOrNextArc(motion, rashi.startDegrees, rashi.endDegrees, date);
+    return { number: rashi.number, name: rashi.name, start, end };
+};
+
+/**
+ * Lists the solar months in progress between two instants, in order. Each month's start is a sankranti.
+ * @param from The start of the range.
+ * @param to The end of the range.
+ * @param ayanamsha The ayanamsha system used for the Sun's sidereal longitude.
+ * @returns Every solar month overlapping the range.
+ */
+export const findSolarMonths = (from: Date, to: Date, ayanamsha: AyanamshaSystem = DEFAULT_AYANAMSHA): SolarMonth[] => {
+    const months = [getSolarMonth(from, ayanamsha)];
+    let last = months[0];
+    while (last.end < to) {
+        // Look a day into the next month so rounding at the sankranti cannot find the same month again.
+        last = getSolarMonth(new Date(last.end.getTime() + MS_PER_DAY), ayanamsha);
+        months.push(last);
+    }
+    return months;
+};
+
+const toLabel = ({ number, name, isAdhika }: LunarMonth): LunarMonthLabel => ({ number, name, isAdhika });
+
+/**
+ * Names the amanta, purnimanta and solar months in progress at an instant.
+ * @param date The instant, usually the middle of a nakshatra period.
+ * @param ayanamsha The ayanamsha system used for the Sun's rashi.
+ * @returns The three month labels.
+ */
+export const getPeriodMasa = (date: Date, ayanamsha: AyanamshaSystem = DEFAULT_AYANAMSHA): PeriodMasa => {
+    const { number, name } = getSolarMonth(date, ayanamsha);
+    return {
+        amanta: toLabel(getLunarMonth(date, ayanamsha, 'amanta')),
+        purnimanta: toLabel(getLunarMonth(date, ayanamsha, 'purnimanta')),
+        solar: { number, name },
+    };
+};
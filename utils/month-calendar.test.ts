@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { buildMonthCalendar, getDayBands, getMonthViewRange, getMonthWeeks } from './month-calendar';
+import { makePeriod } from './__fixtures__/periods';
+
+describe('getMonthWeeks', () => {
+    it('pads the month to whole weeks starting on Sunday', () => {
+        const weeks = getMonthWeeks(2026, 1);
+
+        expect(weeks).toHaveLength(5);
+        expect(weeks[0][0]).toEqual({ year: 2025, month: 12, day: 28 });
+        expect(weeks[0][4]).toEqual({ year: 2026, month: 1, day: 1 });
+        expect(weeks[4][6]).toEqual({ year: 2026, month: 1, day: 31 });
+    });
+
+    it('uses four weeks for a February that starts on Sunday and six when the month spills over', () => {
+        expect(getMonthWeeks(2026, 2)).toHaveLength(4);
+        expect(getMonthWeeks(2026, 8)).toHaveLength(6);
+    });
+});
+
+describe('getMonthViewRange', () => {
+    it('runs from local midnight on the first cell to local midnight after the last', () => {
+        const { from, to } = getMonthViewRange(2026, 2, 'Asia/Kolkata');
+
+        expect(from.toISOString()).toBe('2026-01-31T18:30:00.000Z');
+        expect(to.toISOString()).toBe('2026-02-28T18:30:00.000Z');
+    });
+});
+
+describe('getDayBands', () => {
+    const transits = [
+        makePeriod(14, '2026-03-07T02:00:00Z', '2026-03-08T10:00:00Z'),
+        makePeriod(15, '2026-03-08T10:00:00Z', '2026-03-09T15:00:00Z'),
+        makePeriod(16, '2026-03-09T15:00:00Z', '2026-03-10T20:00:00Z'),
+    ];
+
+    it('clips each transit to the day and measures it against the 23-hour DST day', () => {
+        const bands = getDayBands({ year: 2026, month: 3, day: 8 }, 'America/New_York', transits);
+
+        expect(bands.map(band => band.nakshatra)).toEqual([14, 15]);
+        expect(bands[0].start.toISOString()).toBe('2026-03-08T05:00:00.000Z');
+        expect(bands[0].startFraction).toBe(0);
+        expect(bands[0].endFraction).toBeCloseTo(5 / 23);
+        expect(bands[1].startFraction).toBeCloseTo(5 / 23);
+        expect(bands[1].end.toISOString()).toBe('2026-03-09T04:00:00.000Z');
+        expect(bands[1].endFraction).toBe(1);
+    });
+
+    it('returns no bands for a day outside the transits', () => {
+        expect(getDayBands({ year: 2026, month: 3, day: 20 }, 'America/New_York', transits)).toEqual([]);
+    });
+});
+
+describe('buildMonthCalendar', () => {
+    it('marks the padding days from the neighbouring months', () => {
+        const weeks = buildMonthCalendar(2026, 1, 'UTC', []);
+        const days = weeks.flat();
+
+        expect(days).toHaveLength(35);
+        expect(days.filter(day => day.isInMonth)).toHaveLength(31);
+        expect(days[0].isInMonth).toBe(false);
+    });
+});
@@ -0,0 +1,87 @@
+import type { CalendarDate, CalendarDay, NakshatraBand, NakshatraPeriod } from '../types';
+import { addDays, getDayBounds, getWeekday, zonedTimeToDate } from './time-zone';
+
+/**
+ * Lists the dates shown in a month view: whole weeks from Sunday to Saturday, padded with
+ * days from the neighbouring months.
+ * @param year The year.
+ * @param month The month, 1-12.
+ * @returns The weeks, each holding seven dates.
+ */
+export const getMonthWeeks = (year: number, month: number): CalendarDate[][] => {
+    const first: CalendarDate = { year, month, day: 1 };
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    const leading = getWeekday(first);
+    const weekCount = Math.ceil((leading + daysInMonth) / 7);
+
+    return Array.from({ length: weekCount }, (_, week) =>
+        Array.from({ length: 7 }, (_, weekday) => addDays(first, week * 7 + weekday - leading)),
+    );
+};
+
+/**
+ * Finds the span of time covered by a month view, from local midnight on its first cell to
+ * local midnight after its last.
+ * @param year The year.
+ * @param month The month, 1-12.
+ * @param timeZone The IANA time zone the calendar is shown in.
+ * @returns The start and end instants.
+ */
+export const getMonthViewRange = (year: number, month: number, timeZone: string): { from: Date; to: Date } => {
+    const weeks = getMonthWeeks(year, month);
+    const lastWeek = weeks[weeks.length - 1];
+    return {
+        from: zonedTimeToDate(weeks[0][0], timeZone),
+        to: zonedTimeToDate(addDays(lastWeek[6], 1), timeZone),
+    };
+};
+
+/**
+ * Clips transits to a local calendar day.
+ * @param date The local date.
+ * @param timeZone The IANA time zone.
+ * @param transits Consecutive nakshatra transits, in order.
+ * @returns One band per nakshatra the Moon occupies during the day, in order.
+ */
+export const getDayBands = (date: CalendarDate, timeZone: string, transits: NakshatraPeriod[]): NakshatraBand[] => {
+    const { start: dayStart, end: dayEnd } = getDayBounds(date, timeZone);
+    // Days are 23 or 25 hours long when the clocks change.
+    const dayLength = dayEnd.getTime() - dayStart.getTime();
+
+    return transits
+        .filter(transit => transit.start < dayEnd && transit.end > dayStart)
+        .map(transit => {
+            const start = transit.start > dayStart ? transit.start : dayStart;
+            const end = transit.end < dayEnd ? transit.end : dayEnd;
+            return {
+                nakshatra: transit.nakshatra,
+                start,
+                end,
+                startFraction: (start.getTime() - dayStart.getTime()) / dayLength,
+                endFraction: (end.getTime() - dayStart.getTime()) / dayLength,
+            };
+        });
+};
+
+/**
+ * Lays out a month view with the nakshatra bands of each day.
+ * @param year The year.
+ * @param month The month, 1-12.
+ * @param timeZone The IANA time zone the calendar is shown in.
+ * @param transits Transits covering the month view, e.g. from getMonthViewRange.
+ * @returns The weeks of the month view.
+ */
+export const buildMonthCalendar = (
+    year: number,
+    month: number,
+    timeZone: string,
+    transits: NakshatraPeriod[],
+): CalendarDay[][] => {
+    return getMonthWeeks(year, month).map(week =>
+        week.map(date => ({
+            date,
+            isInMonth: date.month === month,
+            bands: getDayBands(date, timeZone, transits),
+        })),
+    );
+};
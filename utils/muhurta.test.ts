@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import type { LocationSetting, MuhurtaQuery, MuhurtaRule } from '../types';
+import { findMuhurtaWindows, getRahuKalam, getYamagandam } from './muhurta';
+import { getMoonSiderealLongitude } from './sidereal';
+import { getNakshatraAtLongitude } from './nakshatras';
+import { getRiseSetTimes } from './rise-set';
+import { getPanchang } from './panchang';
+import { getCalendarDate, getWeekday } from './time-zone';
+
+const kolkata = { label: 'Kolkata', timeZone: 'Asia/Kolkata', latitude: 22.5726, longitude: 88.3639 } satisfies LocationSetting;
+const wednesday = { year: 2025, month: 1, day: 22 };
+
+const query = (rules: MuhurtaRule[], overrides: Partial<MuhurtaQuery> = {}): MuhurtaQuery => ({
+    rules,
+    from: new Date('2025-01-01T00:00:00Z'),
+    to: new Date('2025-07-01T00:00:00Z'),
+    minDurationMinutes: 0,
+    ayanamsha: 'lahiri',
+    location: kolkata,
+    ...overrides,
+});
+
+describe('getRahuKalam and getYamagandam', () => {
+    it('take the eighth of the daytime given for the weekday', () => {
+        const { sunrise, sunset } = getRiseSetTimes(wednesday, kolkata.timeZone, kolkata);
+        const eighth = (sunset!.getTime() - sunrise!.getTime()) / 8;
+
+        // On Wednesdays Rahu Kalam is the fifth part and Yamagandam the second.
+        expect(getRahuKalam(wednesday, kolkata.timeZone, kolkata)).toEqual({
+            start: new Date(sunrise!.getTime() + 4 * eighth),
+            end: new Date(sunrise!.getTime() + 5 * eighth),
+        });
+        expect(getYamagandam(wednesday, kolkata.timeZone, kolkata)).toEqual({
+            start: new Date(sunrise!.getTime() + eighth),
+            end: new Date(sunrise!.getTime() + 2 * eighth),
+        });
+    });
+
+    it('return null when the Sun does not set', () => {
+        const tromso = { latitude: 69.65, longitude: 18.96 };
+        expect(getRahuKalam({ year: 2025, month: 6, day: 21 }, 'Europe/Oslo', tromso)).toBeNull();
+    });
+});
+
+describe('findMuhurtaWindows', () => {
+    it('finds Swathi in shukla paksha on a weekday outside Rahu Kalam', async () => {
+        const windows = await findMuhurtaWindows(query([
+            { condition: { type: 'nakshatra', nakshatras: [15] }, exclude: false },
+            { condition: { type: 'paksha', paksha: 'shukla' }, exclude: false },
+            { condition: { type: 'rahu-kalam' }, exclude: true },
+            { condition: { type: 'weekday', weekdays: [1, 2, 3, 4, 5] }, exclude: false },
+        ]));
+
+        expect(windows.length).toBeGreaterThan(0);
+        for (const window of windows) {
+            const midpoint = new Date((window.start.getTime() + window.end.getTime()) / 2);
+            const day = getCalendarDate(midpoint, kolkata.timeZone);
+            const tithi = getPanchang(day, kolkata.timeZone).tithis.find(element => element.start <= midpoint && midpoint < element.end);
+            const rahuKalam = getRahuKalam(day, kolkata.timeZone, kolkata)!;
+
+            expect(getNakshatraAtLongitude(getMoonSiderealLongitude(midpoint, 'lahiri')).number).toBe(15);
+            expect(tithi!.number).toBeLessThanOrEqual(15);
+            expect([1, 2, 3, 4, 5]).toContain(getWeekday(day));
+            expect(window.end <= rahuKalam.start || window.start >= rahuKalam.end).toBe(true);
+        }
+    });
+
+    it('returns sorted windows clipped to the range', async () => {
+        const from = new Date('2025-01-01T00:00:00Z');
+        const to = new Date('2025-03-01T00:00:00Z');
+        const windows = await findMuhurtaWindows(
+            query([{ condition: { type: 'tithi', tithis: [11, 26] }, exclude: false }], { from, to }),
+        );
+
+        // Two ekadashis a month.
+        expect(windows.length).toBeGreaterThanOrEqual(4);
+        expect(windows[0].start >= from).toBe(true);
+        expect(windows[windows.length - 1].end <= to).toBe(true);
+        windows.slice(1).forEach((window, i) => expect(window.start > windows[i].end).toBe(true));
+    });
+
+    it('leaves out windows shorter than the minimum duration', async () => {
+        const rules: MuhurtaRule[] = [
+            { condition: { type: 'weekday', weekdays: [0] }, exclude: false },
+            { condition: { type: 'yamagandam' }, exclude: true },
+        ];
+        const all = await findMuhurtaWindows(query(rules));
+        const long = await findMuhurtaWindows(query(rules, { minDurationMinutes: 11 * 60 }));
+
+        expect(all.length).toBeGreaterThan(long.length);
+        long.forEach(window => expect(window.end.getTime() - window.start.getTime()).toBeGreaterThanOrEqual(11 * 3600000));
+    });
+
+    it('restricts the search to a lunar month', async () => {
+        const windows = await findMuhurtaWindows(query([{ condition: { type: 'masa', masas: [1] }, exclude: false }]));
+
+        expect(windows).toHaveLength(1);
+        expect(windows[0].start.toISOString()).toMatch(/^2025-03-29/);
+    });
+
+    it('rejects empty and overlong ranges and Rahu Kalam without coordinates', async () => {
+        await expect(findMuhurtaWindows(query([], { to: new Date('2024-12-01T00:00:00Z') }))).rejects.toThrow(RangeError);
+        await expect(findMuhurtaWindows(query([], { to: new Date('2026-06-01T00:00:00Z') }))).rejects.toThrow(RangeError);
+        await expect(
+            findMuhurtaWindows(query([{ condition: { type: 'rahu-kalam' }, exclude: true }], {
+                location: { label: 'UTC', timeZone: 'UTC' },
+            })),
+        ).rejects.toThrow('latitude and longitude');
+    });
+});
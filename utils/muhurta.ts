@@ -0,0 +1,139 @@
+import type { CalendarDate, GeoCoordinates, MuhurtaCondition, MuhurtaQuery, TimeInterval } from '../types';
+import { complementIntervals, intersectIntervals, mergeIntervals } from './intervals';
+import { findLunarMonths } from './masa';
+import { findNakshatras, findTithis } from './panchang';
+import { getRiseSetTimes, hasCoordinates } from './rise-set';
+import { addDays, getCalendarDate, getDayBounds, getWeekday } from './time-zone';
+
+/** Searches are limited to a year so a query cannot tie up the calculator indefinitely. */
+export const MAX_MUHURTA_SEARCH_DAYS = 366;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Which eighth of the daytime (1-8) each period falls in, indexed by weekday from Sunday.
+const RAHU_KALAM_PARTS = [8, 2, 7, 5, 6, 4, 3];
+const YAMAGANDAM_PARTS = [5, 4, 3, 2, 1, 7, 6];
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/**
+ * Divides the time from sunrise to sunset into eight equal parts and returns the one given for the weekday.
+ */
+const getDaytimePart = (
+    date: CalendarDate,
+    timeZone: string,
+    observer: GeoCoordinates,
+    parts: readonly number[],
+): TimeInterval | null => {
+    const { sunrise, sunset } = getRiseSetTimes(date, timeZone, observer);
+    if (!sunrise || !sunset || sunset <= sunrise) return null;
+    const eighth = (sunset.getTime() - sunrise.getTime()) / 8;
+    const part = parts[getWeekday(date)];
+    return {
+        start: new Date(sunrise.getTime() + (part - 1) * eighth),
+        end: new Date(sunrise.getTime() + part * eighth),
+    };
+};
+
+/**
+ * Finds Rahu Kalam, the inauspicious eighth of the daytime ruled by Rahu, on a local day.
+ * @param date The local calendar day.
+ * @param timeZone The IANA time zone that defines the day.
+ * @param observer The observer's latitude and longitude.
+ * @returns The period, or null if the Sun does not both rise and set that day.
+ */
+export const getRahuKalam = (date: CalendarDate, timeZone: string, observer: GeoCoordinates): TimeInterval | null => {
+    return getDaytimePart(date, timeZone, observer, RAHU_KALAM_PARTS);
+};
+
+/**
+ * Finds Yamagandam, the eighth of the daytime ruled by Yama, on a local day.
+ * @param date The local calendar day.
+ * @param timeZone The IANA time zone that defines the day.
+ * @param observer The observer's latitude and longitude.
+ * @returns The period, or null if the Sun does not both rise and set that day.
+ */
+export const getYamagandam = (date: CalendarDate, timeZone: string, observer: GeoCoordinates): TimeInterval | null => {
+    return getDaytimePart(date, timeZone, observer, YAMAGANDAM_PARTS);
+};
+
+/**
+ * Lists the local calendar days that overlap a range, in order.
+ */
+const listDays = (range: TimeInterval, timeZone: string): CalendarDate[] => {
+    const days: CalendarDate[] = [];
+    for (let day = getCalendarDate(range.start, timeZone); getDayBounds(day, timeZone).start < range.end; day = addDays(day, 1)) {
+        days.push(day);
+    }
+    return days;
+};
+
+/**
+ * Finds when a condition holds during a range. The intervals may extend past the range.
+ */
+const findConditionIntervals = (condition: MuhurtaCondition, range: TimeInterval, query: MuhurtaQuery): TimeInterval[] => {
+    const { ayanamsha, location } = query;
+    switch (condition.type) {
+        case 'nakshatra':
+            return findNakshatras(range.start, range.end, ayanamsha).filter(element =>
+                condition.nakshatras.includes(element.number),
+            );
+        case 'tithi':
+            return findTithis(range.start, range.end).filter(element => condition.tithis.includes(element.number));
+        case 'paksha':
+            return findTithis(range.start, range.end).filter(element =>
+                condition.paksha === 'shukla' ? element.number <= 15 : element.number > 15,
+            );
+        case 'weekday':
+            return listDays(range, location.timeZone)
+                .filter(day => condition.weekdays.includes(getWeekday(day)))
+                .map(day => getDayBounds(day, location.timeZone));
+        case 'masa':
+            return findLunarMonths(range.start, range.end, ayanamsha).filter(month => condition.masas.includes(month.number));
+        case 'rahu-kalam':
+        case 'yamagandam': {
+            if (!hasCoordinates(location)) {
+                const name = condition.type === 'rahu-kalam' ? 'Rahu Kalam' : 'Yamagandam';
+                throw new Error(`${name} depends on sunrise, so the location needs a latitude and longitude`);
+            }
+            const findPart = condition.type === 'rahu-kalam' ? getRahuKalam : getYamagandam;
+            return listDays(range, location.timeZone)
+                .map(day => findPart(day, location.timeZone, location))
+                .filter((interval): interval is TimeInterval => interval !== null);
+        }
+    }
+};
+
+/**
+ * Searches a range for the windows in which every rule of a query holds at once.
+ * Each rule is turned into the intervals when its condition holds (or, for an excluded rule,
+ * the gaps between them) and the results are intersected.
+ * Throws a RangeError if the range is empty or longer than MAX_MUHURTA_SEARCH_DAYS, and an
+ * Error if a rule needs coordinates that the location lacks.
+ * @param query The rules and the range to search.
+ * @param signal Cancels the search; it is checked between rules.
+ * @returns The windows in order, clipped to the range.
+ */
+export const findMuhurtaWindows = async (query: MuhurtaQuery, signal?: AbortSignal): Promise<TimeInterval[]> => {
+    const range: TimeInterval = { start: query.from, end: query.to };
+    if (range.end <= range.start) {
+        throw new RangeError('The search must end after it starts');
+    }
+    if (range.end.getTime() - range.start.getTime() > MAX_MUHURTA_SEARCH_DAYS * MS_PER_DAY) {
+        throw new RangeError(`Searches are limited to ${MAX_MUHURTA_SEARCH_DAYS} days`);
+    }
+
+    let windows: TimeInterval[] = [range];
+    for (const rule of query.rules) {
+        if (signal) {
+            await yieldToEventLoop();
+            signal.throwIfAborted();
+        }
+        const holds = mergeIntervals(findConditionIntervals(rule.condition, range, query));
+        windows = intersectIntervals(windows, rule.exclude ? complementIntervals(holds, range) : holds);
+        if (windows.length === 0) break;
+    }
+
+    const minDurationMs = query.minDurationMinutes * 60 * 1000;
+    return windows.filter(window => window.end.getTime() - window.start.getTime() >= minDurationMs);
+};
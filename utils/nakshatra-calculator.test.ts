@@ -0,0 +1,192 @@
+import { describe, expect, it } from 'vitest';
+import {
+    findCurrentOrNextNakshatraPeriod,
+    findCurrentOrNextSwathiPeriod,
+    findNakshatraPeriods,
+    findTransitPeriods,
+} from './nakshatra-calculator';
+import { getMoonSiderealLongitude } from './sidereal';
+import { PADA_SPAN_DEGREES, getNakshatra, getNavamsaRashiNumber, isInNakshatra } from './nakshatras';
+import {
+    ASHWINI_REFERENCE_PERIOD,
+    REFERENCE_TOLERANCE_MS,
+    REVATI_REFERENCE_PERIOD,
+    SWATHI_REFERENCE_PERIODS,
+} from './__fixtures__/reference-periods';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const expectWithinTolerance = (actual: Date, expectedIso: string) => {
+    expect(Math.abs(actual.getTime() - Date.parse(expectedIso))).toBeLessThanOrEqual(REFERENCE_TOLERANCE_MS);
+};
+
+describe('findCurrentOrNextSwathiPeriod', () => {
+    it.each(SWATHI_REFERENCE_PERIODS)('matches the reference period starting $start', async reference => {
+        const searchFrom = new Date(Date.parse(reference.start) - 3 * DAY_MS);
+        const period = await findCurrentOrNextSwathiPeriod(searchFrom);
+
+        expect(period.nakshatra).toBe(15);
+        expectWithinTolerance(period.start, reference.start);
+        expectWithinTolerance(period.end, reference.end);
+    });
+
+    it('finds the surrounding period when the search starts inside Swathi', async () => {
+        const reference = SWATHI_REFERENCE_PERIODS[6];
+        const midpoint = new Date((Date.parse(reference.start) + Date.parse(reference.end)) / 2);
+        const period = await findCurrentOrNextSwathiPeriod(midpoint);
+
+        expect(period.start.getTime()).toBeLessThan(midpoint.getTime());
+        expect(period.end.getTime()).toBeGreaterThan(midpoint.getTime());
+        expectWithinTolerance(period.start, reference.start);
+        expectWithinTolerance(period.end, reference.end);
+    });
+
+    it('returns the same period whether searching from before it or from inside it', async () => {
+        const before = await findCurrentOrNextSwathiPeriod(new Date('2025-01-20T00:00:00Z'));
+        const inside = await findCurrentOrNextSwathiPeriod(new Date(before.start.getTime() + 6 * HOUR_MS));
+
+        expect(Math.abs(inside.start.getTime() - before.start.getTime())).toBeLessThanOrEqual(1000);
+        expect(Math.abs(inside.end.getTime() - before.end.getTime())).toBeLessThanOrEqual(1000);
+    });
+
+    it('resolves boundaries to the second', async () => {
+        const period = await findCurrentOrNextSwathiPeriod(new Date('2025-01-20T00:00:00Z'));
+        const swathi = getNakshatra(15);
+
+        expect(isInNakshatra(getMoonSiderealLongitude(period.start), swathi)).toBe(true);
+        expect(isInNakshatra(getMoonSiderealLongitude(new Date(period.start.getTime() - 1000)), swathi)).toBe(false);
+        expect(isInNakshatra(getMoonSiderealLongitude(new Date(period.end.getTime() - 1000)), swathi)).toBe(true);
+        expect(isInNakshatra(getMoonSiderealLongitude(period.end), swathi)).toBe(false);
+    });
+
+    it('treats a start time exactly on the boundary as inside the period', async () => {
+        const period = await findCurrentOrNextSwathiPeriod(new Date('2025-01-20T00:00:00Z'));
+        const fromBoundary = await findCurrentOrNextSwathiPeriod(period.start);
+
+        expect(fromBoundary.start.getTime()).toBe(period.start.getTime());
+        expect(Math.abs(fromBoundary.end.getTime() - period.end.getTime())).toBeLessThanOrEqual(1000);
+    });
+
+    it('moves on to the following period when starting exactly at the end boundary', async () => {
+        const period = await findCurrentOrNextSwathiPeriod(new Date('2025-01-20T00:00:00Z'));
+        const next = await findCurrentOrNextSwathiPeriod(period.end);
+
+        expect(next.start.getTime() - period.start.getTime()).toBeGreaterThan(25 * DAY_MS);
+        expect(next.start.getTime() - period.start.getTime()).toBeLessThan(29 * DAY_MS);
+    });
+});
+
+describe('findCurrentOrNextNakshatraPeriod', () => {
+    it('handles the 0°/360° wraparound from Revati into Ashwini', async () => {
+        const revati = await findCurrentOrNextNakshatraPeriod(27, new Date('2025-01-05T00:00:00Z'));
+        const ashwini = await findCurrentOrNextNakshatraPeriod(1, new Date('2025-01-05T00:00:00Z'));
+
+        expectWithinTolerance(revati.start, REVATI_REFERENCE_PERIOD.start);
+        expectWithinTolerance(revati.end, REVATI_REFERENCE_PERIOD.end);
+        expectWithinTolerance(ashwini.start, ASHWINI_REFERENCE_PERIOD.start);
+        expectWithinTolerance(ashwini.end, ASHWINI_REFERENCE_PERIOD.end);
+        expect(Math.abs(ashwini.start.getTime() - revati.end.getTime())).toBeLessThanOrEqual(1000);
+    });
+
+    it('splits the period into four contiguous padas', async () => {
+        const period = await findCurrentOrNextSwathiPeriod(new Date('2025-01-01T00:00:00Z'));
+
+        expect(period.padas.map(pada => pada.pada)).toEqual([1, 2, 3, 4]);
+        expect(period.padas[0].start).toEqual(period.start);
+        expect(period.padas[3].end).toEqual(period.end);
+        for (let i = 1; i < 4; i++) {
+            expect(period.padas[i].start).toEqual(period.padas[i - 1].end);
+            expect(period.padas[i].start.getTime()).toBeGreaterThan(period.padas[i - 1].start.getTime());
+            const offset = getMoonSiderealLongitude(period.padas[i].start) - getNakshatra(15).startDegrees;
+            expect(offset).toBeCloseTo(i * PADA_SPAN_DEGREES, 3);
+        }
+    });
+
+    it('reports the duration and the Moon halfway through, consistent with its mean speed', async () => {
+        const period = await findCurrentOrNextSwathiPeriod(new Date('2025-01-01T00:00:00Z'));
+        const averageSpeed = getNakshatra(15).endDegrees - getNakshatra(15).startDegrees;
+
+        expect(period.durationMs).toBe(period.end.getTime() - period.start.getTime());
+        expect(period.moonAtMidpoint.distance).toBeGreaterThan(356000);
+        expect(period.moonAtMidpoint.distance).toBeLessThan(407000);
+        expect(Math.abs(period.moonAtMidpoint.latitude)).toBeLessThan(5.3);
+        expect(period.moonAtMidpoint.speed).toBeCloseTo(averageSpeed / (period.durationMs / DAY_MS), 0);
+    });
+
+    it("labels Swathi's padas with the Dhanu to Meena navamsas", async () => {
+        const period = await findCurrentOrNextSwathiPeriod(new Date('2025-01-01T00:00:00Z'));
+        expect(period.padas.map(pada => pada.navamsa)).toEqual([9, 10, 11, 12]);
+    });
+
+    it('labels the period with the months at its midpoint', async () => {
+        // 22 January 2025 falls in the dark half of Pausha, after the Sun entered Makara.
+        const period = await findCurrentOrNextSwathiPeriod(new Date('2025-01-01T00:00:00Z'));
+        expect(period.masa).toEqual({
+            amanta: { number: 10, name: 'Pausha', isAdhika: false },
+            purnimanta: { number: 11, name: 'Magha', isAdhika: false },
+            solar: { number: 10, name: 'Makara' },
+        });
+    });
+
+    it('rejects nakshatra numbers outside 1-27', async () => {
+        await expect(findCurrentOrNextNakshatraPeriod(0, new Date())).rejects.toThrow(RangeError);
+        await expect(findCurrentOrNextNakshatraPeriod(28, new Date())).rejects.toThrow(RangeError);
+    });
+});
+
+describe('findNakshatraPeriods', () => {
+    it('lists every Swathi period in a year, back to back with no gaps or overlaps', async () => {
+        const periods = await findNakshatraPeriods(15, new Date('2025-01-01T00:00:00Z'), new Date('2026-01-01T00:00:00Z'));
+
+        expect(periods).toHaveLength(13);
+        expectWithinTolerance(periods[0].start, SWATHI_REFERENCE_PERIODS[6].start);
+        expectWithinTolerance(periods[1].start, SWATHI_REFERENCE_PERIODS[7].start);
+        for (let i = 1; i < periods.length; i++) {
+            expect(periods[i].start.getTime()).toBeGreaterThan(periods[i - 1].end.getTime());
+        }
+    });
+});
+
+describe('findTransitPeriods', () => {
+    it('lists consecutive nakshatras with each ending where the next begins', async () => {
+        const from = new Date('2025-01-01T00:00:00Z');
+        const periods = await findTransitPeriods(from, new Date('2025-02-01T00:00:00Z'));
+
+        expect(periods.length).toBeGreaterThanOrEqual(28);
+        expect(periods[0].start.getTime()).toBeLessThanOrEqual(from.getTime());
+        expect(isInNakshatra(getMoonSiderealLongitude(from), getNakshatra(periods[0].nakshatra))).toBe(true);
+        for (let i = 1; i < periods.length; i++) {
+            expect(periods[i].nakshatra).toBe((periods[i - 1].nakshatra % 27) + 1);
+            expect(Math.abs(periods[i].start.getTime() - periods[i - 1].end.getTime())).toBeLessThanOrEqual(1000);
+        }
+    });
+
+    it('matches the single-star search for Swathi', async () => {
+        const from = new Date('2025-01-01T00:00:00Z');
+        const to = new Date('2025-03-01T00:00:00Z');
+        const swathi = (await findTransitPeriods(from, to)).filter(period => period.nakshatra === 15);
+        const expected = await findNakshatraPeriods(15, from, to);
+
+        // Both searches bisect to the second, from different starting brackets.
+        expect(swathi).toHaveLength(expected.length);
+        swathi.forEach((period, i) => {
+            expect(Math.abs(period.start.getTime() - expected[i].start.getTime())).toBeLessThanOrEqual(1000);
+            expect(Math.abs(period.end.getTime() - expected[i].end.getTime())).toBeLessThanOrEqual(1000);
+        });
+    });
+
+    it('never repeats a nakshatra or returns an empty period', async () => {
+        const periods = await findTransitPeriods(new Date('2025-01-01T00:00:00Z'), new Date('2025-04-01T00:00:00Z'));
+
+        for (let i = 0; i < periods.length; i++) {
+            expect(periods[i].end.getTime()).toBeGreaterThan(periods[i].start.getTime());
+            if (i > 0) expect(periods[i].nakshatra).not.toBe(periods[i - 1].nakshatra);
+        }
+    });
+
+    it('leaves out the months, which only the single-star search names', async () => {
+        const periods = await findTransitPeriods(new Date('2025-01-01T00:00:00Z'), new Date('2025-01-08T00:00:00Z'));
+        expect(periods.every(period => period.masa === undefined)).toBe(true);
+    });
+});
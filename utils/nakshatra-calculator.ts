@@ -1,137 +1,162 @@
-import type { NakshatraPeriod } from '../types';
+import type { AyanamshaSystem, NakshatraPeriod, PadaPeriod } from '../types';
+import { PADA_SPAN_DEGREES, SWATHI, getNakshatra, getNakshatraAtLongitude, getNavamsaRashiNumber } from './nakshatras';
+import { getMoonState } from './ephemeris';
+import { MOON_DAILY_MOTION, findCurrentOrNextArc, findNextCrossing } from './boundary-solver';
+import type { AngularMotion } from './boundary-solver';
+import { DEFAULT_AYANAMSHA } from './ayanamsha';
+import { getMoonSiderealLongitude } from './sidereal';
+import { getPeriodMasa } from './masa';
 
-declare global {
-    interface Window {
-        SunCalc: any;
-    }
-}
+const getLunarMotion = (ayanamsha: AyanamshaSystem): AngularMotion => ({
+    angleAt: (date: Date) => getMoonSiderealLongitude(date, ayanamsha),
+    ...MOON_DAILY_MOTION,
+});
 
-// A Nakshatra is 13° 20' (or 13.333 degrees)
-const NAKSHATRA_SPAN_DEGREES = 360 / 27;
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
 
-// Swathi is the 15th Nakshatra. Nakshatras start from 0 degrees at the First Point of Aries.
-// The calculation is (15 - 1) * 13.333...
-const SWATHI_START_DEGREES_TROPICAL = (15 - 1) * NAKSHATRA_SPAN_DEGREES;
-const SWATHI_END_DEGREES_TROPICAL = 15 * NAKSHATRA_SPAN_DEGREES;
+const getMidpoint = (start: Date, end: Date) => new Date((start.getTime() + end.getTime()) / 2);
 
 /**
- * Calculates the Lahiri Ayanamsha for a given date.
- * Ayanamsha is the difference between the Tropical (seasonal) and Sidereal (fixed star) zodiacs.
- * This is a simplified model but accurate enough for this purpose.
- * @param date The date for which to calculate the Ayanamsha.
- * @returns The Ayanamsha value in degrees.
+ * Splits a nakshatra period into its four padas by solving for the three inner boundaries.
  */
-const getLahiriAyanamsha = (date: Date): number => {
-    // Lahiri Ayanamsha for J2000.0 (Jan 1, 2000, 12:00 UT)
-    const AYANAMSHA_AT_J2000 = 23.85575;
-    const J2000 = new Date('2000-01-01T12:00:00Z');
-    
-    // The precession rate is approx 50.29 arcseconds per year.
-    const PRECESSION_RATE_DEG_PER_YEAR = 50.29 / 3600;
-    
-    const yearsSinceJ2000 = (date.getTime() - J2000.getTime()) / (1000 * 60 * 60 * 24 * 365.25);
-    
-    return AYANAMSHA_AT_J2000 + (yearsSinceJ2000 * PRECESSION_RATE_DEG_PER_YEAR);
+const findPadas = (
+    motion: AngularMotion,
+    nakshatraNumber: number,
+    startDegrees: number,
+    start: Date,
+    end: Date,
+): PadaPeriod[] => {
+    const boundaries = [start];
+    for (let pada = 1; pada < 4; pada++) {
+        const crossing = findNextCrossing(motion, startDegrees + pada * PADA_SPAN_DEGREES, boundaries[pada - 1]);
+        // Both searches are only accurate to the second, so keep the boundaries in order.
+        boundaries.push(new Date(Math.min(Math.max(crossing.getTime(), boundaries[pada - 1].getTime()), end.getTime())));
+    }
+    boundaries.push(end);
+
+    return [1, 2, 3, 4].map(pada => ({
+        pada,
+        navamsa: getNavamsaRashiNumber(nakshatraNumber, pada),
+        start: boundaries[pada - 1],
+        end: boundaries[pada],
+    }));
 };
 
 /**
- * Gets the Moon's sidereal longitude for a given date.
- * It uses SunCalc to get the tropical longitude and then applies the Ayanamsha correction.
- * @param date The date for which to get the longitude.
- * @returns The sidereal longitude in degrees.
+ * Finds the current or next period of a nakshatra with its padas, but without its months.
+ * Each boundary is bracketed using the Moon's speed limits and then bisected to the second,
+ * which takes a few dozen longitude evaluations per period.
  */
-const getLunarSiderealLongitude = (date: Date): number => {
-    if (typeof window.SunCalc === 'undefined') {
-        throw new Error("SunCalc library is not loaded. Please check the script tag in your HTML file.");
-    }
-    const moonPosition = window.SunCalc.getMoonPosition(date);
-    // SunCalc returns longitude in radians, convert to degrees
-    const tropicalLongitude = moonPosition.eclipticLon * (180 / Math.PI);
-    
-    const ayanamsha = getLahiriAyanamsha(date);
-    
-    let siderealLongitude = tropicalLongitude - ayanamsha;
-    
-    // Normalize to 0-360 degrees
-    if (siderealLongitude < 0) {
-        siderealLongitude += 360;
-    }
-    
-    return siderealLongitude;
+const findPeriodWithoutMasa = (nakshatraNumber: number, startDate: Date, ayanamsha: AyanamshaSystem): NakshatraPeriod => {
+    const nakshatra = getNakshatra(nakshatraNumber);
+    const motion = getLunarMotion(ayanamsha);
+    const { start, end } = findCurrentOrNextArc(motion, nakshatra.startDegrees, nakshatra.endDegrees, startDate);
+    return {
+        nakshatra: nakshatra.number,
+        start,
+        end,
+        durationMs: end.getTime() - start.getTime(),
+        moonAtMidpoint: getMoonState(getMidpoint(start, end)),
+        padas: findPadas(motion, nakshatra.number, nakshatra.startDegrees, start, end),
+    };
 };
 
 /**
- * Checks if a given longitude falls within the Swathi Nakshatra boundaries.
- * @param longitude The longitude in degrees to check.
- * @returns True if the longitude is within Swathi, false otherwise.
+ * Asynchronously finds the current or next period of the given nakshatra, with its padas and
+ * the months it falls in. Naming the months takes several new and full moon searches on top
+ * of the boundary searches.
+ * @param nakshatraNumber The 1-based number of the nakshatra to search for (Swathi = 15).
+ * @param startDate The date from which to start searching.
+ * @param ayanamsha The ayanamsha system used to convert to sidereal longitude.
+ * @returns A promise that resolves to a NakshatraPeriod object.
  */
-const isSwathi = (longitude: number): boolean => {
-    return longitude >= SWATHI_START_DEGREES_TROPICAL && longitude < SWATHI_END_DEGREES_TROPICAL;
-}
+export const findCurrentOrNextNakshatraPeriod = async (
+    nakshatraNumber: number,
+    startDate: Date,
+    ayanamsha: AyanamshaSystem = DEFAULT_AYANAMSHA,
+): Promise<NakshatraPeriod> => {
+    const period = findPeriodWithoutMasa(nakshatraNumber, startDate, ayanamsha);
+    return { ...period, masa: getPeriodMasa(getMidpoint(period.start, period.end), ayanamsha) };
+};
 
 /**
- * Asynchronously finds the current or next Swathi Nakshatra period.
- * It performs an iterative search to find the precise start and end times.
+ * Finds the current or next Swathi Nakshatra period.
  * @param startDate The date from which to start searching.
  * @returns A promise that resolves to a NakshatraPeriod object.
  */
-export const findCurrentOrNextSwathiPeriod = async (startDate: Date): Promise<NakshatraPeriod> => {
-    let currentDate = new Date(startDate);
-    
-    // The Moon moves about 0.5 degrees per hour. Start with a coarse search.
-    const coarseStep = 60 * 60 * 1000; // 1 hour
-    const fineStep = 60 * 1000; // 1 minute
-    
-    let longitude = getLunarSiderealLongitude(currentDate);
+export const findCurrentOrNextSwathiPeriod = (startDate: Date): Promise<NakshatraPeriod> => {
+    return findCurrentOrNextNakshatraPeriod(SWATHI, startDate);
+};
 
-    // If we are currently in Swathi, we need to find the start and end of this period.
-    if (isSwathi(longitude)) {
-        // Find the start by going backwards
-        let startFinder = new Date(currentDate);
-        while (isSwathi(getLunarSiderealLongitude(startFinder))) {
-            startFinder.setTime(startFinder.getTime() - coarseStep);
-        }
-        // Refine to the minute
-        while (!isSwathi(getLunarSiderealLongitude(startFinder))) {
-            startFinder.setTime(startFinder.getTime() + fineStep);
-        }
-        const periodStart = startFinder;
+/**
+ * Finds every period of the given nakshatra that overlaps a date range.
+ * The first period may have started before `from` if the Moon is already in the nakshatra.
+ * @param nakshatraNumber The 1-based number of the nakshatra to search for (Swathi = 15).
+ * @param from The start of the range.
+ * @param to The end of the range.
+ * @param ayanamsha The ayanamsha system used to convert to sidereal longitude.
+ * @param signal Cancels the search. When given, the search also yields to the event loop
+ * between periods so the cancellation can be delivered while it runs.
+ * @returns A promise that resolves to the periods in chronological order, or rejects
+ * with the signal's reason once cancelled.
+ */
+export const findNakshatraPeriods = async (
+    nakshatraNumber: number,
+    from: Date,
+    to: Date,
+    ayanamsha: AyanamshaSystem = DEFAULT_AYANAMSHA,
+    signal?: AbortSignal,
+): Promise<NakshatraPeriod[]> => {
+    const periods: NakshatraPeriod[] = [];
+    let cursor = new Date(from);
 
-        // Find the end by going forwards
-        let endFinder = new Date(currentDate);
-        while (isSwathi(getLunarSiderealLongitude(endFinder))) {
-            endFinder.setTime(endFinder.getTime() + coarseStep);
+    while (cursor < to) {
+        if (signal) {
+            await yieldToEventLoop();
+            signal.throwIfAborted();
         }
-        // Refine to the minute
-        while (isSwathi(getLunarSiderealLongitude(endFinder))) {
-            endFinder.setTime(endFinder.getTime() + fineStep);
+        const period = await findCurrentOrNextNakshatraPeriod(nakshatraNumber, cursor, ayanamsha);
+        if (period.start >= to) {
+            break;
         }
-        const periodEnd = endFinder;
-        
-        return { start: periodStart, end: periodEnd };
+        periods.push(period);
+        // The end instant is the first moment outside the nakshatra, so the next search starts there.
+        cursor = new Date(period.end);
     }
 
-    // If not in Swathi, find the start of the next period.
-    let searchDate = new Date(currentDate);
-    while (!isSwathi(getLunarSiderealLongitude(searchDate))) {
-        searchDate.setTime(searchDate.getTime() + coarseStep);
-    }
-    // Refine to the minute
-    while (isSwathi(getLunarSiderealLongitude(new Date(searchDate.getTime() - fineStep)))) {
-       searchDate.setTime(searchDate.getTime() - fineStep);
-    }
-    const periodStart = searchDate;
-    
-    // Now find the end of that period
-    let endFinder = new Date(periodStart);
-    while(isSwathi(getLunarSiderealLongitude(endFinder))) {
-        endFinder.setTime(endFinder.getTime() + coarseStep);
-    }
-    // Refine to the minute
-    while(isSwathi(getLunarSiderealLongitude(endFinder))) {
-         endFinder.setTime(endFinder.getTime() + fineStep);
+    return periods;
+};
+
+/**
+ * Lists the Moon's transit through every nakshatra in turn over a date range.
+ * The first period may have started before `from`. The periods leave out `masa`, which would
+ * cost more than the boundaries themselves over a long range.
+ * @param from The start of the range.
+ * @param to The end of the range.
+ * @param ayanamsha The ayanamsha system used to convert to sidereal longitude.
+ * @param signal Cancels the search; see findNakshatraPeriods.
+ * @returns A promise that resolves to consecutive periods in chronological order.
+ */
+export const findTransitPeriods = async (
+    from: Date,
+    to: Date,
+    ayanamsha: AyanamshaSystem = DEFAULT_AYANAMSHA,
+    signal?: AbortSignal,
+): Promise<NakshatraPeriod[]> => {
+    const periods: NakshatraPeriod[] = [];
+    let nakshatraNumber = getNakshatraAtLongitude(getMoonSiderealLongitude(from, ayanamsha)).number;
+    let cursor = new Date(from);
+
+    while (cursor < to) {
+        if (signal) {
+            await yieldToEventLoop();
+            signal.throwIfAborted();
+        }
+        const period = findPeriodWithoutMasa(nakshatraNumber, cursor, ayanamsha);
+        periods.push(period);
+        cursor = new Date(period.end);
+        nakshatraNumber = (nakshatraNumber % 27) + 1;
     }
-    const periodEnd = endFinder;
 
-    return { start: periodStart, end: periodEnd };
+    return periods;
 };
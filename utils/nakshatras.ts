@@ -0,0 +1,103 @@
+import type { Graha, Nakshatra } from '../types';
+
+// A Nakshatra is 13° 20' (or 13.333 degrees)
+export const NAKSHATRA_SPAN_DEGREES = 360 / 27;
+
+// Each nakshatra has four padas (quarters) of 3° 20'
+export const PADA_SPAN_DEGREES = NAKSHATRA_SPAN_DEGREES / 4;
+
+// Swathi is the 15th Nakshatra and remains the default the app tracks.
+export const SWATHI = 15;
+
+const NAKSHATRA_DETAILS: ReadonlyArray<[name: string, lord: Graha, deity: string]> = [
+    ['Ashwini', 'Ketu', 'Ashwini Kumaras'],
+    ['Bharani', 'Shukra', 'Yama'],
+    ['Krittika', 'Surya', 'Agni'],
+    ['Rohini', 'Chandra', 'Brahma'],
+    ['Mrigashira', 'Mangala', 'Soma'],
+    ['Ardra', 'Rahu', 'Rudra'],
+    ['Punarvasu', 'Guru', 'Aditi'],
+    ['Pushya', 'Shani', 'Brihaspati'],
+    ['Ashlesha', 'Budha', 'Sarpas'],
+    ['Magha', 'Ketu', 'Pitrs'],
+    ['Purva Phalguni', 'Shukra', 'Bhaga'],
+    ['Uttara Phalguni', 'Surya', 'Aryaman'],
+    ['Hasta', 'Chandra', 'Savitr'],
+    ['Chitra', 'Mangala', 'Vishvakarma'],
+    ['Swathi', 'Rahu', 'Vayu'],
+    ['Vishakha', 'Guru', 'Indragni'],
+    ['Anuradha', 'Shani', 'Mitra'],
+    ['Jyeshtha', 'Budha', 'Indra'],
+    ['Mula', 'Ketu', 'Nirriti'],
+    ['Purva Ashadha', 'Shukra', 'Apas'],
+    ['Uttara Ashadha', 'Surya', 'Vishvadevas'],
+    ['Shravana', 'Chandra', 'Vishnu'],
+    ['Dhanishta', 'Mangala', 'Vasus'],
+    ['Shatabhisha', 'Rahu', 'Varuna'],
+    ['Purva Bhadrapada', 'Guru', 'Aja Ekapada'],
+    ['Uttara Bhadrapada', 'Shani', 'Ahirbudhnya'],
+    ['Revati', 'Budha', 'Pushan'],
+];
+
+/**
+ * All 27 nakshatras in zodiacal order, starting at 0° sidereal (the First Point of Aries).
+ */
+export const NAKSHATRAS: readonly Nakshatra[] = NAKSHATRA_DETAILS.map(([name, lord, deity], index) => ({
+    number: index + 1,
+    name,
+    lord,
+    deity,
+    startDegrees: index * NAKSHATRA_SPAN_DEGREES,
+    endDegrees: (index + 1) * NAKSHATRA_SPAN_DEGREES,
+}));
+
+/**
+ * Looks up a nakshatra by its 1-based number.
+ * @param nakshatraNumber A number between 1 (Ashwini) and 27 (Revati).
+ * @returns The matching Nakshatra entry.
+ */
+export const getNakshatra = (nakshatraNumber: number): Nakshatra => {
+    const nakshatra = NAKSHATRAS[nakshatraNumber - 1];
+    if (!nakshatra) {
+        throw new RangeError(`Nakshatra number must be between 1 and 27, got ${nakshatraNumber}`);
+    }
+    return nakshatra;
+};
+
+/**
+ * Finds the navamsa (D9) sign of a pada. The 108 padas of the zodiac map onto the 12 signs
+ * nine times over, starting from Mesha, so Ashwini pada 1 is Mesha and Swathi's padas run
+ * Dhanu, Makara, Kumbha, Meena.
+ * @param nakshatraNumber The 1-based nakshatra number.
+ * @param pada The pada, 1-4.
+ * @returns The rashi number of the navamsa, 1 (Mesha) to 12 (Meena).
+ */
+export const getNavamsaRashiNumber = (nakshatraNumber: number, pada: number): number => {
+    return (((nakshatraNumber - 1) * 4 + (pada - 1)) % 12) + 1;
+};
+
+/**
+ * Type guard for a 1-based nakshatra number, e.g. when reading settings back from storage.
+ */
+export const isNakshatraNumber = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= NAKSHATRAS.length;
+
+/**
+ * Checks if a given sidereal longitude falls within a nakshatra's boundaries.
+ * @param longitude The sidereal longitude in degrees (0-360).
+ * @param nakshatra The nakshatra to test against.
+ * @returns True if the longitude is within the nakshatra, false otherwise.
+ */
+export const isInNakshatra = (longitude: number, nakshatra: Nakshatra): boolean => {
+    return longitude >= nakshatra.startDegrees && longitude < nakshatra.endDegrees;
+};
+
+/**
+ * Finds the nakshatra containing a sidereal longitude.
+ * @param longitude The sidereal longitude in degrees (0-360).
+ * @returns The nakshatra occupying that longitude.
+ */
+export const getNakshatraAtLongitude = (longitude: number): Nakshatra => {
+    const index = Math.floor((((longitude % 360) + 360) % 360) / NAKSHATRA_SPAN_DEGREES);
+    return NAKSHATRAS[Math.min(index, NAKSHATRAS.length - 1)];
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import type { AyanamshaSystem } from '../types';
+import { findNakshatraPeriods } from './nakshatra-calculator';
+import { getOccurrenceKey } from './occurrences';
+import { makePeriod } from './__fixtures__/periods';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('getOccurrenceKey', () => {
+    it('names the occurrence after a date within a day of its midpoint', () => {
+        expect(getOccurrenceKey(makePeriod(15, '2025-01-21T18:06:42Z', '2025-01-22T21:04:00Z'))).toBe('15@2025-01-22');
+    });
+
+    it('gives the same key when the period is found from different search starts', async () => {
+        const [fromBefore] = await findNakshatraPeriods(15, new Date('2025-01-10T00:00:00Z'), new Date('2025-02-01T00:00:00Z'));
+        const [fromInside] = await findNakshatraPeriods(15, new Date(fromBefore.start.getTime() + HOUR_MS), new Date('2025-02-01T00:00:00Z'));
+
+        expect(Math.abs(fromInside.start.getTime() - fromBefore.start.getTime())).toBeLessThan(2000);
+        expect(getOccurrenceKey(fromInside)).toBe(getOccurrenceKey(fromBefore));
+    });
+
+    it('gives the same keys under every ayanamsha', async () => {
+        const from = new Date('2025-01-01T00:00:00Z');
+        const to = new Date('2026-01-01T00:00:00Z');
+        const keysFor = async (ayanamsha: AyanamshaSystem) =>
+            (await findNakshatraPeriods(15, from, to, ayanamsha)).map(getOccurrenceKey);
+
+        const lahiri = await keysFor('lahiri');
+        expect(lahiri).toHaveLength(13);
+        expect(new Set(lahiri).size).toBe(13);
+        expect(await keysFor('raman')).toEqual(lahiri);
+        expect(await keysFor('fagan-bradley')).toEqual(lahiri);
+    });
+});
@@ -0,0 +1,58 @@
+import type { NakshatraPeriod } from '../types';
+import { getFundamentalArguments, getJulianCenturiesTT } from './ephemeris';
+import { getNakshatra } from './nakshatras';
+import { getCalendarDate, toIsoDateString } from './time-zone';
+
+/**
+ * Stable identifiers for occurrences of a nakshatra, shared by everything that has to recognise
+ * the same occurrence again: planner completions, stars, reminders and calendar exports.
+ */
+
+const J2000_MS = Date.UTC(2000, 0, 1, 12);
+const MS_PER_CENTURY = 36525 * 24 * 60 * 60 * 1000;
+
+// The Moon's mean longitude at J2000.0 and its mean motion in degrees per century (Meeus 47.1).
+const MOON_MEAN_LONGITUDE_AT_J2000 = 218.3164477;
+const MOON_MEAN_MOTION = 481267.88123421;
+
+// General precession in longitude, degrees per century, so the mean longitude can follow the stars.
+const PRECESSION_PER_CENTURY = 5028.796195 / 3600;
+
+// Between the supported ayanamshas, which span 22.4° to 24.7° at J2000.0.
+const MEAN_AYANAMSHA_AT_J2000 = 23.6;
+
+const MEAN_SIDEREAL_MOTION = MOON_MEAN_MOTION - PRECESSION_PER_CENTURY;
+
+/**
+ * The Moon's mean sidereal longitude, not reduced to 0-360° so that it counts whole revolutions.
+ */
+const getMeanSiderealLongitude = (date: Date): number => {
+    const T = getJulianCenturiesTT(date);
+    return getFundamentalArguments(T).Lp - PRECESSION_PER_CENTURY * T - MEAN_AYANAMSHA_AT_J2000;
+};
+
+const getNakshatraMiddle = (nakshatraNumber: number): number => {
+    const { startDegrees, endDegrees } = getNakshatra(nakshatraNumber);
+    return (startDegrees + endDegrees) / 2;
+};
+
+/**
+ * Identifies an occurrence of a nakshatra independently of its exact boundaries, which move by a
+ * second between searches and by hours between ayanamsha systems.
+ * The occurrence is counted by the Moon's mean motion: the true Moon stays within about 8° of
+ * its mean position and the ayanamshas within about 1.2° of the one assumed here, far short of
+ * the half revolution that would confuse one occurrence with the next. The key is named after the
+ * UTC date on which the mean Moon reaches the middle of the nakshatra, which is within a day of
+ * the true midpoint.
+ * @param period The period.
+ * @returns A key such as "15@2025-01-22".
+ */
+export const getOccurrenceKey = (period: NakshatraPeriod): string => {
+    const middle = getNakshatraMiddle(period.nakshatra);
+    const midpoint = new Date((period.start.getTime() + period.end.getTime()) / 2);
+    const revolution = Math.round((getMeanSiderealLongitude(midpoint) - middle) / 360);
+
+    const centuries = (middle + 360 * revolution + MEAN_AYANAMSHA_AT_J2000 - MOON_MEAN_LONGITUDE_AT_J2000) / MEAN_SIDEREAL_MOTION;
+    const nominalDate = new Date(J2000_MS + centuries * MS_PER_CENTURY);
+    return `${period.nakshatra}@${toIsoDateString(getCalendarDate(nominalDate, 'UTC'))}`;
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { findKaranas, findTithis, getKaranaName, getPanchang, getTithiName } from './panchang';
+
+const MINUTE_MS = 60 * 1000;
+
+describe('tithi and karana names', () => {
+    it('names both pakshas and the two special tithis', () => {
+        expect(getTithiName(1)).toBe('Shukla Pratipada');
+        expect(getTithiName(11)).toBe('Shukla Ekadashi');
+        expect(getTithiName(15)).toBe('Purnima');
+        expect(getTithiName(16)).toBe('Krishna Pratipada');
+        expect(getTithiName(30)).toBe('Amavasya');
+    });
+
+    it('cycles the movable karanas between the fixed ones', () => {
+        expect(getKaranaName(1)).toBe('Kimstughna');
+        expect(getKaranaName(2)).toBe('Bava');
+        expect(getKaranaName(8)).toBe('Vishti');
+        expect(getKaranaName(9)).toBe('Bava');
+        expect(getKaranaName(57)).toBe('Vishti');
+        expect(getKaranaName(60)).toBe('Naga');
+    });
+});
+
+describe('findTithis', () => {
+    // New moon 2025-01-29 12:36 UTC and full moon 2025-01-13 22:27 UTC (published lunar phases).
+    it('ends Amavasya at the new moon', () => {
+        const tithis = findTithis(new Date('2025-01-29T00:00:00Z'), new Date('2025-01-29T23:00:00Z'));
+        const amavasya = tithis.find(tithi => tithi.number === 30);
+        expect(amavasya).toBeDefined();
+        expect(Math.abs(amavasya!.end.getTime() - Date.parse('2025-01-29T12:36:00Z'))).toBeLessThan(3 * MINUTE_MS);
+        expect(tithis[tithis.length - 1].name).toBe('Shukla Pratipada');
+    });
+
+    it('begins Purnima a tithi before the full moon and ends it at the full moon', () => {
+        const tithis = findTithis(new Date('2025-01-13T12:00:00Z'), new Date('2025-01-14T00:00:00Z'));
+        const purnima = tithis.find(tithi => tithi.number === 15);
+        expect(Math.abs(purnima!.end.getTime() - Date.parse('2025-01-13T22:27:00Z'))).toBeLessThan(3 * MINUTE_MS);
+    });
+
+    it('lists contiguous tithis covering the whole range', () => {
+        const from = new Date('2025-03-01T00:00:00Z');
+        const to = new Date('2025-03-08T00:00:00Z');
+        const tithis = findTithis(from, to);
+        expect(tithis[0].start.getTime()).toBeLessThanOrEqual(from.getTime());
+        expect(tithis[tithis.length - 1].end.getTime()).toBeGreaterThanOrEqual(to.getTime());
+        for (let i = 1; i < tithis.length; i++) {
+            expect(tithis[i].start.getTime()).toBe(tithis[i - 1].end.getTime());
+            expect(tithis[i].number).toBe((tithis[i - 1].number % 30) + 1);
+        }
+    });
+});
+
+describe('findKaranas', () => {
+    it('fits two karanas in every tithi', () => {
+        const from = new Date('2025-03-01T00:00:00Z');
+        const to = new Date('2025-03-03T00:00:00Z');
+        const [tithi] = findTithis(from, to);
+        const karanas = findKaranas(tithi.start, tithi.end);
+        expect(karanas).toHaveLength(2);
+        expect(karanas[0].number).toBe(tithi.number * 2 - 1);
+    });
+});
+
+describe('getPanchang', () => {
+    it('covers the local day with every limb', () => {
+        const panchang = getPanchang({ year: 2025, month: 1, day: 22 }, 'Asia/Kolkata');
+
+        expect(panchang.vara).toEqual({ weekday: 3, name: 'Budhavara', lord: 'Budha' });
+        expect(panchang.dayStart.toISOString()).toBe('2025-01-21T18:30:00.000Z');
+        for (const limb of [panchang.tithis, panchang.nakshatras, panchang.yogas, panchang.karanas]) {
+            expect(limb.length).toBeGreaterThan(0);
+            expect(limb[0].start.getTime()).toBeLessThanOrEqual(panchang.dayStart.getTime());
+            expect(limb[limb.length - 1].end.getTime()).toBeGreaterThanOrEqual(panchang.dayEnd.getTime());
+        }
+        expect(panchang.nakshatras.map(nakshatra => nakshatra.name)).toContain('Swathi');
+    });
+});
@@ -0,0 +1,167 @@
+import type { AyanamshaSystem, CalendarDate, Panchang, PanchangElement, Vara } from '../types';
+import { DEFAULT_AYANAMSHA } from './ayanamsha';
+import { MOON_DAILY_MOTION, findCurrentOrNextArc, normalizeDegrees } from './boundary-solver';
+import type { AngularMotion } from './boundary-solver';
+import { getMoonPosition, getSunLongitude } from './ephemeris';
+import { NAKSHATRAS } from './nakshatras';
+import { getMoonSiderealLongitude, getSunSiderealLongitude } from './sidereal';
+import { getDayBounds, getWeekday } from './time-zone';
+
+const TITHI_NAMES = [
+    'Pratipada', 'Dwitiya', 'Tritiya', 'Chaturthi', 'Panchami',
+    'Shashthi', 'Saptami', 'Ashtami', 'Navami', 'Dashami',
+    'Ekadashi', 'Dwadashi', 'Trayodashi', 'Chaturdashi',
+];
+
+const YOGA_NAMES = [
+    'Vishkambha', 'Priti', 'Ayushman', 'Saubhagya', 'Shobhana', 'Atiganda', 'Sukarma',
+    'Dhriti', 'Shula', 'Ganda', 'Vriddhi', 'Dhruva', 'Vyaghata', 'Harshana',
+    'Vajra', 'Siddhi', 'Vyatipata', 'Variyana', 'Parigha', 'Shiva', 'Siddha',
+    'Sadhya', 'Shubha', 'Shukla', 'Brahma', 'Indra', 'Vaidhriti',
+];
+
+// The seven movable karanas repeat eight times between the first and the last three half-tithis.
+const MOVABLE_KARANA_NAMES = ['Bava', 'Balava', 'Kaulava', 'Taitila', 'Garaja', 'Vanija', 'Vishti'];
+
+const VARAS: readonly Vara[] = [
+    { weekday: 0, name: 'Ravivara', lord: 'Surya' },
+    { weekday: 1, name: 'Somavara', lord: 'Chandra' },
+    { weekday: 2, name: 'Mangalavara', lord: 'Mangala' },
+    { weekday: 3, name: 'Budhavara', lord: 'Budha' },
+    { weekday: 4, name: 'Guruvara', lord: 'Guru' },
+    { weekday: 5, name: 'Shukravara', lord: 'Shukra' },
+    { weekday: 6, name: 'Shanivara', lord: 'Shani' },
+];
+
+/**
+ * Names a tithi from its 1-based number: 1-15 are the bright half (Shukla paksha) ending at Purnima,
+ * 16-30 the dark half (Krishna paksha) ending at Amavasya.
+ */
+export const getTithiName = (tithiNumber: number): string => {
+    if (tithiNumber === 15) return 'Purnima';
+    if (tithiNumber === 30) return 'Amavasya';
+    const paksha = tithiNumber < 15 ? 'Shukla' : 'Krishna';
+    return `${paksha} ${TITHI_NAMES[(tithiNumber - 1) % 15]}`;
+};
+
+/**
+ * Names a karana from its 1-based number within the lunar month (1-60).
+ */
+export const getKaranaName = (karanaNumber: number): string => {
+    if (karanaNumber === 1) return 'Kimstughna';
+    if (karanaNumber === 58) return 'Shakuni';
+    if (karanaNumber === 59) return 'Chatushpada';
+    if (karanaNumber === 60) return 'Naga';
+    return MOVABLE_KARANA_NAMES[(karanaNumber - 2) % 7];
+};
+
+export const getYogaName = (yogaNumber: number): string => YOGA_NAMES[yogaNumber - 1];
+
+export const getVara = (weekday: number): Vara => VARAS[weekday];
+
+/**
+ * The Moon-Sun elongation drives tithi and karana. It advances between roughly 10° and 15° a day.
+ */
+export const elongationMotion: AngularMotion = {
+    angleAt: (date: Date) => normalizeDegrees(getMoonPosition(date).longitude - getSunLongitude(date)),
+    minDailyMotion: 9.5,
+    maxDailyMotion: 16,
+};
+
+/**
+ * The sum of the Sun's and Moon's sidereal longitudes drives the nitya yoga.
+ */
+const getYogaMotion = (ayanamsha: AyanamshaSystem): AngularMotion => ({
+    angleAt: (date: Date) =>
+        normalizeDegrees(getMoonSiderealLongitude(date, ayanamsha) + getSunSiderealLongitude(date, ayanamsha)),
+    minDailyMotion: 12.5,
+    maxDailyMotion: 17,
+});
+
+const getLunarMotion = (ayanamsha: AyanamshaSystem): AngularMotion => ({
+    angleAt: (date: Date) => getMoonSiderealLongitude(date, ayanamsha),
+    ...MOON_DAILY_MOTION,
+});
+
+/**
+ * Splits the circle into `segmentCount` equal arcs and lists, in order, each arc the angle
+ * occupies between `from` and `to`, with the instants it enters and leaves it.
+ */
+const listSegments = (
+    motion: AngularMotion,
+    segmentCount: number,
+    from: Date,
+    to: Date,
+    nameFor: (segmentNumber: number) => string,
+): PanchangElement[] => {
+    const span = 360 / segmentCount;
+    const elements: PanchangElement[] = [];
+    let index = Math.floor(motion.angleAt(from) / span) % segmentCount;
+    let cursor = from;
+
+    while (cursor < to) {
+        const { start, end } = findCurrentOrNextArc(motion, index * span, (index + 1) * span, cursor);
+        elements.push({ number: index + 1, name: nameFor(index + 1), start, end });
+        cursor = end;
+        index = (index + 1) % segmentCount;
+    }
+
+    return elements;
+};
+
+/**
+ * Lists the tithis in progress between two instants.
+ */
+export const findTithis = (from: Date, to: Date): PanchangElement[] => {
+    return listSegments(elongationMotion, 30, from, to, getTithiName);
+};
+
+/**
+ * Lists the karanas (half-tithis) in progress between two instants.
+ */
+export const findKaranas = (from: Date, to: Date): PanchangElement[] => {
+    return listSegments(elongationMotion, 60, from, to, getKaranaName);
+};
+
+/**
+ * Lists the nitya yogas in progress between two instants.
+ */
+export const findYogas = (from: Date, to: Date, ayanamsha: AyanamshaSystem = DEFAULT_AYANAMSHA): PanchangElement[] => {
+    return listSegments(getYogaMotion(ayanamsha), 27, from, to, getYogaName);
+};
+
+/**
+ * Lists the nakshatras the Moon passes through between two instants.
+ */
+export const findNakshatras = (from: Date, to: Date, ayanamsha: AyanamshaSystem = DEFAULT_AYANAMSHA): PanchangElement[] => {
+    return listSegments(getLunarMotion(ayanamsha), 27, from, to, n => NAKSHATRAS[n - 1].name);
+};
+
+/**
+ * Computes the five limbs of the panchangam for a local calendar day: the weekday (vara)
+ * and every tithi, nakshatra, yoga and karana in progress during it, with their start and end times.
+ * The vara here follows the civil day; traditionally it runs from sunrise to sunrise.
+ * @param date The local calendar day.
+ * @param timeZone The IANA time zone that defines the day.
+ * @param ayanamsha The ayanamsha system used for the sidereal limbs (nakshatra and yoga).
+ * @returns The panchangam for the day.
+ */
+export const getPanchang = (
+    date: CalendarDate,
+    timeZone: string,
+    ayanamsha: AyanamshaSystem = DEFAULT_AYANAMSHA,
+): Panchang => {
+    const { start, end } = getDayBounds(date, timeZone);
+
+    return {
+        date,
+        timeZone,
+        dayStart: start,
+        dayEnd: end,
+        vara: getVara(getWeekday(date)),
+        tithis: findTithis(start, end),
+        nakshatras: findNakshatras(start, end, ayanamsha),
+        yogas: findYogas(start, end, ayanamsha),
+        karanas: findKaranas(start, end),
+    };
+};
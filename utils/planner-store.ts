@@ -0,0 +1,121 @@
+import type { Observance, ObservanceCompletion, PlannerData } from '../types';
+import { isObservance, isObservanceCompletion, upgradeObservance } from './planner';
+
+/**
+ * IndexedDB persistence for the observance planner. Observances and completions live in their
+ * own object stores so ticking a checklist item writes one small record.
+ */
+
+const DATABASE_NAME = 'swathi-tracker';
+const DATABASE_VERSION = 1;
+const OBSERVANCES = 'observances';
+const COMPLETIONS = 'completions';
+const BY_OBSERVANCE = 'by-observance';
+
+let database: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+    });
+
+/**
+ * Checks whether this environment has IndexedDB at all (it is missing in some private modes).
+ */
+export const isPlannerStoreAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!database) {
+        database = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                db.createObjectStore(OBSERVANCES, { keyPath: 'id' });
+                const completions = db.createObjectStore(COMPLETIONS, { keyPath: ['observanceId', 'occurrence'] });
+                completions.createIndex(BY_OBSERVANCE, 'observanceId');
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Let a later call retry if opening failed, e.g. because the user blocked storage.
+        database.catch(() => {
+            database = null;
+        });
+    }
+    return database;
+};
+
+/**
+ * Reads the whole planner, upgrading records saved by earlier versions and skipping any that
+ * still do not match the current shape.
+ */
+export const loadPlanner = async (): Promise<PlannerData> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([OBSERVANCES, COMPLETIONS], 'readonly');
+    const [observances, completions] = await Promise.all([
+        requestToPromise<unknown[]>(transaction.objectStore(OBSERVANCES).getAll()),
+        requestToPromise<unknown[]>(transaction.objectStore(COMPLETIONS).getAll()),
+    ]);
+    return {
+        version: 1,
+        observances: observances.map(upgradeObservance).filter(isObservance),
+        completions: completions.filter(isObservanceCompletion),
+    };
+};
+
+/**
+ * Adds an observance or replaces the one with the same id.
+ */
+export const saveObservance = async (observance: Observance): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(OBSERVANCES, 'readwrite');
+    transaction.objectStore(OBSERVANCES).put(observance);
+    await transactionDone(transaction);
+};
+
+/**
+ * Deletes an observance together with its completions.
+ */
+export const deleteObservance = async (observanceId: string): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([OBSERVANCES, COMPLETIONS], 'readwrite');
+    transaction.objectStore(OBSERVANCES).delete(observanceId);
+    const completions = transaction.objectStore(COMPLETIONS);
+    const keysRequest = completions.index(BY_OBSERVANCE).getAllKeys(observanceId);
+    // Delete from the success callback so the requests are queued while the transaction is still active.
+    keysRequest.onsuccess = () => keysRequest.result.forEach(key => completions.delete(key));
+    await transactionDone(transaction);
+};
+
+/**
+ * Records progress on an observance for one occurrence.
+ */
+export const saveCompletion = async (completion: ObservanceCompletion): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(COMPLETIONS, 'readwrite');
+    transaction.objectStore(COMPLETIONS).put(completion);
+    await transactionDone(transaction);
+};
+
+/**
+ * Replaces everything in the planner, e.g. with an imported file, in a single transaction.
+ */
+export const replacePlanner = async (data: PlannerData): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([OBSERVANCES, COMPLETIONS], 'readwrite');
+    const observances = transaction.objectStore(OBSERVANCES);
+    const completions = transaction.objectStore(COMPLETIONS);
+    observances.clear();
+    completions.clear();
+    data.observances.forEach(observance => observances.put(observance));
+    data.completions.forEach(completion => completions.put(completion));
+    await transactionDone(transaction);
+};
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import type { Observance, PeriodMasa, PlannerData } from '../types';
+import {
+    getCompletion,
+    isObservedIn,
+    parseChecklist,
+    parsePlannerJson,
+    selectPlannedOccurrences,
+    serializePlanner,
+    toggleChecklistItem,
+    upsertCompletion,
+} from './planner';
+import { makePeriod } from './__fixtures__/periods';
+
+const PAUSHA: PeriodMasa = {
+    amanta: { number: 10, name: 'Pausha', isAdhika: false },
+    purnimanta: { number: 11, name: 'Magha', isAdhika: false },
+    solar: { number: 10, name: 'Makara' },
+};
+const MAGHA: PeriodMasa = {
+    amanta: { number: 11, name: 'Magha', isAdhika: false },
+    purnimanta: { number: 12, name: 'Phalguna', isAdhika: false },
+    solar: { number: 11, name: 'Kumbha' },
+};
+
+const january = makePeriod(15, '2025-01-21T18:06:00Z', '2025-01-22T21:04:00Z', PAUSHA);
+const february = makePeriod(15, '2025-02-18T02:11:00Z', '2025-02-19T04:57:00Z', MAGHA);
+
+const observance: Observance = {
+    id: 'puja',
+    title: 'Narasimha puja',
+    notes: '',
+    nakshatra: 15,
+    recurrence: { type: 'every' },
+    checklist: [
+        { id: 'flowers', text: 'Flowers' },
+        { id: 'lamp', text: 'Ghee lamp' },
+    ],
+};
+
+describe('isObservedIn', () => {
+    it('attaches "every" observances to each period of their nakshatra only', () => {
+        expect(isObservedIn(observance, january)).toBe(true);
+        expect(isObservedIn(observance, makePeriod(16, '2025-01-22T21:04:00Z', '2025-01-23T23:00:00Z'))).toBe(false);
+    });
+
+    it('attaches monthly observances by the masa of their reckoning, leaving out adhika months', () => {
+        const inMagha: Observance = { ...observance, recurrence: { type: 'masa', masa: 11, system: 'amanta' } };
+        expect(isObservedIn(inMagha, january)).toBe(false);
+        expect(isObservedIn(inMagha, february)).toBe(true);
+
+        const adhikaMagha = makePeriod(15, '2025-02-18T02:11:00Z', '2025-02-19T04:57:00Z', {
+            ...MAGHA,
+            amanta: { ...MAGHA.amanta, isAdhika: true },
+        });
+        expect(isObservedIn(inMagha, adhikaMagha)).toBe(false);
+        expect(isObservedIn(inMagha, { ...february, masa: undefined })).toBe(false);
+
+        // In the dark half of the month a purnimanta masa is already named after the next amanta one.
+        const inPurnimantaMagha: Observance = { ...observance, recurrence: { type: 'masa', masa: 11, system: 'purnimanta' } };
+        expect(isObservedIn(inPurnimantaMagha, january)).toBe(true);
+        expect(isObservedIn(inPurnimantaMagha, february)).toBe(false);
+    });
+});
+
+describe('selectPlannedOccurrences', () => {
+    const later = ['04-14', '05-11', '06-08'].map(day => makePeriod(15, `2025-${day}T00:00:00Z`, `2025-${day}T23:00:00Z`));
+    const periods = [january, february, ...later];
+
+    it('shows the next periods, and the next one of each observance beyond them', () => {
+        const inChaitra: Observance = { ...observance, id: 'chaitra', recurrence: { type: 'masa', masa: 1, system: 'amanta' } };
+
+        expect(selectPlannedOccurrences(periods, [observance], 2)).toEqual([january, february]);
+        expect(selectPlannedOccurrences(periods, [observance, inChaitra], 2)).toEqual([january, february, later[0]]);
+        expect(selectPlannedOccurrences(periods, [{ ...inChaitra, nakshatra: 16 }], 2)).toEqual([january, february]);
+    });
+});
+
+describe('completions', () => {
+    it('starts blank and is replaced on update', () => {
+        const blank = getCompletion([], 'puja', '15@2025-01-22');
+        expect(blank).toEqual({ observanceId: 'puja', occurrence: '15@2025-01-22', done: false, checkedItems: [] });
+
+        const once = upsertCompletion([], { ...blank, done: true });
+        const twice = upsertCompletion(once, { ...blank, done: false });
+        expect(twice).toHaveLength(1);
+        expect(getCompletion(twice, 'puja', '15@2025-01-22').done).toBe(false);
+    });
+
+    it('marks the observance done once every checklist item is ticked', () => {
+        const blank = getCompletion([], 'puja', '15@2025-01-22');
+        const half = toggleChecklistItem(observance, blank, 'flowers');
+        expect(half).toMatchObject({ checkedItems: ['flowers'], done: false });
+
+        const all = toggleChecklistItem(observance, half, 'lamp');
+        expect(all.done).toBe(true);
+        expect(toggleChecklistItem(observance, all, 'flowers').done).toBe(false);
+    });
+});
+
+describe('parseChecklist', () => {
+    it('makes one item per non-blank line', () => {
+        let next = 0;
+        expect(parseChecklist(' Flowers \n\nGhee lamp\n', () => `item-${next++}`)).toEqual([
+            { id: 'item-0', text: 'Flowers' },
+            { id: 'item-1', text: 'Ghee lamp' },
+        ]);
+    });
+});
+
+describe('parsePlannerJson', () => {
+    const data: PlannerData = {
+        version: 1,
+        observances: [observance],
+        completions: [{ observanceId: 'puja', occurrence: '15@2025-01-22', done: true, checkedItems: ['flowers', 'lamp'] }],
+    };
+
+    it('reads back an export', () => {
+        expect(parsePlannerJson(serializePlanner(data))).toEqual(data);
+    });
+
+    it('drops completions of observances missing from the file', () => {
+        const orphaned = { ...data, completions: [...data.completions, { ...data.completions[0], observanceId: 'gone' }] };
+        expect(parsePlannerJson(JSON.stringify(orphaned)).completions).toHaveLength(1);
+    });
+
+    it('upgrades observances exported before masas could be reckoned purnimanta', () => {
+        const withRecurrence = (recurrence: unknown) =>
+            parsePlannerJson(JSON.stringify({ ...data, observances: [{ ...observance, recurrence }] })).observances[0].recurrence;
+        expect(withRecurrence({ type: 'masa', masa: 2 })).toEqual({ type: 'masa', masa: 2, system: 'amanta' });
+        expect(withRecurrence({ type: 'month', month: 4 })).toEqual({ type: 'masa', masa: 1, system: 'amanta' });
+        expect(withRecurrence({ type: 'month', month: 1 })).toEqual({ type: 'masa', masa: 10, system: 'amanta' });
+        expect(withRecurrence({ type: 'month', month: 3 })).toEqual({ type: 'masa', masa: 12, system: 'amanta' });
+        expect(() => withRecurrence({ type: 'month', month: 13 })).toThrow('invalid observance');
+    });
+
+    it('rejects files that are not planner exports', () => {
+        expect(() => parsePlannerJson('not json')).toThrow(SyntaxError);
+        expect(() => parsePlannerJson('[]')).toThrow(TypeError);
+        expect(() => parsePlannerJson(JSON.stringify({ ...data, version: 2 }))).toThrow('Unsupported planner export version: 2');
+        expect(() =>
+            parsePlannerJson(JSON.stringify({ ...data, observances: [{ ...observance, recurrence: { type: 'masa', masa: 13, system: 'amanta' } }] })),
+        ).toThrow('invalid observance');
+        expect(() => parsePlannerJson(JSON.stringify({ ...data, observances: [{ ...observance, nakshatra: 0 }] }))).toThrow(TypeError);
+        expect(() =>
+            parsePlannerJson(JSON.stringify({ ...data, observances: [{ ...observance, recurrence: { type: 'masa', masa: 1, system: 'solar' } }] })),
+        ).toThrow('invalid observance');
+    });
+});
@@ -0,0 +1,225 @@
+import type {
+    ChecklistItem,
+    NakshatraPeriod,
+    Observance,
+    ObservanceCompletion,
+    ObservanceRecurrence,
+    PlannerData,
+} from '../types';
+import { isNakshatraNumber } from './nakshatras';
+
+/**
+ * Observances (vratas, temple visits and the like) attached to occurrences of a nakshatra.
+ */
+
+export const EMPTY_PLANNER: PlannerData = { version: 1, observances: [], completions: [] };
+
+/**
+ * Checks whether an observance falls on a period. Month-specific observances follow the amanta
+ * or purnimanta masa of the period's midpoint, so a period without its months never matches them.
+ * @param observance The observance.
+ * @param period A period of any nakshatra.
+ */
+export const isObservedIn = (observance: Observance, period: NakshatraPeriod): boolean => {
+    if (observance.nakshatra !== period.nakshatra) return false;
+    if (observance.recurrence.type === 'every') return true;
+    const month = period.masa?.[observance.recurrence.system];
+    return month !== undefined && !month.isAdhika && month.number === observance.recurrence.masa;
+};
+
+/**
+ * Chooses the occurrences to plan for: the next few periods, plus the next period of each
+ * observance that none of them carries, so an observance kept once a year is always in view.
+ * @param periods Upcoming periods of the nakshatra, in order.
+ * @param observances The observances of the nakshatra.
+ * @param count How many of the next periods to show regardless of what falls on them.
+ * @returns The chosen periods, in order.
+ */
+export const selectPlannedOccurrences = (
+    periods: NakshatraPeriod[],
+    observances: Observance[],
+    count: number,
+): NakshatraPeriod[] => {
+    const chosen = periods.slice(0, count);
+    for (const observance of observances) {
+        if (chosen.some(period => isObservedIn(observance, period))) continue;
+        const next = periods.find(period => isObservedIn(observance, period));
+        if (next) chosen.push(next);
+    }
+    return chosen.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+/**
+ * Finds the progress on an observance for an occurrence.
+ * @returns The completion, or a blank one if nothing has been recorded yet.
+ */
+export const getCompletion = (
+    completions: ObservanceCompletion[],
+    observanceId: string,
+    occurrence: string,
+): ObservanceCompletion => {
+    return (
+        completions.find(completion => completion.observanceId === observanceId && completion.occurrence === occurrence) ?? {
+            observanceId,
+            occurrence,
+            done: false,
+            checkedItems: [],
+        }
+    );
+};
+
+/**
+ * Adds or replaces the completion for its observance and occurrence.
+ */
+export const upsertCompletion = (completions: ObservanceCompletion[], completion: ObservanceCompletion): ObservanceCompletion[] => {
+    const others = completions.filter(
+        candidate => candidate.observanceId !== completion.observanceId || candidate.occurrence !== completion.occurrence,
+    );
+    return [...others, completion];
+};
+
+/**
+ * Ticks or unticks a checklist item. An observance counts as done once every item is ticked.
+ */
+export const toggleChecklistItem = (
+    observance: Observance,
+    completion: ObservanceCompletion,
+    itemId: string,
+): ObservanceCompletion => {
+    const checkedItems = completion.checkedItems.includes(itemId)
+        ? completion.checkedItems.filter(id => id !== itemId)
+        : [...completion.checkedItems, itemId];
+    const isComplete = observance.checklist.every(item => checkedItems.includes(item.id));
+    return { ...completion, checkedItems, done: observance.checklist.length > 0 ? isComplete : completion.done };
+};
+
+/**
+ * Builds a checklist from text with one item per line, ignoring blank lines.
+ */
+export const parseChecklist = (text: string, createId: () => string): ChecklistItem[] => {
+    return text
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line.length > 0)
+        .map(line => ({ id: createId(), text: line }));
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isRecurrence = (value: unknown): value is ObservanceRecurrence => {
+    if (typeof value !== 'object' || value === null) return false;
+    const candidate = value as { type?: unknown; masa?: unknown; system?: unknown };
+    if (candidate.type === 'every') return true;
+    const { masa } = candidate;
+    return (
+        candidate.type === 'masa' &&
+        typeof masa === 'number' &&
+        Number.isInteger(masa) &&
+        masa >= 1 &&
+        masa <= 12 &&
+        (candidate.system === 'amanta' || candidate.system === 'purnimanta')
+    );
+};
+
+const isChecklistItem = (value: unknown): value is ChecklistItem => {
+    if (typeof value !== 'object' || value === null) return false;
+    const candidate = value as Partial<ChecklistItem>;
+    return isString(candidate.id) && isString(candidate.text);
+};
+
+/**
+ * Rewrites a recurrence saved by an earlier version. Masa recurrences were always amanta before
+ * the reckoning could be chosen, and before that recurrences named a Gregorian month, which is
+ * mapped to the masa that mostly falls in it (April ≈ Chaitra).
+ */
+const upgradeRecurrence = (value: unknown): unknown => {
+    if (typeof value !== 'object' || value === null) return value;
+    const candidate = value as { type?: unknown; month?: unknown; system?: unknown };
+    const { month } = candidate;
+    if (candidate.type === 'month' && typeof month === 'number' && Number.isInteger(month) && month >= 1 && month <= 12) {
+        return { type: 'masa', masa: ((month - 4 + 12) % 12) + 1, system: 'amanta' };
+    }
+    if (candidate.type === 'masa' && candidate.system === undefined) {
+        return { ...candidate, system: 'amanta' };
+    }
+    return value;
+};
+
+/**
+ * Brings an observance saved or exported by an earlier version up to the current shape. Anything
+ * that is not an observance is returned unchanged, for `isObservance` to reject.
+ */
+export const upgradeObservance = (value: unknown): unknown => {
+    if (typeof value !== 'object' || value === null) return value;
+    const candidate = value as { recurrence?: unknown };
+    const recurrence = upgradeRecurrence(candidate.recurrence);
+    return recurrence === candidate.recurrence ? value : { ...candidate, recurrence };
+};
+
+/**
+ * Type guard for an observance read back from storage or an imported file.
+ */
+export const isObservance = (value: unknown): value is Observance => {
+    if (typeof value !== 'object' || value === null) return false;
+    const candidate = value as Partial<Observance>;
+    return (
+        isString(candidate.id) &&
+        isString(candidate.title) &&
+        isString(candidate.notes) &&
+        isNakshatraNumber(candidate.nakshatra) &&
+        isRecurrence(candidate.recurrence) &&
+        Array.isArray(candidate.checklist) &&
+        candidate.checklist.every(isChecklistItem)
+    );
+};
+
+/**
+ * Type guard for a completion read back from storage or an imported file.
+ */
+export const isObservanceCompletion = (value: unknown): value is ObservanceCompletion => {
+    if (typeof value !== 'object' || value === null) return false;
+    const candidate = value as Partial<ObservanceCompletion>;
+    return (
+        isString(candidate.observanceId) &&
+        isString(candidate.occurrence) &&
+        typeof candidate.done === 'boolean' &&
+        Array.isArray(candidate.checkedItems) &&
+        candidate.checkedItems.every(isString)
+    );
+};
+
+/**
+ * Writes the planner as pretty-printed JSON for export.
+ */
+export const serializePlanner = (data: PlannerData): string => JSON.stringify(data, null, 2);
+
+/**
+ * Reads an exported planner back. Throws a SyntaxError if the text is not JSON and a TypeError
+ * if it is not a planner export. Observances from earlier versions are upgraded.
+ * @param text The contents of an exported file.
+ * @returns The planner data; completions for observances that are not in the file are dropped.
+ */
+export const parsePlannerJson = (text: string): PlannerData => {
+    const value: unknown = JSON.parse(text);
+    if (typeof value !== 'object' || value === null) {
+        throw new TypeError('Not a planner export');
+    }
+    const candidate = value as { version?: unknown; observances?: unknown; completions?: unknown };
+    if (candidate.version !== 1) {
+        throw new TypeError(`Unsupported planner export version: ${String(candidate.version)}`);
+    }
+    const observances = Array.isArray(candidate.observances) ? candidate.observances.map(upgradeObservance) : null;
+    if (!observances?.every(isObservance)) {
+        throw new TypeError('The export contains an invalid observance');
+    }
+    if (!Array.isArray(candidate.completions) || !candidate.completions.every(isObservanceCompletion)) {
+        throw new TypeError('The export contains an invalid completion');
+    }
+
+    const ids = new Set(observances.map(observance => observance.id));
+    return {
+        version: 1,
+        observances,
+        completions: candidate.completions.filter(completion => ids.has(completion.observanceId)),
+    };
+};
@@ -0,0 +1,53 @@
+import type { Graha, Rashi } from '../types';
+
+// A rashi (sign) is 30 degrees
+export const RASHI_SPAN_DEGREES = 30;
+
+const RASHI_DETAILS: ReadonlyArray<[name: string, lord: Graha]> = [
+    ['Mesha', 'Mangala'],
+    ['Vrishabha', 'Shukra'],
+    ['Mithuna', 'Budha'],
+    ['Karka', 'Chandra'],
+    ['Simha', 'Surya'],
+    ['Kanya', 'Budha'],
+    ['Tula', 'Shukra'],
+    ['Vrishchika', 'Mangala'],
+    ['Dhanu', 'Guru'],
+    ['Makara', 'Shani'],
+    ['Kumbha', 'Shani'],
+    ['Meena', 'Guru'],
+];
+
+/**
+ * All 12 rashis in zodiacal order, starting at 0° sidereal.
+ */
+export const RASHIS: readonly Rashi[] = RASHI_DETAILS.map(([name, lord], index) => ({
+    number: index + 1,
+    name,
+    lord,
+    startDegrees: index * RASHI_SPAN_DEGREES,
+    endDegrees: (index + 1) * RASHI_SPAN_DEGREES,
+}));
+
+/**
+ * Looks up a rashi by its 1-based number.
+ * @param rashiNumber A number between 1 (Mesha) and 12 (Meena).
+ * @returns The matching Rashi entry.
+ */
+export const getRashi = (rashiNumber: number): Rashi => {
+    const rashi = RASHIS[rashiNumber - 1];
+    if (!rashi) {
+        throw new RangeError(`Rashi number must be between 1 and 12, got ${rashiNumber}`);
+    }
+    return rashi;
+};
+
+/**
+ * Finds the rashi containing a sidereal longitude.
+ * @param longitude The sidereal longitude in degrees (0-360).
+ * @returns The rashi occupying that longitude.
+ */
+export const getRashiAtLongitude = (longitude: number): Rashi => {
+    const index = Math.floor((((longitude % 360) + 360) % 360) / RASHI_SPAN_DEGREES);
+    return RASHIS[Math.min(index, RASHIS.length - 1)];
+};
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import type { ReminderSettings } from '../types';
+import {
+    collapseReminders,
+    formatLeadTime,
+    getDueReminders,
+    getReminderTitle,
+    isReminderSettings,
+    planReminders,
+    recordDelivered,
+    toBackgroundReminders,
+} from './reminders';
+import { findCurrentOrNextNakshatraPeriod } from './nakshatra-calculator';
+import { makePeriod } from './__fixtures__/periods';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const period = makePeriod(15, '2025-01-21T18:06:00Z', '2025-01-22T21:04:00Z');
+const settings: ReminderSettings = { beforeStart: [24 * 60, 60, 10, 0], beforeEnd: [60] };
+const at = (base: Date, offsetMs: number) => new Date(base.getTime() + offsetMs);
+
+describe('planReminders', () => {
+    it('creates one reminder per lead time and boundary, ordered by firing time', () => {
+        const reminders = planReminders([period], settings);
+
+        expect(reminders.map(r => [r.edge, r.leadMinutes])).toEqual([
+            ['start', 1440],
+            ['start', 60],
+            ['start', 10],
+            ['start', 0],
+            ['end', 60],
+        ]);
+        expect(reminders[1].fireAt).toEqual(at(period.start, -HOUR_MS));
+        expect(reminders[4].fireAt).toEqual(at(period.end, -HOUR_MS));
+    });
+
+    it('gives each reminder a stable, unique id', () => {
+        const first = planReminders([period], settings).map(r => r.id);
+        const second = planReminders([{ ...period }], settings).map(r => r.id);
+        expect(second).toEqual(first);
+        expect(new Set(first).size).toBe(first.length);
+    });
+
+    it('keeps the ids when the same period is found from a different search start', async () => {
+        const fromBefore = await findCurrentOrNextNakshatraPeriod(15, new Date('2025-01-20T00:00:00Z'));
+        const fromInside = await findCurrentOrNextNakshatraPeriod(15, new Date('2025-01-22T06:00:00Z'));
+
+        expect(planReminders([fromInside], settings).map(r => r.id)).toEqual(planReminders([fromBefore], settings).map(r => r.id));
+    });
+
+    it('ignores duplicate lead times', () => {
+        expect(planReminders([period], { beforeStart: [60, 60], beforeEnd: [] })).toHaveLength(1);
+    });
+});
+
+describe('getDueReminders', () => {
+    const reminders = planReminders([period], settings);
+
+    it('returns nothing before the first reminder', () => {
+        expect(getDueReminders(reminders, at(period.start, -25 * HOUR_MS), {})).toEqual([]);
+    });
+
+    it('returns reminders whose time has come', () => {
+        const due = getDueReminders(reminders, at(period.start, -30 * MINUTE_MS), {});
+        expect(due.map(r => r.leadMinutes)).toEqual([1440, 60]);
+    });
+
+    it('skips delivered reminders', () => {
+        const now = at(period.start, -30 * MINUTE_MS);
+        const delivered = recordDelivered({}, getDueReminders(reminders, now, {}), now);
+        expect(getDueReminders(reminders, now, delivered)).toEqual([]);
+    });
+
+    it('drops advance reminders once their boundary has passed', () => {
+        const due = getDueReminders(reminders, at(period.start, HOUR_MS), {});
+        expect(due.map(r => [r.edge, r.leadMinutes])).toEqual([['start', 0]]);
+    });
+
+    it('keeps the start reminder due while the period lasts', () => {
+        const due = getDueReminders(reminders, at(period.end, -30 * MINUTE_MS), {});
+        expect(due.map(r => [r.edge, r.leadMinutes])).toEqual([['start', 0], ['end', 60]]);
+        expect(getDueReminders(reminders, period.end, {})).toEqual([]);
+    });
+});
+
+describe('collapseReminders', () => {
+    it('keeps only the most imminent reminder per boundary', () => {
+        const due = getDueReminders(planReminders([period], settings), at(period.start, -5 * MINUTE_MS), {});
+        expect(due).toHaveLength(3);
+        expect(collapseReminders(due).map(r => r.leadMinutes)).toEqual([10]);
+    });
+});
+
+describe('recordDelivered', () => {
+    it('forgets entries that can no longer fire', () => {
+        const reminders = planReminders([period], settings);
+        const delivered = recordDelivered({ stale: period.start.getTime() - 1 }, reminders.slice(0, 1), period.start);
+
+        expect(Object.keys(delivered)).toEqual([reminders[0].id]);
+    });
+});
+
+describe('isReminderSettings', () => {
+    it('accepts valid settings and rejects malformed ones', () => {
+        expect(isReminderSettings(settings)).toBe(true);
+        expect(isReminderSettings({ beforeStart: [60] })).toBe(false);
+        expect(isReminderSettings({ beforeStart: [-5], beforeEnd: [] })).toBe(false);
+        expect(isReminderSettings(null)).toBe(false);
+    });
+});
+
+describe('reminder text', () => {
+    it('formats lead times in the largest whole unit', () => {
+        expect(formatLeadTime(24 * HOUR_MS)).toBe('1 day');
+        expect(formatLeadTime(3 * HOUR_MS)).toBe('3 hours');
+        expect(formatLeadTime(10 * MINUTE_MS)).toBe('10 minutes');
+        expect(formatLeadTime(20 * 1000)).toBe('1 minute');
+    });
+
+    it('phrases titles relative to the boundary', () => {
+        const [dayBefore, , , atStart, beforeEnd] = planReminders([period], settings);
+        expect(getReminderTitle(dayBefore, dayBefore.fireAt)).toBe('Swathi Nakshatra begins in 1 day');
+        expect(getReminderTitle(atStart, period.start)).toBe('Swathi Nakshatra is Active');
+        expect(getReminderTitle(beforeEnd, beforeEnd.fireAt)).toBe('Swathi Nakshatra ends in 1 hour');
+    });
+});
+
+describe('toBackgroundReminders', () => {
+    it('serialises reminders that have not lapsed, titled as they will read when shown', () => {
+        const reminders = planReminders([period], settings);
+        const background = toBackgroundReminders(reminders, 'UTC', at(period.start, -30 * MINUTE_MS));
+
+        expect(background.map(r => r.title)).toEqual([
+            'Swathi Nakshatra begins in 1 day',
+            'Swathi Nakshatra begins in 1 hour',
+            'Swathi Nakshatra begins in 10 minutes',
+            'Swathi Nakshatra is Active',
+            'Swathi Nakshatra ends in 1 hour',
+        ]);
+        expect(background[1]).toMatchObject({ fireAt: period.start.getTime() - HOUR_MS, expiresAt: period.start.getTime() });
+        expect(toBackgroundReminders(reminders, 'UTC', at(period.end, -30 * MINUTE_MS))).toEqual(background.slice(3));
+    });
+});
@@ -0,0 +1,209 @@
+import type { BackgroundReminder, NakshatraPeriod, ReminderEdge, ReminderSettings, ScheduledReminder } from '../types';
+import { getNakshatra } from './nakshatras';
+import { getOccurrenceKey } from './occurrences';
+import { formatDateTime } from './time-zone';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+const ENDED_GRACE_MS = 5 * MINUTE_MS;
+
+/**
+ * The lead times offered in the reminder settings, longest first.
+ */
+export const REMINDER_LEAD_TIMES: ReadonlyArray<{ minutes: number; label: string }> = [
+    { minutes: 24 * 60, label: '1 day' },
+    { minutes: 60, label: '1 hour' },
+    { minutes: 10, label: '10 minutes' },
+    { minutes: 0, label: 'At the moment' },
+];
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+    beforeStart: [24 * 60, 60, 0],
+    beforeEnd: [60],
+};
+
+/**
+ * Record of delivered reminders, mapping each reminder id to the instant (ms) after which
+ * it can no longer fire and so can be forgotten.
+ */
+export type DeliveredReminderLog = Record<string, number>;
+
+const isLeadTimeList = (value: unknown): value is number[] =>
+    Array.isArray(value) && value.every(minutes => typeof minutes === 'number' && Number.isFinite(minutes) && minutes >= 0);
+
+/**
+ * Type guard used when reading reminder settings back from storage.
+ */
+export const isReminderSettings = (value: unknown): value is ReminderSettings => {
+    if (typeof value !== 'object' || value === null) return false;
+    const candidate = value as Partial<ReminderSettings>;
+    return isLeadTimeList(candidate.beforeStart) && isLeadTimeList(candidate.beforeEnd);
+};
+
+/**
+ * Type guard used when reading the delivered reminder log back from storage.
+ */
+export const isDeliveredReminderLog = (value: unknown): value is DeliveredReminderLog => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+    return Object.values(value).every(expiry => typeof expiry === 'number');
+};
+
+const getEdgeTime = (reminder: Pick<ScheduledReminder, 'period' | 'edge'>): Date =>
+    reminder.edge === 'start' ? reminder.period.start : reminder.period.end;
+
+// Keyed by occurrence rather than boundary time, which moves by a second depending on where the search began.
+const getReminderId = (period: NakshatraPeriod, edge: ReminderEdge, leadMinutes: number): string =>
+    `${getOccurrenceKey(period)}:${edge}:${leadMinutes}`;
+
+/**
+ * Expands periods into the individual reminders requested by the settings.
+ * @param periods The periods to remind about.
+ * @param settings Lead times before each start and end.
+ * @returns Every reminder, ordered by when it fires.
+ */
+export const planReminders = (periods: NakshatraPeriod[], settings: ReminderSettings): ScheduledReminder[] => {
+    const reminders: ScheduledReminder[] = [];
+
+    for (const period of periods) {
+        const edges: Array<[ReminderEdge, number[]]> = [['start', settings.beforeStart], ['end', settings.beforeEnd]];
+        for (const [edge, leadTimes] of edges) {
+            const edgeTime = edge === 'start' ? period.start : period.end;
+            for (const leadMinutes of new Set(leadTimes)) {
+                reminders.push({
+                    id: getReminderId(period, edge, leadMinutes),
+                    period,
+                    edge,
+                    leadMinutes,
+                    fireAt: new Date(edgeTime.getTime() - leadMinutes * MINUTE_MS),
+                });
+            }
+        }
+    }
+
+    return reminders.sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime());
+};
+
+/**
+ * The last instant a reminder is still worth showing. Advance reminders lapse at the boundary
+ * they announce; a reminder at the start stays relevant while the period lasts, and one at the
+ * end only briefly.
+ */
+export const getReminderDeadline = (reminder: ScheduledReminder): Date => {
+    if (reminder.leadMinutes > 0) return getEdgeTime(reminder);
+    return reminder.edge === 'start' ? reminder.period.end : new Date(reminder.period.end.getTime() + ENDED_GRACE_MS);
+};
+
+/**
+ * Selects the reminders that should be shown now: their time has come, they have not
+ * lapsed and they have not been delivered before. Reminders missed while the app was
+ * closed are still shown until they lapse.
+ * @param reminders The planned reminders.
+ * @param now The current time.
+ * @param delivered The log of reminders already shown.
+ */
+export const getDueReminders = (
+    reminders: ScheduledReminder[],
+    now: Date,
+    delivered: DeliveredReminderLog,
+): ScheduledReminder[] => {
+    return reminders.filter(
+        reminder => !(reminder.id in delivered) && reminder.fireAt <= now && now < getReminderDeadline(reminder),
+    );
+};
+
+/**
+ * Keeps only the most imminent reminder for each period boundary, so opening the app
+ * an hour before a period shows one notification rather than the day and hour reminders together.
+ */
+export const collapseReminders = (reminders: ScheduledReminder[]): ScheduledReminder[] => {
+    const byBoundary = new Map<string, ScheduledReminder>();
+    for (const reminder of reminders) {
+        const key = `${getOccurrenceKey(reminder.period)}:${reminder.edge}`;
+        const existing = byBoundary.get(key);
+        if (!existing || reminder.leadMinutes < existing.leadMinutes) {
+            byBoundary.set(key, reminder);
+        }
+    }
+    return [...byBoundary.values()];
+};
+
+/**
+ * Adds reminders to the delivered log and drops entries that can no longer fire.
+ * @returns A new log; the input is not modified.
+ */
+export const recordDelivered = (
+    delivered: DeliveredReminderLog,
+    reminders: ScheduledReminder[],
+    now: Date,
+): DeliveredReminderLog => {
+    const next: DeliveredReminderLog = {};
+    for (const [id, expiry] of Object.entries(delivered)) {
+        if (expiry > now.getTime()) next[id] = expiry;
+    }
+    for (const reminder of reminders) {
+        next[reminder.id] = getReminderDeadline(reminder).getTime();
+    }
+    return next;
+};
+
+/**
+ * Describes a time span in words, e.g. "1 day", "3 hours" or "10 minutes".
+ */
+export const formatLeadTime = (ms: number): string => {
+    const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+    if (ms >= DAY_MS) return plural(Math.round(ms / DAY_MS), 'day');
+    if (ms >= HOUR_MS) return plural(Math.round(ms / HOUR_MS), 'hour');
+    return plural(Math.max(1, Math.round(ms / MINUTE_MS)), 'minute');
+};
+
+/**
+ * The notification title for a reminder, phrased relative to the current time.
+ * @param reminder The reminder being shown.
+ * @param now The current time.
+ */
+export const getReminderTitle = (reminder: ScheduledReminder, now: Date): string => {
+    const nakshatraName = getNakshatra(reminder.period.nakshatra).name;
+    const remainingMs = getEdgeTime(reminder).getTime() - now.getTime();
+    if (reminder.edge === 'start') {
+        return remainingMs > 30 * 1000
+            ? `${nakshatraName} Nakshatra begins in ${formatLeadTime(remainingMs)}`
+            : `${nakshatraName} Nakshatra is Active`;
+    }
+    return remainingMs > 30 * 1000
+        ? `${nakshatraName} Nakshatra ends in ${formatLeadTime(remainingMs)}`
+        : `${nakshatraName} Nakshatra has ended`;
+};
+
+/**
+ * The notification body for a reminder, with times shown in the user's time zone.
+ */
+export const getReminderBody = (reminder: ScheduledReminder, timeZone: string): string => {
+    const { start, end } = reminder.period;
+    return reminder.edge === 'start'
+        ? `The auspicious period runs from ${formatDateTime(start, timeZone)} until ${formatDateTime(end, timeZone)}.`
+        : `The period ends at ${formatDateTime(end, timeZone)}.`;
+};
+
+/**
+ * Prepares the reminders that have not yet lapsed for delivery by the service worker,
+ * phrasing each title as it will read when the reminder fires.
+ * @param reminders The planned reminders.
+ * @param timeZone The IANA time zone used for times in the text.
+ * @param now The current time.
+ */
+export const toBackgroundReminders = (
+    reminders: ScheduledReminder[],
+    timeZone: string,
+    now: Date,
+): BackgroundReminder[] => {
+    return reminders
+        .filter(reminder => getReminderDeadline(reminder) > now)
+        .map(reminder => ({
+            id: reminder.id,
+            title: getReminderTitle(reminder, reminder.fireAt),
+            body: getReminderBody(reminder, timeZone),
+            fireAt: reminder.fireAt.getTime(),
+            expiresAt: getReminderDeadline(reminder).getTime(),
+        }));
+};
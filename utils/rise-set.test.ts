@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { getRiseSetTimes, hasCoordinates } from './rise-set';
+
+const MINUTE_MS = 60 * 1000;
+
+// Reference times computed with Astronomy Engine's SearchRiseSet for the same observers.
+const expectNear = (actual: Date | null, expectedIso: string) => {
+    expect(actual).not.toBeNull();
+    expect(Math.abs(actual!.getTime() - Date.parse(expectedIso))).toBeLessThan(MINUTE_MS);
+};
+
+describe('getRiseSetTimes', () => {
+    it('matches reference times in Chennai', () => {
+        const times = getRiseSetTimes({ year: 2025, month: 1, day: 22 }, 'Asia/Kolkata', { latitude: 13.0827, longitude: 80.2707 });
+        expectNear(times.sunrise, '2025-01-22T01:05:49Z');
+        expectNear(times.sunset, '2025-01-22T12:35:15Z');
+        expectNear(times.moonrise, '2025-01-21T18:39:37Z');
+        expectNear(times.moonset, '2025-01-22T06:29:13Z');
+    });
+
+    it('matches reference times in New York on the day clocks change', () => {
+        const times = getRiseSetTimes({ year: 2025, month: 3, day: 9 }, 'America/New_York', { latitude: 40.7128, longitude: -74.006 });
+        expectNear(times.sunrise, '2025-03-09T11:16:54Z');
+        expectNear(times.sunset, '2025-03-09T22:56:34Z');
+        expectNear(times.moonrise, '2025-03-09T18:12:36Z');
+        expectNear(times.moonset, '2025-03-09T09:07:16Z');
+    });
+
+    it('reports no sunrise or sunset under the midnight sun', () => {
+        const times = getRiseSetTimes({ year: 2025, month: 6, day: 21 }, 'Europe/Oslo', { latitude: 69.6492, longitude: 18.9553 });
+        expect(times.sunrise).toBeNull();
+        expect(times.sunset).toBeNull();
+        expectNear(times.moonrise, '2025-06-21T20:49:27Z');
+    });
+});
+
+describe('hasCoordinates', () => {
+    it('requires both latitude and longitude', () => {
+        expect(hasCoordinates({ latitude: 13, longitude: 80 })).toBe(true);
+        expect(hasCoordinates({ latitude: 13 })).toBe(false);
+        expect(hasCoordinates({})).toBe(false);
+    });
+});
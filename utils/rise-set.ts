@@ -0,0 +1,153 @@
+import type { CalendarDate, GeoCoordinates, RiseSetTimes } from '../types';
+import { normalizeDegrees } from './boundary-solver';
+import { getJulianCenturiesTT, getMoonPosition, getNutationInLongitude, getSunLongitude, toJulianDay } from './ephemeris';
+import { getDayBounds } from './time-zone';
+
+/**
+ * Rising and setting times following Meeus, "Astronomical Algorithms", chapters 12, 13 and 15.
+ * Altitudes are sampled through the day and each horizon crossing is bisected to the second.
+ */
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// Atmospheric refraction (34') plus the Sun's semi-diameter (16').
+const SUN_STANDARD_ALTITUDE = -0.8333;
+const EARTH_EQUATORIAL_RADIUS_KM = 6378.14;
+
+const SAMPLE_STEP_MS = 10 * 60 * 1000;
+const TOLERANCE_MS = 1000;
+
+/**
+ * The true obliquity of the ecliptic (Meeus 22.2, plus the dominant nutation term).
+ * @returns ε in degrees.
+ */
+export const getObliquity = (date: Date): number => {
+    const T = getJulianCenturiesTT(date);
+    const meanObliquity = 23.439291111 - 0.013004167 * T - 0.000000164 * T ** 2 + 0.000000504 * T ** 3;
+    const omega = toRadians(125.04452 - 1934.136261 * T);
+    return meanObliquity + (9.2 / 3600) * Math.cos(omega);
+};
+
+/**
+ * Apparent sidereal time at Greenwich (Meeus 12.4 plus the equation of the equinoxes).
+ * @returns The sidereal time as an angle in degrees.
+ */
+export const getGreenwichSiderealTime = (date: Date): number => {
+    const jd = toJulianDay(date);
+    const T = (jd - 2451545.0) / 36525;
+    const meanSiderealTime =
+        280.46061837 + 360.98564736629 * (jd - 2451545.0) + 0.000387933 * T ** 2 - T ** 3 / 38710000;
+    return normalizeDegrees(meanSiderealTime + getNutationInLongitude(date) * Math.cos(toRadians(getObliquity(date))));
+};
+
+/**
+ * Altitude of a body above the horizon from its ecliptic coordinates.
+ */
+const getAltitude = (date: Date, eclipticLongitude: number, eclipticLatitude: number, observer: GeoCoordinates): number => {
+    const epsilon = toRadians(getObliquity(date));
+    const lambda = toRadians(eclipticLongitude);
+    const beta = toRadians(eclipticLatitude);
+
+    // Ecliptic to equatorial (Meeus 13.3, 13.4)
+    const rightAscension = Math.atan2(
+        Math.sin(lambda) * Math.cos(epsilon) - Math.tan(beta) * Math.sin(epsilon),
+        Math.cos(lambda),
+    );
+    const declination = Math.asin(
+        Math.sin(beta) * Math.cos(epsilon) + Math.cos(beta) * Math.sin(epsilon) * Math.sin(lambda),
+    );
+
+    const hourAngle = toRadians(getGreenwichSiderealTime(date) + observer.longitude) - rightAscension;
+    const phi = toRadians(observer.latitude);
+
+    return toDegrees(
+        Math.asin(Math.sin(phi) * Math.sin(declination) + Math.cos(phi) * Math.cos(declination) * Math.cos(hourAngle)),
+    );
+};
+
+/**
+ * The Sun's altitude above the standard rising altitude; positive while the Sun is up.
+ */
+const getSunElevation = (date: Date, observer: GeoCoordinates): number => {
+    return getAltitude(date, getSunLongitude(date), 0, observer) - SUN_STANDARD_ALTITUDE;
+};
+
+/**
+ * The Moon's geocentric altitude above its standard rising altitude, which depends on its
+ * horizontal parallax (Meeus chapter 15); positive while the Moon is up.
+ */
+const getMoonElevation = (date: Date, observer: GeoCoordinates): number => {
+    const moon = getMoonPosition(date);
+    const parallax = toDegrees(Math.asin(EARTH_EQUATORIAL_RADIUS_KM / moon.distance));
+    return getAltitude(date, moon.longitude, moon.latitude, observer) - (0.7275 * parallax - 0.5667);
+};
+
+interface HorizonCrossings {
+    rises: Date[];
+    sets: Date[];
+}
+
+/**
+ * Finds every time a body crosses the horizon between two instants.
+ * @param elevationAt The body's altitude relative to its standard altitude.
+ */
+const findHorizonCrossings = (elevationAt: (date: Date) => number, from: Date, to: Date): HorizonCrossings => {
+    const crossings: HorizonCrossings = { rises: [], sets: [] };
+    let previousTime = from.getTime();
+    let previousElevation = elevationAt(from);
+
+    while (previousTime < to.getTime()) {
+        const time = Math.min(previousTime + SAMPLE_STEP_MS, to.getTime());
+        const elevation = elevationAt(new Date(time));
+
+        if (previousElevation < 0 !== elevation < 0) {
+            const isRising = previousElevation < 0;
+            let lo = previousTime;
+            let hi = time;
+            while (hi - lo > TOLERANCE_MS) {
+                const mid = lo + (hi - lo) / 2;
+                if (elevationAt(new Date(mid)) < 0 === isRising) {
+                    lo = mid;
+                } else {
+                    hi = mid;
+                }
+            }
+            (isRising ? crossings.rises : crossings.sets).push(new Date(Math.round(hi)));
+        }
+
+        previousTime = time;
+        previousElevation = elevation;
+    }
+
+    return crossings;
+};
+
+/**
+ * Calculates sunrise, sunset, moonrise and moonset for a local calendar day.
+ * @param date The local calendar day.
+ * @param timeZone The IANA time zone that defines the day.
+ * @param observer The observer's latitude and longitude.
+ * @returns The first of each event during the day, or null if it does not occur.
+ */
+export const getRiseSetTimes = (date: CalendarDate, timeZone: string, observer: GeoCoordinates): RiseSetTimes => {
+    const { start, end } = getDayBounds(date, timeZone);
+    const sun = findHorizonCrossings(instant => getSunElevation(instant, observer), start, end);
+    const moon = findHorizonCrossings(instant => getMoonElevation(instant, observer), start, end);
+
+    return {
+        sunrise: sun.rises[0] ?? null,
+        sunset: sun.sets[0] ?? null,
+        moonrise: moon.rises[0] ?? null,
+        moonset: moon.sets[0] ?? null,
+    };
+};
+
+/**
+ * Checks whether a location setting carries the coordinates needed for rising and setting times.
+ */
+export const hasCoordinates = <T extends { latitude?: number; longitude?: number }>(
+    location: T,
+): location is T & GeoCoordinates => {
+    return typeof location.latitude === 'number' && typeof location.longitude === 'number';
+};
@@ -0,0 +1,84 @@
+import type { BackgroundReminder } from '../types';
+
+const SERVICE_WORKER_URL = '/sw.js';
+const REMINDER_SYNC_TAG = 'reminders';
+const REMINDER_SYNC_INTERVAL_MS = 60 * 60 * 1000;
+
+// Periodic Background Sync is not yet part of the DOM typings.
+interface PeriodicSyncManager {
+    register(tag: string, options?: { minInterval: number }): Promise<void>;
+}
+
+const isSupported = (): boolean => typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+
+/**
+ * Registers the service worker that precaches the app for offline use.
+ * Failures are logged rather than thrown; the app works without it.
+ */
+export const registerServiceWorker = async (): Promise<void> => {
+    if (!isSupported()) return;
+    try {
+        await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+    } catch (error) {
+        console.error("Failed to register service worker:", error);
+    }
+};
+
+/**
+ * The active service worker registration, or null when there is none to talk to
+ * (unsupported browser, development server, or not yet installed).
+ */
+const getActiveRegistration = async (): Promise<ServiceWorkerRegistration | null> => {
+    if (!isSupported()) return null;
+    try {
+        const registration = await navigator.serviceWorker.getRegistration();
+        return registration?.active ? registration : null;
+    } catch {
+        // getRegistration rejects in insecure contexts and some private browsing modes.
+        return null;
+    }
+};
+
+/**
+ * Hands precomputed reminders to the service worker so they can be shown while the app
+ * is closed, via Notification Triggers or periodic background sync where the browser
+ * supports them. Elsewhere this is a no-op and reminders only fire while the app is open.
+ * @returns Whether a service worker accepted the reminders.
+ */
+export const scheduleBackgroundReminders = async (reminders: BackgroundReminder[]): Promise<boolean> => {
+    const registration = await getActiveRegistration();
+    if (!registration?.active) return false;
+
+    registration.active.postMessage({ type: 'schedule-reminders', reminders });
+
+    const periodicSync = (registration as ServiceWorkerRegistration & { periodicSync?: PeriodicSyncManager }).periodicSync;
+    if (periodicSync) {
+        try {
+            await periodicSync.register(REMINDER_SYNC_TAG, { minInterval: REMINDER_SYNC_INTERVAL_MS });
+        } catch {
+            // Only granted to installed apps; the in-page scheduler still covers open tabs.
+        }
+    }
+    return true;
+};
+
+/**
+ * Tells the service worker which reminders the page has already shown so it does not repeat them.
+ */
+export const markRemindersDelivered = async (ids: string[]): Promise<void> => {
+    const registration = await getActiveRegistration();
+    registration?.active?.postMessage({ type: 'reminders-delivered', ids });
+};
+
+/**
+ * Shows a notification, through the service worker when one is active (required on
+ * Android, where the Notification constructor is unavailable) and directly otherwise.
+ */
+export const showNotification = async (title: string, options: NotificationOptions): Promise<void> => {
+    const registration = await getActiveRegistration();
+    if (registration) {
+        await registration.showNotification(title, options);
+    } else {
+        new Notification(title, options);
+    }
+};
@@ -0,0 +1,25 @@
+import type { AyanamshaSystem } from '../types';
+import { DEFAULT_AYANAMSHA, getAyanamsha } from './ayanamsha';
+import { normalizeDegrees } from './boundary-solver';
+import { getMoonPosition, getSunLongitude } from './ephemeris';
+
+/**
+ * Gets the Moon's sidereal longitude for a given date by applying the Ayanamsha
+ * correction to the tropical longitude.
+ * @param date The date for which to get the longitude.
+ * @param system The ayanamsha system to use.
+ * @returns The sidereal longitude in degrees (0-360).
+ */
+export const getMoonSiderealLongitude = (date: Date, system: AyanamshaSystem = DEFAULT_AYANAMSHA): number => {
+    return normalizeDegrees(getMoonPosition(date).longitude - getAyanamsha(date, system));
+};
+
+/**
+ * Gets the Sun's sidereal longitude for a given date.
+ * @param date The date for which to get the longitude.
+ * @param system The ayanamsha system to use.
+ * @returns The sidereal longitude in degrees (0-360).
+ */
+export const getSunSiderealLongitude = (date: Date, system: AyanamshaSystem = DEFAULT_AYANAMSHA): number => {
+    return normalizeDegrees(getSunLongitude(date) - getAyanamsha(date, system));
+};
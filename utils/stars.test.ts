@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { AnnualStar, PeriodMasa } from '../types';
+import { makePeriod } from './__fixtures__/periods';
+import {
+    DEFAULT_STAR_SETTINGS,
+    addAnnualStar,
+    describeAnnualStar,
+    getStarReasons,
+    isStarSettings,
+    removeAnnualStar,
+    toggleOccurrenceStar,
+} from './stars';
+
+const VAISHAKHA: PeriodMasa = {
+    amanta: { number: 2, name: 'Vaishakha', isAdhika: false },
+    purnimanta: { number: 3, name: 'Jyeshtha', isAdhika: false },
+    solar: { number: 2, name: 'Vrishabha' },
+};
+
+const swathiInVaishakha = makePeriod(15, '2025-05-10T00:00:00Z', '2025-05-11T00:00:00Z', VAISHAKHA);
+const swathiInChaitra = makePeriod(15, '2025-04-13T00:00:00Z', '2025-04-14T00:00:00Z');
+
+describe('getStarReasons', () => {
+    it('matches annual stars in the chosen reckoning', () => {
+        const amanta: AnnualStar = { nakshatra: 15, reckoning: 'amanta', month: 2, isAdhika: false };
+        const purnimanta: AnnualStar = { nakshatra: 15, reckoning: 'purnimanta', month: 2, isAdhika: false };
+        const settings = addAnnualStar(addAnnualStar(DEFAULT_STAR_SETTINGS, amanta), purnimanta);
+
+        expect(getStarReasons(settings, swathiInVaishakha)).toEqual({ isStarred: false, annual: [amanta] });
+        expect(getStarReasons(settings, swathiInChaitra)).toBeNull();
+        expect(getStarReasons(settings, makePeriod(16, '2025-05-11T00:00:00Z', '2025-05-12T00:00:00Z', VAISHAKHA))).toBeNull();
+    });
+
+    it('tells the adhika month from the regular month of the same name', () => {
+        const adhikaVaishakha: PeriodMasa = { ...VAISHAKHA, amanta: { ...VAISHAKHA.amanta, isAdhika: true } };
+        const swathiInAdhikaVaishakha = makePeriod(15, '2026-05-10T00:00:00Z', '2026-05-11T00:00:00Z', adhikaVaishakha);
+        const regular: AnnualStar = { nakshatra: 15, reckoning: 'amanta', month: 2, isAdhika: false };
+        const adhika: AnnualStar = { ...regular, isAdhika: true };
+        const settings = addAnnualStar(addAnnualStar(DEFAULT_STAR_SETTINGS, regular), adhika);
+
+        expect(settings.annual).toHaveLength(2);
+        expect(getStarReasons(settings, swathiInVaishakha)?.annual).toEqual([regular]);
+        expect(getStarReasons(settings, swathiInAdhikaVaishakha)?.annual).toEqual([adhika]);
+    });
+
+    it('reports occurrences starred on their own', () => {
+        const settings = toggleOccurrenceStar(DEFAULT_STAR_SETTINGS, swathiInChaitra);
+
+        expect(getStarReasons(settings, swathiInChaitra)).toEqual({ isStarred: true, annual: [] });
+        expect(getStarReasons(settings, swathiInVaishakha)).toBeNull();
+        expect(toggleOccurrenceStar(settings, swathiInChaitra)).toEqual(DEFAULT_STAR_SETTINGS);
+    });
+});
+
+describe('annual stars', () => {
+    it('are added once and removed again', () => {
+        const star: AnnualStar = { nakshatra: 15, reckoning: 'solar', month: 1, isAdhika: false };
+        const settings = addAnnualStar(addAnnualStar(DEFAULT_STAR_SETTINGS, star), { ...star });
+
+        expect(settings.annual).toEqual([star]);
+        expect(removeAnnualStar(settings, star)).toEqual(DEFAULT_STAR_SETTINGS);
+    });
+
+    it('are described with the month of their reckoning', () => {
+        expect(describeAnnualStar({ nakshatra: 15, reckoning: 'amanta', month: 2, isAdhika: false })).toBe('Swathi in Vaishakha (amanta)');
+        expect(describeAnnualStar({ nakshatra: 15, reckoning: 'amanta', month: 3, isAdhika: true })).toBe('Swathi in Adhika Jyeshtha (amanta)');
+        expect(describeAnnualStar({ nakshatra: 15, reckoning: 'solar', month: 2, isAdhika: false })).toBe('Swathi in Vrishabha (solar)');
+    });
+});
+
+describe('isStarSettings', () => {
+    it('accepts stored settings and rejects malformed ones', () => {
+        expect(isStarSettings({ occurrences: ['15@2025-04-13'], annual: [{ nakshatra: 15, reckoning: 'solar', month: 12, isAdhika: false }] })).toBe(true);
+        expect(isStarSettings({ occurrences: [], annual: [{ nakshatra: 15, reckoning: 'lunar', month: 1, isAdhika: false }] })).toBe(false);
+        expect(isStarSettings({ occurrences: [], annual: [{ nakshatra: 15, reckoning: 'amanta', month: 13, isAdhika: false }] })).toBe(false);
+        expect(isStarSettings({ occurrences: [], annual: [{ nakshatra: 15, reckoning: 'amanta', month: 1 }] })).toBe(false);
+        expect(isStarSettings({ occurrences: [], annual: [{ nakshatra: 15, reckoning: 'solar', month: 1, isAdhika: true }] })).toBe(false);
+        expect(isStarSettings({ occurrences: [1], annual: [] })).toBe(false);
+    });
+});
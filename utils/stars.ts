@@ -0,0 +1,124 @@
+import type { AnnualStar, MonthReckoning, NakshatraPeriod, StarSettings } from '../types';
+import { getMasaName } from './masa';
+import { getNakshatra, isNakshatraNumber } from './nakshatras';
+import { getOccurrenceKey } from './occurrences';
+import { getRashi } from './rashis';
+
+/**
+ * Occurrences the user has starred as special, either one at a time or every year in a given
+ * lunar or solar month, so the forecast can pick them out.
+ */
+
+export const DEFAULT_STAR_SETTINGS: StarSettings = { occurrences: [], annual: [] };
+
+export const MONTH_RECKONINGS: readonly MonthReckoning[] = ['amanta', 'purnimanta', 'solar'];
+
+/**
+ * Names month `month` of a reckoning: a masa for the lunar reckonings, a rashi for the solar one.
+ */
+export const getMonthName = (reckoning: MonthReckoning, month: number): string => {
+    return reckoning === 'solar' ? getRashi(month).name : getMasaName(month);
+};
+
+/**
+ * Describes an annual star, e.g. "Swathi in Vaishakha (amanta)" or "Swathi in Adhika Jyeshtha (amanta)".
+ */
+export const describeAnnualStar = (star: AnnualStar): string => {
+    const month = getMonthName(star.reckoning, star.month);
+    return `${getNakshatra(star.nakshatra).name} in ${star.isAdhika ? `Adhika ${month}` : month} (${star.reckoning})`;
+};
+
+/**
+ * Checks whether a period is the occurrence an annual star refers to. A lunar month matches only
+ * if it is adhika exactly when the star is. Periods without their months, such as transit
+ * listings, never match.
+ */
+export const matchesAnnualStar = (star: AnnualStar, period: NakshatraPeriod): boolean => {
+    if (star.nakshatra !== period.nakshatra || !period.masa) return false;
+    if (star.reckoning === 'solar') return period.masa.solar.number === star.month;
+    const month = period.masa[star.reckoning];
+    return month.number === star.month && month.isAdhika === star.isAdhika;
+};
+
+/**
+ * Checks whether a period was starred on its own.
+ */
+export const isOccurrenceStarred = (settings: StarSettings, period: NakshatraPeriod): boolean => {
+    return settings.occurrences.includes(getOccurrenceKey(period));
+};
+
+/**
+ * Finds why a period is special.
+ * @param settings The user's stars.
+ * @param period A period of any nakshatra.
+ * @returns The annual stars it matches, and whether it was starred on its own; null if neither.
+ */
+export const getStarReasons = (
+    settings: StarSettings,
+    period: NakshatraPeriod,
+): { isStarred: boolean; annual: AnnualStar[] } | null => {
+    const isStarred = isOccurrenceStarred(settings, period);
+    const annual = settings.annual.filter(star => matchesAnnualStar(star, period));
+    return isStarred || annual.length > 0 ? { isStarred, annual } : null;
+};
+
+/**
+ * Stars a single occurrence, or removes its star.
+ */
+export const toggleOccurrenceStar = (settings: StarSettings, period: NakshatraPeriod): StarSettings => {
+    const key = getOccurrenceKey(period);
+    return {
+        ...settings,
+        occurrences: settings.occurrences.includes(key)
+            ? settings.occurrences.filter(candidate => candidate !== key)
+            : [...settings.occurrences, key],
+    };
+};
+
+const isSameStar = (a: AnnualStar, b: AnnualStar) =>
+    a.nakshatra === b.nakshatra && a.reckoning === b.reckoning && a.month === b.month && a.isAdhika === b.isAdhika;
+
+/**
+ * Adds an annual star unless the same one is already there.
+ */
+export const addAnnualStar = (settings: StarSettings, star: AnnualStar): StarSettings => {
+    if (settings.annual.some(candidate => isSameStar(candidate, star))) return settings;
+    return { ...settings, annual: [...settings.annual, star] };
+};
+
+/**
+ * Removes an annual star.
+ */
+export const removeAnnualStar = (settings: StarSettings, star: AnnualStar): StarSettings => {
+    return { ...settings, annual: settings.annual.filter(candidate => !isSameStar(candidate, star)) };
+};
+
+const isAnnualStar = (value: unknown): value is AnnualStar => {
+    if (typeof value !== 'object' || value === null) return false;
+    const candidate = value as Partial<AnnualStar>;
+    const { month, isAdhika } = candidate;
+    return (
+        isNakshatraNumber(candidate.nakshatra) &&
+        MONTH_RECKONINGS.includes(candidate.reckoning as MonthReckoning) &&
+        typeof month === 'number' &&
+        Number.isInteger(month) &&
+        month >= 1 &&
+        month <= 12 &&
+        typeof isAdhika === 'boolean' &&
+        !(isAdhika && candidate.reckoning === 'solar')
+    );
+};
+
+/**
+ * Type guard for star settings read back from storage.
+ */
+export const isStarSettings = (value: unknown): value is StarSettings => {
+    if (typeof value !== 'object' || value === null) return false;
+    const candidate = value as Partial<StarSettings>;
+    return (
+        Array.isArray(candidate.occurrences) &&
+        candidate.occurrences.every(key => typeof key === 'string') &&
+        Array.isArray(candidate.annual) &&
+        candidate.annual.every(isAnnualStar)
+    );
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { getTara } from './tarabala';
+
+describe('getTara', () => {
+    it('counts the birth star itself as Janma', () => {
+        expect(getTara(15, 15).name).toBe('Janma');
+    });
+
+    it('walks through the nine taras from the birth star', () => {
+        const names = Array.from({ length: 9 }, (_, offset) => getTara(15, 15 + offset).name);
+        expect(names).toEqual(['Janma', 'Sampat', 'Vipat', 'Kshema', 'Pratyak', 'Sadhana', 'Naidhana', 'Mitra', 'Parama Mitra']);
+    });
+
+    it('repeats the cycle for the second and third rounds, wrapping past Revati', () => {
+        // Swathi (15) + 9 = Shravana (24), + 18 = Ardra (6) after wrapping.
+        expect(getTara(15, 24).name).toBe('Janma');
+        expect(getTara(15, 6).name).toBe('Janma');
+        expect(getTara(15, 14).name).toBe('Parama Mitra');
+        expect(getTara(27, 1).name).toBe('Sampat');
+    });
+
+    it('classifies favourable and unfavourable taras', () => {
+        expect(getTara(1, 2).quality).toBe('favourable');
+        expect(getTara(1, 3).quality).toBe('unfavourable');
+        expect(getTara(1, 1).quality).toBe('mixed');
+    });
+
+    it('rejects nakshatra numbers outside 1-27', () => {
+        expect(() => getTara(0, 5)).toThrow(RangeError);
+        expect(() => getTara(5, 28)).toThrow(RangeError);
+    });
+});
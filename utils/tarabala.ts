@@ -0,0 +1,39 @@
+import type { Tara, TaraQuality } from '../types';
+import { getNakshatra } from './nakshatras';
+
+const TARA_DETAILS: ReadonlyArray<[name: string, meaning: string, quality: TaraQuality]> = [
+    ['Janma', 'Birth', 'mixed'],
+    ['Sampat', 'Wealth', 'favourable'],
+    ['Vipat', 'Danger', 'unfavourable'],
+    ['Kshema', 'Well-being', 'favourable'],
+    ['Pratyak', 'Obstacles', 'unfavourable'],
+    ['Sadhana', 'Achievement', 'favourable'],
+    ['Naidhana', 'Destruction', 'unfavourable'],
+    ['Mitra', 'Friend', 'favourable'],
+    ['Parama Mitra', 'Great friend', 'favourable'],
+];
+
+/**
+ * The nine taras in order, counted from the birth star.
+ */
+export const TARAS: readonly Tara[] = TARA_DETAILS.map(([name, meaning, quality], index) => ({
+    number: index + 1,
+    name,
+    meaning,
+    quality,
+}));
+
+/**
+ * Finds the tara of a transit nakshatra relative to a birth nakshatra. Counting from the
+ * birth star as 1, the 27 stars fall into three rounds of the nine taras, so the 10th and
+ * 19th stars from the birth star are Janma again (anujanma and trijanma).
+ * @param birthNakshatra The 1-based number of the birth (janma) nakshatra.
+ * @param transitNakshatra The 1-based number of the nakshatra the Moon is transiting.
+ * @returns The tara of the transit star.
+ */
+export const getTara = (birthNakshatra: number, transitNakshatra: number): Tara => {
+    getNakshatra(birthNakshatra);
+    getNakshatra(transitNakshatra);
+    const count = (transitNakshatra - birthNakshatra + 27) % 27;
+    return TARAS[count % 9];
+};
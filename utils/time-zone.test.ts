@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+    LOCATION_PRESETS,
+    formatDateTime,
+    getCalendarDate,
+    getDayBounds,
+    isLocationSetting,
+    isValidTimeZone,
+    parseDateTimeLocalString,
+    parseIsoDateString,
+    toDateTimeLocalString,
+} from './time-zone';
+
+describe('formatDateTime', () => {
+    const instant = new Date('2025-01-21T18:06:00Z');
+    const options: Intl.DateTimeFormatOptions = { day: 'numeric', hour: 'numeric', minute: '2-digit', hourCycle: 'h23' };
+
+    it('renders the same instant in each family member\'s zone', () => {
+        expect(formatDateTime(instant, 'Asia/Kolkata', options)).toContain('23:36');
+        expect(formatDateTime(instant, 'Asia/Singapore', options)).toContain('02:06');
+        expect(formatDateTime(instant, 'Europe/London', options)).toContain('18:06');
+        expect(formatDateTime(instant, 'America/New_York', options)).toContain('13:06');
+    });
+});
+
+describe('isLocationSetting', () => {
+    it('accepts the presets and a time zone without coordinates', () => {
+        LOCATION_PRESETS.forEach(preset => expect(isLocationSetting(preset)).toBe(true));
+        expect(isLocationSetting({ label: 'Custom', timeZone: 'Europe/Berlin' })).toBe(true);
+    });
+
+    it('rejects unknown zones and malformed values', () => {
+        expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+        expect(isLocationSetting({ label: 'Mars', timeZone: 'Mars/Olympus_Mons' })).toBe(false);
+        expect(isLocationSetting({ label: 'Chennai', timeZone: 'Asia/Kolkata', latitude: 'north' })).toBe(false);
+        expect(isLocationSetting(null)).toBe(false);
+    });
+});
+
+describe('getDayBounds', () => {
+    it('finds local midnight in a fixed-offset zone', () => {
+        const { start, end } = getDayBounds({ year: 2025, month: 1, day: 21 }, 'Asia/Kolkata');
+        expect(start.toISOString()).toBe('2025-01-20T18:30:00.000Z');
+        expect(end.toISOString()).toBe('2025-01-21T18:30:00.000Z');
+    });
+
+    it('spans 23 hours on the day clocks spring forward', () => {
+        const { start, end } = getDayBounds({ year: 2025, month: 3, day: 9 }, 'America/New_York');
+        expect(start.toISOString()).toBe('2025-03-09T05:00:00.000Z');
+        expect(end.getTime() - start.getTime()).toBe(23 * 60 * 60 * 1000);
+    });
+
+    it('agrees with getCalendarDate across the date line', () => {
+        const instant = new Date('2025-01-21T20:00:00Z');
+        expect(getCalendarDate(instant, 'Asia/Singapore')).toEqual({ year: 2025, month: 1, day: 22 });
+        expect(getCalendarDate(instant, 'America/Los_Angeles')).toEqual({ year: 2025, month: 1, day: 21 });
+    });
+});
+
+describe('parseIsoDateString', () => {
+    it('round-trips valid dates and rejects impossible ones', () => {
+        expect(parseIsoDateString('2024-02-29')).toEqual({ year: 2024, month: 2, day: 29 });
+        expect(parseIsoDateString('2025-02-29')).toBeNull();
+        expect(parseIsoDateString('yesterday')).toBeNull();
+    });
+});
+
+describe('datetime-local strings', () => {
+    it('reads and writes wall-clock time in the given zone', () => {
+        const instant = new Date('2025-03-01T18:30:00Z');
+        expect(toDateTimeLocalString(instant, 'Asia/Kolkata')).toBe('2025-03-02T00:00');
+        expect(parseDateTimeLocalString('2025-03-02T00:00', 'Asia/Kolkata')).toEqual(instant);
+        expect(parseDateTimeLocalString('2025-03-01T13:30', 'America/New_York')).toEqual(instant);
+    });
+
+    it('rejects malformed values', () => {
+        expect(parseDateTimeLocalString('2025-02-30T10:00', 'UTC')).toBeNull();
+        expect(parseDateTimeLocalString('2025-03-01T24:00', 'UTC')).toBeNull();
+        expect(parseDateTimeLocalString('', 'UTC')).toBeNull();
+    });
+});
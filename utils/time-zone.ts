@@ -0,0 +1,238 @@
+import type { CalendarDate, LocationSetting } from '../types';
+
+const FALLBACK_TIME_ZONE = 'UTC';
+
+/**
+ * Reads the IANA time zone the browser (or Node process) is running in.
+ * @returns The time zone name, or UTC if it cannot be determined.
+ */
+export const getBrowserTimeZone = (): string => {
+    try {
+        return Intl.DateTimeFormat().resolvedOptions().timeZone || FALLBACK_TIME_ZONE;
+    } catch {
+        return FALLBACK_TIME_ZONE;
+    }
+};
+
+/**
+ * Checks whether a string is an IANA time zone the runtime understands.
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+    try {
+        new Intl.DateTimeFormat(undefined, { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Lists the time zones offered in the settings picker, falling back to the
+ * preset zones on runtimes without Intl.supportedValuesOf.
+ */
+export const getSupportedTimeZones = (): string[] => {
+    const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+    if (typeof intl.supportedValuesOf === 'function') {
+        return intl.supportedValuesOf('timeZone');
+    }
+    return [...new Set(LOCATION_PRESETS.map(preset => preset.timeZone))].sort();
+};
+
+/**
+ * Cities the family commonly uses, with coordinates for sunrise-based calculations.
+ */
+export const LOCATION_PRESETS: readonly LocationSetting[] = [
+    { label: 'Chennai', timeZone: 'Asia/Kolkata', latitude: 13.0827, longitude: 80.2707 },
+    { label: 'Bengaluru', timeZone: 'Asia/Kolkata', latitude: 12.9716, longitude: 77.5946 },
+    { label: 'Hyderabad', timeZone: 'Asia/Kolkata', latitude: 17.385, longitude: 78.4867 },
+    { label: 'Singapore', timeZone: 'Asia/Singapore', latitude: 1.3521, longitude: 103.8198 },
+    { label: 'London', timeZone: 'Europe/London', latitude: 51.5072, longitude: -0.1276 },
+    { label: 'New York', timeZone: 'America/New_York', latitude: 40.7128, longitude: -74.006 },
+    { label: 'San Francisco', timeZone: 'America/Los_Angeles', latitude: 37.7749, longitude: -122.4194 },
+];
+
+/**
+ * The location used until the user picks one: the browser's own time zone without coordinates.
+ */
+export const getDefaultLocation = (): LocationSetting => ({
+    label: 'Browser time zone',
+    timeZone: getBrowserTimeZone(),
+});
+
+/**
+ * Validates a persisted location setting.
+ */
+export const isLocationSetting = (value: unknown): value is LocationSetting => {
+    if (typeof value !== 'object' || value === null) return false;
+    const candidate = value as Partial<LocationSetting>;
+    const isOptionalNumber = (n: unknown) => n === undefined || (typeof n === 'number' && Number.isFinite(n));
+    return (
+        typeof candidate.label === 'string' &&
+        typeof candidate.timeZone === 'string' &&
+        isValidTimeZone(candidate.timeZone) &&
+        isOptionalNumber(candidate.latitude) &&
+        isOptionalNumber(candidate.longitude)
+    );
+};
+
+/**
+ * Formats an instant as a date and time in the given time zone, in the user's locale.
+ * @param date The instant to format.
+ * @param timeZone The IANA time zone to display it in.
+ * @param options Overrides for the default long weekday/date/time format.
+ * @returns The formatted string.
+ */
+export const formatDateTime = (
+    date: Date,
+    timeZone: string,
+    options: Intl.DateTimeFormatOptions = {
+        weekday: 'long',
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+    },
+): string => {
+    return date.toLocaleString(undefined, { ...options, timeZone });
+};
+
+/**
+ * Gets the short name of a time zone at a given instant (e.g. "IST", "GMT+8").
+ */
+export const getTimeZoneAbbreviation = (date: Date, timeZone: string): string => {
+    const parts = new Intl.DateTimeFormat(undefined, { timeZone, timeZoneName: 'short' }).formatToParts(date);
+    return parts.find(part => part.type === 'timeZoneName')?.value ?? timeZone;
+};
+
+/**
+ * Reads the wall-clock date and time of an instant in a time zone.
+ */
+const getZonedParts = (date: Date, timeZone: string) => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+    }).formatToParts(date);
+    const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+    return {
+        year: get('year'),
+        month: get('month'),
+        day: get('day'),
+        hour: get('hour'),
+        minute: get('minute'),
+        second: get('second'),
+    };
+};
+
+/**
+ * Gets the calendar date an instant falls on in a time zone.
+ * @param date The instant.
+ * @param timeZone The IANA time zone.
+ * @returns The local year, month (1-12) and day.
+ */
+export const getCalendarDate = (date: Date, timeZone: string): CalendarDate => {
+    const { year, month, day } = getZonedParts(date, timeZone);
+    return { year, month, day };
+};
+
+/**
+ * Calculates a time zone's offset from UTC at a given instant.
+ * @returns The offset in milliseconds (positive east of Greenwich).
+ */
+export const getTimeZoneOffsetMs = (date: Date, timeZone: string): number => {
+    const { year, month, day, hour, minute, second } = getZonedParts(date, timeZone);
+    const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+    return wallClockAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * Converts a wall-clock time in a time zone to the instant it denotes.
+ * @param calendarDate The local date.
+ * @param timeZone The IANA time zone.
+ * @param hour Local hour (0-23).
+ * @param minute Local minute.
+ * @returns The corresponding instant.
+ */
+export const zonedTimeToDate = (calendarDate: CalendarDate, timeZone: string, hour = 0, minute = 0): Date => {
+    const wallClockAsUtc = Date.UTC(calendarDate.year, calendarDate.month - 1, calendarDate.day, hour, minute);
+    // Two passes settle the offset even when the first guess lands on the other side of a DST change.
+    let instant = wallClockAsUtc - getTimeZoneOffsetMs(new Date(wallClockAsUtc), timeZone);
+    instant = wallClockAsUtc - getTimeZoneOffsetMs(new Date(instant), timeZone);
+    return new Date(instant);
+};
+
+/**
+ * Moves a calendar date by a number of days.
+ */
+export const addDays = (calendarDate: CalendarDate, days: number): CalendarDate => {
+    const shifted = new Date(Date.UTC(calendarDate.year, calendarDate.month - 1, calendarDate.day + days));
+    return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+};
+
+/**
+ * Gets the day of the week of a calendar date (0 = Sunday).
+ */
+export const getWeekday = (calendarDate: CalendarDate): number => {
+    return new Date(Date.UTC(calendarDate.year, calendarDate.month - 1, calendarDate.day)).getUTCDay();
+};
+
+/**
+ * Finds the instants at which a local calendar day begins and ends.
+ * @param calendarDate The local date.
+ * @param timeZone The IANA time zone.
+ * @returns Local midnight at the start of the day and at the start of the next day.
+ */
+export const getDayBounds = (calendarDate: CalendarDate, timeZone: string): { start: Date; end: Date } => ({
+    start: zonedTimeToDate(calendarDate, timeZone),
+    end: zonedTimeToDate(addDays(calendarDate, 1), timeZone),
+});
+
+/**
+ * Formats a calendar date as YYYY-MM-DD, the format used by date inputs.
+ */
+export const toIsoDateString = (calendarDate: CalendarDate): string => {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${calendarDate.year}-${pad(calendarDate.month)}-${pad(calendarDate.day)}`;
+};
+
+/**
+ * Parses a YYYY-MM-DD string, as produced by date inputs.
+ * @returns The calendar date, or null if the string is not a valid date.
+ */
+export const parseIsoDateString = (value: string): CalendarDate | null => {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (!match) return null;
+    const calendarDate = { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+    return toIsoDateString(addDays(calendarDate, 0)) === value ? calendarDate : null;
+};
+
+/**
+ * Formats an instant as YYYY-MM-DDTHH:mm wall-clock time in a time zone, the format used by
+ * datetime-local inputs.
+ */
+export const toDateTimeLocalString = (date: Date, timeZone: string): string => {
+    const { hour, minute } = getZonedParts(date, timeZone);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${toIsoDateString(getCalendarDate(date, timeZone))}T${pad(hour)}:${pad(minute)}`;
+};
+
+/**
+ * Parses a YYYY-MM-DDTHH:mm string, as produced by datetime-local inputs, as wall-clock time
+ * in a time zone.
+ * @returns The instant it denotes, or null if the string is not a valid date and time.
+ */
+export const parseDateTimeLocalString = (value: string, timeZone: string): Date | null => {
+    const match = /^(\d{4}-\d{2}-\d{2})T(\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?$/.exec(value);
+    if (!match) return null;
+    const calendarDate = parseIsoDateString(match[1]);
+    const hour = Number(match[2]);
+    const minute = Number(match[3]);
+    if (!calendarDate || hour > 23 || minute > 59) return null;
+    return zonedTimeToDate(calendarDate, timeZone, hour, minute);
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { describeRingSegment, getSegmentProgress, longitudeToPoint, unwrapAngle } from './zodiac-wheel';
+
+describe('longitudeToPoint', () => {
+    it('puts 0° on the left and runs counter-clockwise', () => {
+        const at = (longitude: number) => {
+            const { x, y } = longitudeToPoint(100, 100, 50, longitude);
+            return { x: Math.round(x), y: Math.round(y) };
+        };
+
+        expect(at(0)).toEqual({ x: 50, y: 100 });
+        expect(at(90)).toEqual({ x: 100, y: 150 });
+        expect(at(180)).toEqual({ x: 150, y: 100 });
+        expect(at(270)).toEqual({ x: 100, y: 50 });
+    });
+});
+
+describe('describeRingSegment', () => {
+    it('draws a closed path of two arcs joined by radial lines', () => {
+        const path = describeRingSegment(100, 100, 40, 50, 0, 90);
+
+        expect(path).toBe(
+            'M 50.000 100.000 A 50 50 0 0 0 100.000 150.000 L 100.000 140.000 A 40 40 0 0 1 60.000 100.000 Z',
+        );
+    });
+
+    it('sets the large-arc flag for segments wider than 180°', () => {
+        expect(describeRingSegment(0, 0, 1, 2, 0, 270)).toContain('A 2 2 0 1 0');
+    });
+});
+
+describe('getSegmentProgress', () => {
+    it('returns the fraction of the segment covered', () => {
+        expect(getSegmentProgress(186.6667, 186.6667, 200)).toBeCloseTo(0);
+        expect(getSegmentProgress(193.3333, 186.6667, 200)).toBeCloseTo(0.5);
+    });
+
+    it('handles segments that end at 360°', () => {
+        expect(getSegmentProgress(353.3333, 346.6667, 360)).toBeCloseTo(0.5);
+        expect(getSegmentProgress(0, 346.6667, 360)).toBeNull();
+    });
+
+    it('returns null outside the segment', () => {
+        expect(getSegmentProgress(200, 186.6667, 200)).toBeNull();
+        expect(getSegmentProgress(10, 186.6667, 200)).toBeNull();
+    });
+});
+
+describe('unwrapAngle', () => {
+    it('keeps moving forward across 360°', () => {
+        expect(unwrapAngle(359, 1)).toBe(361);
+        expect(unwrapAngle(719.5, 0.5)).toBe(720.5);
+    });
+
+    it('moves backward when that is shorter', () => {
+        expect(unwrapAngle(1, 359)).toBe(-1);
+        expect(unwrapAngle(100, 90)).toBe(90);
+    });
+});
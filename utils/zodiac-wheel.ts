@@ -0,0 +1,90 @@
+/**
+ * Geometry for drawing the sidereal zodiac as an SVG wheel. The wheel follows the usual chart
+ * orientation: 0° (the start of Mesha and Ashwini) sits at the left and longitude increases
+ * counter-clockwise on screen.
+ */
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Converts a sidereal longitude at a given radius into SVG coordinates (y grows downwards).
+ * @param cx The x coordinate of the wheel's centre.
+ * @param cy The y coordinate of the wheel's centre.
+ * @param radius The distance from the centre.
+ * @param longitude The sidereal longitude in degrees.
+ * @returns The point on the wheel.
+ */
+export const longitudeToPoint = (cx: number, cy: number, radius: number, longitude: number): Point => {
+    const angle = toRadians(longitude);
+    return {
+        x: cx - radius * Math.cos(angle),
+        y: cy + radius * Math.sin(angle),
+    };
+};
+
+const formatPoint = ({ x, y }: Point) => `${x.toFixed(3)} ${y.toFixed(3)}`;
+
+/**
+ * Builds the SVG path of a ring segment between two longitudes, e.g. one nakshatra or rashi.
+ * @param cx The x coordinate of the wheel's centre.
+ * @param cy The y coordinate of the wheel's centre.
+ * @param innerRadius The inner radius of the ring.
+ * @param outerRadius The outer radius of the ring.
+ * @param startDegrees The longitude where the segment starts.
+ * @param endDegrees The longitude where the segment ends; must be after the start, within 360°.
+ * @returns The `d` attribute of a closed path.
+ */
+export const describeRingSegment = (
+    cx: number,
+    cy: number,
+    innerRadius: number,
+    outerRadius: number,
+    startDegrees: number,
+    endDegrees: number,
+): string => {
+    const span = endDegrees - startDegrees;
+    const largeArc = span > 180 ? 1 : 0;
+    const outerStart = longitudeToPoint(cx, cy, outerRadius, startDegrees);
+    const outerEnd = longitudeToPoint(cx, cy, outerRadius, endDegrees);
+    const innerStart = longitudeToPoint(cx, cy, innerRadius, startDegrees);
+    const innerEnd = longitudeToPoint(cx, cy, innerRadius, endDegrees);
+
+    // Increasing longitude runs counter-clockwise on screen, which is SVG's negative sweep.
+    return [
+        `M ${formatPoint(outerStart)}`,
+        `A ${outerRadius} ${outerRadius} 0 ${largeArc} 0 ${formatPoint(outerEnd)}`,
+        `L ${formatPoint(innerEnd)}`,
+        `A ${innerRadius} ${innerRadius} 0 ${largeArc} 1 ${formatPoint(innerStart)}`,
+        'Z',
+    ].join(' ');
+};
+
+/**
+ * Works out how far a longitude has progressed through a segment.
+ * @param longitude The longitude to place.
+ * @param startDegrees The start of the segment.
+ * @param endDegrees The end of the segment.
+ * @returns A fraction from 0 to 1, or null when the longitude lies outside the segment.
+ */
+export const getSegmentProgress = (longitude: number, startDegrees: number, endDegrees: number): number | null => {
+    const span = endDegrees - startDegrees;
+    const offset = (((longitude - startDegrees) % 360) + 360) % 360;
+    return offset < span ? offset / span : null;
+};
+
+/**
+ * Picks the equivalent of an angle closest to the previous one, so an animated rotation takes
+ * the short way round instead of spinning backwards when the longitude wraps from 360° to 0°.
+ * @param previous The previous, possibly unwrapped, angle in degrees.
+ * @param next The new angle in degrees.
+ * @returns An angle equivalent to `next`, within 180° of `previous`.
+ */
+export const unwrapAngle = (previous: number, next: number): number => {
+    const delta = ((((next - previous) % 360) + 540) % 360) - 180;
+    return previous + delta;
+};
@@ -0,0 +1,20 @@
+import { defineConfig } from 'vite';
+
+/**
+ * Builds the command line tool into a single plain-Node script, dist-cli/nakshatra.js, which
+ * package.json exposes as the `nakshatra` command.
+ */
+export default defineConfig({
+    publicDir: false,
+    build: {
+        ssr: 'cli/nakshatra.ts',
+        outDir: 'dist-cli',
+        target: 'node20',
+        rollupOptions: {
+            output: {
+                entryFileNames: 'nakshatra.js',
+                banner: '#!/usr/bin/env node',
+            },
+        },
+    },
+});
@@ -1,7 +1,35 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Files copied verbatim from public/ that the app needs offline.
+const PUBLIC_ASSETS = ['/manifest.webmanifest', '/icon.svg'];
+
+/**
+ * Emits service-worker.js as /sw.js with the list of bundled files injected, so the
+ * worker can precache exactly what this build produced.
+ */
+const serviceWorker = (): Plugin => ({
+    name: 'swathi-service-worker',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_options, bundle) {
+        const urls = ['/', ...Object.keys(bundle).map(fileName => `/${fileName}`), ...PUBLIC_ASSETS];
+        // A content hash, so any change to the bundle installs a new precache.
+        const hash = createHash('sha256');
+        for (const output of Object.values(bundle)) {
+            hash.update(output.type === 'chunk' ? output.code : output.source);
+        }
+        const version = hash.digest('hex').slice(0, 12);
+        const source = readFileSync(path.resolve(__dirname, 'service-worker.js'), 'utf-8')
+            .replace('__PRECACHE_MANIFEST__', JSON.stringify(urls))
+            .replace('__CACHE_VERSION__', version);
+        this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+    },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +37,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)